@@ -1,127 +1,624 @@
-import React, { useState, useRef } from 'react';
-import { InputPanel } from './components/InputPanel';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { InputPanel, type InputPanelActions } from './components/InputPanel';
 import { BodyVisualizationMain } from './components/BodyVisualizationMain';
-import { DiagnosisOverlay } from './components/DiagnosisOverlay';
+import { CommandPalette } from './components/CommandPalette';
+import { DiagnosisOverlay, type DiagnosisOverlayActions } from './components/DiagnosisOverlay';
 import { OrganGridTable } from './components/OrganGridTable';
-import { Activity, FileText, Shield, Moon, Sun } from 'lucide-react';
+import { HistorySidebar } from './components/HistorySidebar';
+import { AnalysisComparison } from './components/AnalysisComparison';
+import { AuditLogDialog } from './components/AuditLogDialog';
+import { OrganDetailDrawer } from './components/OrganDetailDrawer';
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from './components/ui/sheet';
+import { SidebarProvider } from './components/ui/sidebar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
+import { useIsMobile } from './components/ui/use-mobile';
+import { Activity, Command, FileText, History, ScrollText, Shield, Moon, Sun } from 'lucide-react';
+import {
+  analyze,
+  analyzeStream,
+  CancelledError,
+  describeApiError,
+  ENGINES,
+  requestEngines,
+  useEngineHealth,
+  type AnalysisResult,
+  type AnalyzeRequest,
+  type PartialAnalysisResult,
+} from './api';
+import { appendAuditEntry, type AuditEvent } from './audit';
+import { annotateOrgan, applyAnnotations, clearAnnotations, type OrganAnnotationChanges } from './annotations';
 import { API_CONFIG } from './config';
+import { analyzeConsensus, mergeConsensus, organAgreement } from './consensus';
+import { formatConsentEngines, uncoveredEngines, type ConsentRecord } from './consent';
+import {
+  BODY_VIEW_IDS,
+  DEFAULT_BODY_VIEW,
+  describeAffectedOrgans,
+  normalizeOrgans,
+  resolveOrganLevels,
+  type BodyViewId,
+  type OrganKey,
+} from './organs';
+import { useHistory, type HistoryEntry } from './history';
+import { redactRequest, rehydrateResult } from './redaction';
+import {
+  SHORTCUTS,
+  formatShortcut,
+  useShortcuts,
+  viewShortcut,
+  type ShortcutBinding,
+} from './shortcuts';
+import type { DiagnosisCode } from './terminology';
 import { toast, Toaster } from 'sonner@2.0.3';
 
-interface AnalysisResult {
-  diagnosis: string;
-  organs: string[];
-  organDetails?: Record<string, string>; // Organ-specific issue details
-  explanation: string;
-  confidence?: number;
-  severity: 'low' | 'medium' | 'high';
-  recommendations: string[];
-}
+// Below this width the workspace stacks: tabs for body and organs, input in a
+// bottom drawer. Wide enough to cover tablets in portrait on ward rounds.
+const COMPACT_LAYOUT_BREAKPOINT = 1024;
 
-// Backend API response interface
-interface APIResponse {
-  diagnosis?: string;
-  supporting_organs?: string[];
-  organ_details?: Record<string, string>; // Organ-specific issue details
-  explanation?: string;
-  confidence?: number;
-  severity?: 'low' | 'medium' | 'high';
-  recommendations?: string[];
-  error?: string;
-}
+type WorkspaceTab = 'body' | 'organs';
+
+// Read out by screen readers when an analysis finishes
+const describeResult = (result: AnalysisResult) =>
+  `Analysis complete. ${result.diagnosis}, ${result.severity} severity. ${describeAffectedOrgans(
+    normalizeOrgans(result.organs).keys,
+    resolveOrganLevels(result.organs, result.organSeverity, result.severity),
+    resolveOrganLevels(result.organs, result.organConfidence)
+  )}`;
 
 export default function App() {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [streamingResult, setStreamingResult] = useState<PartialAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [attempt, setAttempt] = useState<{ current: number; max: number } | null>(null);
   const [showInput, setShowInput] = useState(true);
   const [isDarkMode, setIsDarkMode] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [restoredInput, setRestoredInput] = useState<AnalyzeRequest | null>(null);
+  // Input, completion time and consent of the result on screen, for exported reports
+  const [diagnosisCode, setDiagnosisCode] = useState<DiagnosisCode | null>(null);
+  const [analysisContext, setAnalysisContext] = useState<{
+    input: AnalyzeRequest;
+    analyzedAt: number;
+    consent?: ConsentRecord;
+  } | null>(null);
+  const [comparison, setComparison] = useState<{ before: HistoryEntry; after: HistoryEntry } | null>(null);
+  // Organ picked on the body or in the grid; its detail drawer is open while set
+  const [selectedOrgan, setSelectedOrgan] = useState<OrganKey | null>(null);
+  const [bodyView, setBodyView] = useState<BodyViewId>(DEFAULT_BODY_VIEW);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [workspaceTab, setWorkspaceTab] = useState<WorkspaceTab>('body');
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+  // Polite live-region message for analysis progress
+  const [announcement, setAnnouncement] = useState('');
+  const isCompact = useIsMobile(COMPACT_LAYOUT_BREAKPOINT);
+  const history = useHistory();
+  const engineHealth = useEngineHealth();
+
+  useEffect(() => {
+    if (history.loadError) {
+      toast.error('Analysis history is unavailable', { description: history.loadError.message });
+    }
+  }, [history.loadError]);
   const visualizationRef = useRef<HTMLDivElement>(null);
+  const inputActionsRef = useRef<InputPanelActions>(null);
+  const overlayActionsRef = useRef<DiagnosisOverlayActions>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Failed audit writes are reported but never hold up the action they record
+  const audit = (event: AuditEvent) => {
+    appendAuditEntry(event).catch((error: Error) => {
+      console.error('Error writing audit log:', error);
+      toast.error('Could not write to the audit log', { description: error.message });
+    });
+  };
 
-  const handleAnalyze = async (data: {
-    patientName: string;
-    doctorName: string;
-    description: string;
-  }) => {
+  const handleAnalyze = async (data: AnalyzeRequest, consent: ConsentRecord) => {
+    const engines = requestEngines(data);
+    const missingEngines = uncoveredEngines(consent, engines);
+    if (missingEngines.length > 0) {
+      toast.error('Patient consent does not cover this analysis', {
+        description: `Not covered: ${formatConsentEngines(missingEngines)}`,
+      });
+      return;
+    }
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsAnalyzing(true);
+    setAnnouncement('Analyzing clinical input…');
+    setSelectedOrgan(null);
+    setIsAnnotating(false);
+    if (isCompact) {
+      // Close the input drawer so the body is in view while the result streams in
+      setShowInput(false);
+      setWorkspaceTab('body');
+    }
     
+    const auditSubject = { actor: data.doctorName, patient: data.patientName };
     try {
-      // Make API call to Flask backend
-      const response = await fetch(`${API_CONFIG.baseUrl}${API_CONFIG.endpoints.analyze}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      // Only placeholders leave the browser; the result is filled back in here
+      const { request, redactions } = redactRequest(data);
+      audit({
+        action: 'analysis.submitted',
+        ...auditSubject,
+        details: {
+          description: request.description,
+          redactions: redactions.length,
+          consent: consent.id,
+          engines: [...engines],
+          consensus: !!data.consensus,
         },
-        body: JSON.stringify({
-          patient_name: data.patientName,
-          doctor_name: data.doctorName,
-          description: data.description
-        })
       });
-
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
+      const options = {
+        signal: controller.signal,
+        onAttempt: (current: number, max: number) => setAttempt({ current, max }),
+        onUpdate: (partial: PartialAnalysisResult) => {
+          setAnalysisResult(null);
+          setStreamingResult(rehydrateResult(partial, redactions));
+        },
+      };
+      let result: AnalysisResult;
+      if (data.consensus) {
+        // Each engine's answer is rehydrated before merging, so the side-by-side
+        // view shows the real text as well
+        const answers = (
+          await analyzeConsensus(request, engines, { signal: controller.signal })
+        ).map((answer) =>
+          answer.result ? { ...answer, result: rehydrateResult(answer.result, redactions) } : answer
+        );
+        result = mergeConsensus(answers);
+        const failed = answers.filter((answer) => answer.error);
+        if (failed.length > 0) {
+          toast.warning(`${failed.length} of ${answers.length} engines did not answer`, {
+            description: failed.map((answer) => `${ENGINES[answer.engine].label}: ${answer.error}`).join('\n'),
+          });
+        }
+      } else {
+        result = rehydrateResult(
+          API_CONFIG.streaming
+            ? await analyzeStream(request, options)
+            : await analyze(request, options),
+          redactions
+        );
       }
+      setAnalysisResult(result);
+      setAnalysisContext({ input: data, analyzedAt: Date.now(), consent });
+      setDiagnosisCode(null);
+      setActiveHistoryId(null);
+      setComparison(null);
+      toast.success('Analysis completed successfully');
+      audit({
+        action: 'analysis.completed',
+        ...auditSubject,
+        details: {
+          diagnosis: result.diagnosis,
+          severity: result.severity,
+          organs: normalizeOrgans(result.organs).keys,
+          engine: result.engine ?? null,
+          fallbackFrom: result.fallbackFrom ?? [],
+          ...(result.consensus
+            ? {
+                consensusOf: result.consensus.answers
+                  .filter((answer) => answer.result)
+                  .map((answer) => answer.engine),
+              }
+            : {}),
+        },
+      });
+      setAnnouncement(describeResult(result));
 
-      const apiResult: APIResponse = await response.json();
-
-      // Check for API errors
-      if (apiResult.error) {
-        throw new Error(apiResult.error);
+      // The analysis succeeded even if saving it fails, so saving reports its own errors.
+      // The entry is active before the save finishes, so early annotations and codes reach it.
+      const reportSaveError = (error: Error) => {
+        console.error('Error saving history:', error);
+        toast.error('Could not save analysis to history', { description: error.message });
+      };
+      try {
+        const { id: historyId, saved } = history.save(data, result, consent);
+        setActiveHistoryId(historyId);
+        saved.catch((error: Error) => {
+          setActiveHistoryId((current) => (current === historyId ? null : current));
+          reportSaveError(error);
+        });
+      } catch (error) {
+        reportSaveError(error as Error);
       }
 
-      // Map API response to frontend format
-      const result: AnalysisResult = {
-        diagnosis: apiResult.diagnosis || 'No diagnosis available',
-        organs: apiResult.supporting_organs || [],
-        organDetails: apiResult.organ_details || {},
-        explanation: apiResult.explanation || 'No explanation provided',
-        confidence: apiResult.confidence,
-        severity: apiResult.severity || 'medium',
-        recommendations: apiResult.recommendations || []
-      };
-      
-      setAnalysisResult(result);
-      toast.success('Analysis completed successfully');
+      const unrecognized = [
+        ...(result.unrecognizedOrgans ?? []),
+        ...normalizeOrgans(result.organs).unrecognized,
+      ];
+      if (unrecognized.length > 0) {
+        toast.warning('Some organs could not be shown on the body', {
+          description: unrecognized.join(', '),
+        });
+      }
     } catch (error) {
+      setAnnouncement(''); // Failures and cancellations are announced by their toasts
+      if (error instanceof CancelledError) {
+        toast.info('Analysis cancelled');
+        audit({ action: 'analysis.cancelled', ...auditSubject });
+        return;
+      }
       console.error('Error analyzing:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to analyze. Please try again.');
-      
-      // Optionally: Show a fallback result or keep the error visible
+      const { title, description } = describeApiError(error);
+      toast.error(title, { description });
+      audit({ action: 'analysis.failed', ...auditSubject, details: { error: title } });
       setAnalysisResult(null);
     } finally {
-      setIsAnalyzing(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
+        setAttempt(null);
+        setStreamingResult(null);
+      }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClear = () => {
+    if (analysisResult) {
+      audit({
+        action: 'workspace.cleared',
+        actor: analysisContext?.input.doctorName ?? '',
+        patient: analysisContext?.input.patientName,
+        details: { diagnosis: analysisResult.diagnosis },
+      });
+    }
     setAnalysisResult(null);
+    setAnalysisContext(null);
+    setDiagnosisCode(null);
+    setActiveHistoryId(null);
+    setComparison(null);
+    setSelectedOrgan(null);
+    setIsAnnotating(false);
+  };
+
+  // Empty form and workspace, with the cursor in the first field
+  const handleNewAnalysis = () => {
+    inputActionsRef.current?.reset();
+    setShowInput(true);
+    // The panel mounts on the next render when it was closed
+    setTimeout(() => inputActionsRef.current?.focus(), 0);
+  };
+
+  // Reopen a saved analysis exactly as it was returned
+  const handleRestore = (entry: HistoryEntry) => {
+    abortControllerRef.current?.abort();
+    setStreamingResult(null);
+    setAnalysisResult(entry.result);
+    setAnalysisContext({ input: entry.input, analyzedAt: entry.createdAt, consent: entry.consent });
+    setDiagnosisCode(entry.diagnosisCode ?? null);
+    setActiveHistoryId(entry.id);
+    setRestoredInput(entry.input);
+    audit({
+      action: 'history.restored',
+      actor: entry.input.doctorName,
+      patient: entry.input.patientName,
+      details: { historyId: entry.id, diagnosis: entry.result.diagnosis },
+    });
+    setComparison(null);
+    setSelectedOrgan(null);
+    setIsAnnotating(false);
+    if (isCompact) setShowHistory(false);
+  };
+
+  // Compare a history entry with the open analysis, earlier one on the left
+  const handleCompare = (entry: HistoryEntry) => {
+    const active = history.entries.find((item) => item.id === activeHistoryId);
+    if (!active) return;
+    const [before, after] = [active, entry].sort((a, b) => a.createdAt - b.createdAt);
+    setComparison({ before, after });
+  };
+
+  // Keep the confirmed code with the saved analysis so restoring brings it back
+  const handleDiagnosisCodeChange = (code: DiagnosisCode | null) => {
+    setDiagnosisCode(code);
+    if (!activeHistoryId) return;
+    history.update(activeHistoryId, { diagnosisCode: code }).catch((error: Error) => {
+      toast.error('Could not save diagnosis code to history', { description: error.message });
+    });
+  };
+
+  // Apply a clinician correction to the finished result and keep it with the saved analysis
+  const updateAnnotations = (update: (result: AnalysisResult) => AnalysisResult) => {
+    if (!analysisResult) return;
+    const updated = update(analysisResult);
+    setAnalysisResult(updated);
+    if (!activeHistoryId) return;
+    history.update(activeHistoryId, { result: updated }).catch((error: Error) => {
+      toast.error('Could not save annotation to history', { description: error.message });
+    });
+  };
+
+  const handleAnnotate = (organKey: OrganKey, changes: OrganAnnotationChanges) =>
+    updateAnnotations((result) => annotateOrgan(result, organKey, changes));
+
+  const handleResetAnnotations = (organKey?: OrganKey) =>
+    updateAnnotations((result) => clearAnnotations(result, organKey));
+
+  // In annotation mode a click on the body adds or removes the organ
+  const handleToggleOrgan = (organKey: OrganKey) =>
+    handleAnnotate(organKey, {
+      included: !normalizeOrgans(displayedResult?.organs ?? []).keys.includes(organKey),
+    });
+
+  const handleTogglePin = (entry: HistoryEntry) => {
+    history.update(entry.id, { pinned: !entry.pinned }).catch((error: Error) => {
+      toast.error('Could not update history entry', { description: error.message });
+    });
+  };
+
+  const handleDeleteHistory = (entry: HistoryEntry) => {
+    history
+      .remove(entry.id)
+      .then(() => {
+        if (entry.id === activeHistoryId) setActiveHistoryId(null);
+        if (comparison && [comparison.before.id, comparison.after.id].includes(entry.id)) {
+          setComparison(null);
+        }
+        toast.success('Analysis removed from history');
+        audit({
+          action: 'history.deleted',
+          actor: entry.input.doctorName,
+          patient: entry.input.patientName,
+          details: { historyId: entry.id, diagnosis: entry.result.diagnosis },
+        });
+      })
+      .catch((error: Error) => {
+        toast.error('Could not delete history entry', { description: error.message });
+      });
   };
 
+  // Render the streamed partial result until the final one arrives, with the
+  // clinician's corrections applied over the model's findings
+  const annotated = useMemo(() => {
+    const result = analysisResult ?? streamingResult;
+    return result ? applyAnnotations<PartialAnalysisResult>(result) : null;
+  }, [analysisResult, streamingResult]);
+  const displayedResult = annotated?.result ?? null;
+  const organProvenance = annotated?.provenance;
+
+  // Each organ's own severity, falling back to the overall level when the model gave none
+  const severityLevels = useMemo(
+    () =>
+      displayedResult
+        ? resolveOrganLevels(
+            displayedResult.organs,
+            displayedResult.organSeverity,
+            displayedResult.severity
+          )
+        : {},
+    [displayedResult]
+  );
+  // Consensus results only: how many engines flagged each organ
+  const agreement = useMemo(
+    () => (displayedResult ? organAgreement(displayedResult) : {}),
+    [displayedResult]
+  );
+  const confidenceLevels = useMemo(
+    () =>
+      displayedResult
+        ? resolveOrganLevels(displayedResult.organs, displayedResult.organConfidence)
+        : {},
+    [displayedResult]
+  );
+
+  // Global shortcuts; running an analysis and exports are bound where they happen,
+  // in InputPanel and DiagnosisOverlay
+  useShortcuts([
+    [SHORTCUTS.commandPalette, () => setIsPaletteOpen((open) => !open)],
+    [SHORTCUTS.newAnalysis, handleNewAnalysis],
+    [SHORTCUTS.clear, () => inputActionsRef.current?.reset()],
+    [SHORTCUTS.toggleInput, () => setShowInput((show) => !show)],
+    [SHORTCUTS.toggleTheme, () => setIsDarkMode((dark) => !dark)],
+    [SHORTCUTS.toggleHistory, () => setShowHistory((show) => !show)],
+    ...BODY_VIEW_IDS.map((viewId, index): ShortcutBinding => [viewShortcut(index), () => setBodyView(viewId)]),
+  ]);
+
+  // Exports run from the diagnosis overlay, which is only shown with a finished result
+  const canExport = !!analysisResult && !comparison && (!isCompact || workspaceTab === 'body');
+
+  const historySidebar = (
+    <HistorySidebar
+      entries={history.entries}
+      activeId={activeHistoryId}
+      isLoading={history.isLoading}
+      onRestore={handleRestore}
+      onTogglePin={handleTogglePin}
+      onDelete={handleDeleteHistory}
+      onCompare={handleCompare}
+      isDarkMode={isDarkMode}
+    />
+  );
+
+  const comparisonView = comparison && (
+    <AnalysisComparison
+      before={comparison.before}
+      after={comparison.after}
+      onClose={() => setComparison(null)}
+      isDarkMode={isDarkMode}
+    />
+  );
+
+  const bodyVisualization = (
+    <BodyVisualizationMain
+      captureRef={visualizationRef}
+      highlightedOrgans={displayedResult?.organs || []}
+      organDetails={displayedResult?.organDetails}
+      isAnalyzing={isAnalyzing}
+      attempt={attempt}
+      severity={displayedResult?.severity}
+      severityLevels={severityLevels}
+      confidenceLevels={confidenceLevels}
+      selectedOrgan={selectedOrgan}
+      onSelectOrgan={isAnnotating ? handleToggleOrgan : setSelectedOrgan}
+      isAnnotating={isAnnotating}
+      organProvenance={organProvenance}
+      organAgreement={agreement}
+      view={bodyView}
+      onViewChange={setBodyView}
+      isCompact={isCompact}
+      isDarkMode={isDarkMode}
+    />
+  );
+
+  const diagnosisOverlay = displayedResult && (
+    <DiagnosisOverlay
+      result={displayedResult}
+      severityLevels={severityLevels}
+      confidenceLevels={confidenceLevels}
+      organProvenance={organProvenance}
+      view={bodyView}
+      isStreaming={!analysisResult}
+      input={analysisContext?.input}
+      analyzedAt={analysisContext?.analyzedAt}
+      consent={analysisContext?.consent}
+      diagnosisCode={diagnosisCode}
+      onDiagnosisCodeChange={handleDiagnosisCodeChange}
+      onExported={(format) =>
+        audit({
+          action: `export.${format}`,
+          actor: analysisContext?.input.doctorName ?? '',
+          patient: analysisContext?.input.patientName,
+          details: { diagnosis: displayedResult.diagnosis ?? '', historyId: activeHistoryId },
+        })
+      }
+      visualizationRef={visualizationRef}
+      isCompact={isCompact}
+      isDarkMode={isDarkMode}
+      actionsRef={overlayActionsRef}
+    />
+  );
+
+  const organDetailDrawer = displayedResult && (
+    <OrganDetailDrawer
+      organKey={selectedOrgan}
+      result={displayedResult}
+      severityLevels={severityLevels}
+      confidenceLevels={confidenceLevels}
+      onClose={() => setSelectedOrgan(null)}
+      isDarkMode={isDarkMode}
+    />
+  );
+
+  const organGrid = displayedResult && (
+    <OrganGridTable
+      highlightedOrgans={displayedResult.organs}
+      organDetails={displayedResult.organDetails}
+      unrecognizedOrgans={displayedResult.unrecognizedOrgans}
+      severityLevels={severityLevels}
+      confidenceLevels={confidenceLevels}
+      analysisResult={{
+        diagnosis: displayedResult.diagnosis,
+        explanation: displayedResult.explanation,
+        severity: displayedResult.severity,
+        confidence: displayedResult.confidence,
+      }}
+      selectedOrgan={selectedOrgan}
+      onSelectOrgan={setSelectedOrgan}
+      organProvenance={organProvenance}
+      annotations={displayedResult.clinicianAnnotations}
+      isAnnotating={isAnnotating}
+      onToggleAnnotating={
+        analysisResult
+          ? () => {
+              setIsAnnotating(!isAnnotating);
+              setSelectedOrgan(null);
+            }
+          : undefined
+      }
+      onAnnotate={handleAnnotate}
+      onResetAnnotations={handleResetAnnotations}
+      isDarkMode={isDarkMode}
+      showGrid={false}
+      className="h-full"
+    />
+  );
+
+  const headerButtonClass = `flex items-center gap-2 ${isCompact ? 'p-2.5' : 'px-4 py-2'} ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'} rounded-lg transition-colors`;
+
   return (
-    <div className={`min-h-screen ${isDarkMode ? 'dark bg-slate-950' : 'bg-white'} text-white overflow-hidden`}>
+    <div
+      className={`flex flex-col ${isDarkMode ? 'dark bg-slate-950' : 'bg-white'} text-white overflow-hidden`}
+      style={{ height: '100dvh' }}
+    >
       <Toaster position="top-right" theme={isDarkMode ? 'dark' : 'light'} />
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        onNewAnalysis={handleNewAnalysis}
+        onRunAnalysis={showInput && !isAnalyzing ? () => inputActionsRef.current?.submit() : undefined}
+        onClear={() => inputActionsRef.current?.reset()}
+        showInput={showInput}
+        onToggleInput={() => setShowInput(!showInput)}
+        isDarkMode={isDarkMode}
+        onToggleTheme={() => setIsDarkMode(!isDarkMode)}
+        showHistory={showHistory}
+        onToggleHistory={() => setShowHistory(!showHistory)}
+        onSaveImage={canExport ? () => overlayActionsRef.current?.saveImage() : undefined}
+        onExportPdf={canExport ? () => overlayActionsRef.current?.exportPdf() : undefined}
+        onExportFhir={canExport ? () => overlayActionsRef.current?.exportFhir() : undefined}
+        affectedOrgans={displayedResult ? normalizeOrgans(displayedResult.organs).keys : []}
+        onShowOrgan={setSelectedOrgan}
+        view={bodyView}
+        onViewChange={setBodyView}
+        historyEntries={history.entries}
+        onRestore={handleRestore}
+        onOpenAuditLog={() => setIsAuditLogOpen(true)}
+      />
+      <AuditLogDialog
+        open={isAuditLogOpen}
+        onOpenChange={setIsAuditLogOpen}
+        actor={analysisContext?.input.doctorName ?? ''}
+      />
       {/* Header */}
       <header className={`border-b ${isDarkMode ? 'border-slate-800 bg-slate-900/50' : 'border-slate-200 bg-slate-50/50'} backdrop-blur-sm`}>
-        <div className="max-w-[1800px] mx-auto px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <div className="w-10 h-10 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-lg flex items-center justify-center">
+        <div className={`max-w-[1800px] mx-auto ${isCompact ? 'px-4 py-3' : 'px-8 py-4'}`}>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="w-10 h-10 shrink-0 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-lg flex items-center justify-center">
                 <Activity className="w-6 h-6" />
               </div>
-              <div>
-                <h1 className={`text-xl ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>Medical AI Analyzer</h1>
-                <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Advanced Pattern Recognition & Clinical Assessment</p>
+              <div className="min-w-0">
+                <h1 className={`${isCompact ? 'text-base' : 'text-xl'} truncate ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>Medical AI Analyzer</h1>
+                {!isCompact && (
+                  <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Advanced Pattern Recognition & Clinical Assessment</p>
+                )}
               </div>
             </div>
-            
-            <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2 px-3 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-lg">
+
+            <div className={`flex items-center ${isCompact ? 'gap-2' : 'gap-4'}`}>
+              <div
+                className="flex items-center gap-2 px-3 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-lg"
+                title="HIPAA Compliant"
+              >
                 <Shield className="w-4 h-4 text-emerald-400" />
-                <span className="text-emerald-400 text-sm">HIPAA Compliant</span>
+                {!isCompact && <span className="text-emerald-400 text-sm">HIPAA Compliant</span>}
               </div>
-              
+
+              {!isCompact && (
+                <button
+                  onClick={() => setIsPaletteOpen(true)}
+                  className={`flex items-center gap-2 px-3 py-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-slate-200 hover:bg-slate-300 text-slate-700'} rounded-lg transition-colors text-xs`}
+                  aria-label="Open command palette"
+                >
+                  <Command className="w-4 h-4" />
+                  {formatShortcut(SHORTCUTS.commandPalette)}
+                </button>
+              )}
+
               <button
                 onClick={() => setIsDarkMode(!isDarkMode)}
-                className={`p-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700' : 'bg-slate-200 hover:bg-slate-300'} rounded-lg transition-colors`}
+                className={`${isCompact ? 'p-2.5' : 'p-2'} ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700' : 'bg-slate-200 hover:bg-slate-300'} rounded-lg transition-colors`}
                 aria-label="Toggle theme"
               >
                 {isDarkMode ? (
@@ -130,86 +627,152 @@ export default function App() {
                   <Moon className="w-5 h-5 text-slate-700" />
                 )}
               </button>
-              
+
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={headerButtonClass}
+                aria-label={isCompact ? (showHistory ? 'Hide history' : 'Show history') : undefined}
+              >
+                <History className="w-4 h-4" />
+                {!isCompact && (showHistory ? 'Hide History' : 'History')}
+              </button>
+
+              <button
+                onClick={() => setIsAuditLogOpen(true)}
+                className={headerButtonClass}
+                aria-label={isCompact ? 'Audit log' : undefined}
+              >
+                <ScrollText className="w-4 h-4" />
+                {!isCompact && 'Audit Log'}
+              </button>
+
               <button
                 onClick={() => setShowInput(!showInput)}
-                className={`flex items-center gap-2 px-4 py-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'} rounded-lg transition-colors`}
+                className={headerButtonClass}
+                aria-label={isCompact ? (showInput ? 'Hide input' : 'Show input') : undefined}
               >
                 <FileText className="w-4 h-4" />
-                {showInput ? 'Hide Input' : 'Show Input'}
+                {!isCompact && (showInput ? 'Hide Input' : 'Show Input')}
               </button>
             </div>
           </div>
         </div>
       </header>
 
-      <div className="max-w-[1800px] mx-auto">
-        <div className="flex h-[calc(100vh-81px)]">
-          {/* Main Body Visualization Area */}
-          <div className="flex-1 relative">
-            {/* Invisible Grid Table Overlay - Pre-tagged to organs */}
-            {analysisResult && (
-              <div className="absolute inset-0 pointer-events-none z-0">
-                <OrganGridTable
-                  highlightedOrgans={analysisResult.organs}
-                  organDetails={analysisResult.organDetails}
-                  analysisResult={{
-                    diagnosis: analysisResult.diagnosis,
-                    explanation: analysisResult.explanation,
-                    severity: analysisResult.severity,
-                    confidence: analysisResult.confidence,
-                  }}
-                  isDarkMode={isDarkMode}
-                  showGrid={false} // Set to true to see grid lines for debugging
-                  className="w-full h-full"
-                />
-              </div>
-            )}
-
-            <BodyVisualizationMain 
-              captureRef={visualizationRef}
-              highlightedOrgans={analysisResult?.organs || []}
-              organDetails={analysisResult?.organDetails}
-              isAnalyzing={isAnalyzing}
-              severity={analysisResult?.severity}
-              isDarkMode={isDarkMode}
-            />
-            
-            {analysisResult && (
-              <DiagnosisOverlay result={analysisResult} visualizationRef={visualizationRef} isDarkMode={isDarkMode} />
-            )}
-          </div>
+      <div className="flex-1 min-h-0 w-full max-w-[1800px] mx-auto">
+        <SidebarProvider
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          className="h-full min-h-0"
+        >
+          {isCompact ? (
+            <>
+              {/* History slides in over the workspace */}
+              <Sheet open={showHistory} onOpenChange={setShowHistory}>
+                <SheetContent
+                  side="left"
+                  className={`p-0 w-72 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}
+                >
+                  <SheetTitle className="sr-only">Analysis History</SheetTitle>
+                  <SheetDescription className="sr-only">Reopen, pin or compare saved analyses</SheetDescription>
+                  {historySidebar}
+                </SheetContent>
+              </Sheet>
 
-          {/* Organ Status Grid Sidebar */}
-          {analysisResult && (
-            <div className="w-80 border-l border-slate-700/50 overflow-y-auto">
-              <OrganGridTable
-                highlightedOrgans={analysisResult.organs}
-                organDetails={analysisResult.organDetails}
-                analysisResult={{
-                  diagnosis: analysisResult.diagnosis,
-                  explanation: analysisResult.explanation,
-                  severity: analysisResult.severity,
-                  confidence: analysisResult.confidence,
-                }}
-                isDarkMode={isDarkMode}
-                showGrid={false}
-                className="h-full"
-              />
-            </div>
+              {comparisonView ? (
+                <div className="flex-1 min-w-0 overflow-y-auto">{comparisonView}</div>
+              ) : (
+                // Body and organ grid as tabs, the diagnosis stacked under the body
+                <Tabs
+                  value={workspaceTab}
+                  onValueChange={(tab) => setWorkspaceTab(tab as WorkspaceTab)}
+                  className="flex-1 min-w-0 min-h-0 gap-0"
+                >
+                  <TabsList className="mx-3 mt-2 w-auto">
+                    <TabsTrigger value="body" className="py-2">Body</TabsTrigger>
+                    <TabsTrigger value="organs" className="py-2" disabled={!displayedResult}>
+                      Organs{displayedResult ? ` (${displayedResult.organs.length})` : ''}
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="body" className="min-h-0 overflow-y-auto">
+                    <div style={{ height: '70vh' }}>{bodyVisualization}</div>
+                    {diagnosisOverlay}
+                  </TabsContent>
+                  <TabsContent value="organs" className="min-h-0 overflow-y-auto">
+                    {organGrid}
+                  </TabsContent>
+                </Tabs>
+              )}
+              {organDetailDrawer}
+            </>
+          ) : (
+            <>
+              {/* Analysis History Sidebar */}
+              {showHistory && historySidebar}
+
+              {comparisonView ? (
+                <div className="flex-1 min-w-0">
+                  {comparisonView}
+                </div>
+              ) : (
+                <>
+                  {/* Main Body Visualization Area */}
+                  <div className="flex-1 relative">
+                    {/* Invisible Grid Table Overlay - Pre-tagged to organs */}
+                    {displayedResult && (
+                      <div className="absolute inset-0 pointer-events-none z-0">
+                        <OrganGridTable
+                          highlightedOrgans={displayedResult.organs}
+                          organDetails={displayedResult.organDetails}
+                          unrecognizedOrgans={displayedResult.unrecognizedOrgans}
+                          severityLevels={severityLevels}
+                          confidenceLevels={confidenceLevels}
+                          analysisResult={{
+                            diagnosis: displayedResult.diagnosis,
+                            explanation: displayedResult.explanation,
+                            severity: displayedResult.severity,
+                            confidence: displayedResult.confidence,
+                          }}
+                          isDarkMode={isDarkMode}
+                          showGrid={false} // Set to true to see grid lines for debugging
+                          className="w-full h-full"
+                        />
+                      </div>
+                    )}
+
+                    {bodyVisualization}
+                    {diagnosisOverlay}
+                    {organDetailDrawer}
+                  </div>
+
+                  {/* Organ Status Grid Sidebar */}
+                  {organGrid && (
+                    <div className="w-80 border-l border-slate-700/50 overflow-y-auto">
+                      {organGrid}
+                    </div>
+                  )}
+                </>
+              )}
+            </>
           )}
 
-          {/* Input Panel */}
+          {/* Input Panel; a bottom drawer on small screens */}
           <InputPanel
             show={showInput}
+            variant={isCompact ? 'drawer' : 'sidebar'}
+            onClose={() => setShowInput(false)}
             onAnalyze={handleAnalyze}
             onClear={handleClear}
+            onCancel={handleCancel}
+            restoredInput={restoredInput}
+            engineHealth={engineHealth}
             isAnalyzing={isAnalyzing}
             hasResult={!!analysisResult}
             isDarkMode={isDarkMode}
+            actionsRef={inputActionsRef}
           />
-        </div>
+        </SidebarProvider>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+import type { OrganAnnotation, PartialAnalysisResult } from '../api';
+import {
+  ORGAN_REGISTRY,
+  getOrganDetail,
+  getOrganValue,
+  normalizeOrgans,
+  resolveOrganName,
+  type OrganKey,
+} from '../organs';
+import type { OrganAnnotationChanges, OrganProvenanceMap } from './types';
+
+// Set an organ-keyed value, dropping entries the backend keyed by another name
+// for the same organ so the clinician's value is the one every lookup finds
+function withOrganValue<T>(
+  record: Record<string, T> | undefined,
+  organKey: OrganKey,
+  value: T
+): Record<string, T> {
+  const kept = Object.entries(record ?? {}).filter(
+    ([name]) => !resolveOrganName(name).includes(organKey)
+  );
+  return { ...Object.fromEntries(kept), [organKey]: value };
+}
+
+// The corrected picture: the model's result with the clinician's annotations applied,
+// plus where each organ came from. The returned result is what every view, image
+// and export renders; `result.clinicianAnnotations` is carried along unchanged.
+export function applyAnnotations<T extends PartialAnalysisResult>(
+  result: T
+): { result: T; provenance: OrganProvenanceMap } {
+  const annotations = result.clinicianAnnotations ?? {};
+  const { keys: aiKeys, unrecognized } = normalizeOrgans(result.organs);
+  const provenance: OrganProvenanceMap = {};
+
+  aiKeys.forEach((organKey) => {
+    const organ = ORGAN_REGISTRY[organKey];
+    const annotation = annotations[organKey];
+    provenance[organKey] = {
+      source: !annotation
+        ? 'ai'
+        : !annotation.included
+          ? 'removed'
+          : annotation.severity || annotation.note
+            ? 'edited'
+            : 'ai',
+      aiSeverity: getOrganValue(result.organSeverity, organ) ?? result.severity,
+      aiDetail: getOrganDetail(result.organDetails, organ),
+    };
+  });
+
+  const addedKeys = (Object.keys(annotations) as OrganKey[]).filter(
+    (organKey) => organKey in ORGAN_REGISTRY && !aiKeys.includes(organKey) && annotations[organKey]?.included
+  );
+  addedKeys.forEach((organKey) => {
+    provenance[organKey] = { source: 'clinician' };
+  });
+
+  if (Object.keys(annotations).length === 0) return { result, provenance };
+
+  let { organDetails, organSeverity } = result;
+  [...aiKeys, ...addedKeys].forEach((organKey) => {
+    const annotation = annotations[organKey];
+    if (!annotation?.included) return;
+    if (annotation.note) organDetails = withOrganValue(organDetails, organKey, annotation.note);
+    if (annotation.severity) organSeverity = withOrganValue(organSeverity, organKey, annotation.severity);
+  });
+
+  return {
+    result: {
+      ...result,
+      organs: [
+        ...aiKeys.filter((organKey) => provenance[organKey]?.source !== 'removed'),
+        ...addedKeys,
+        ...unrecognized,
+      ],
+      organDetails,
+      organSeverity,
+    },
+    provenance,
+  };
+}
+
+// Merge a clinician edit into the result. An annotation that no longer differs
+// from what the model said is dropped, so undoing an edit restores the AI value.
+export function annotateOrgan<T extends PartialAnalysisResult>(
+  result: T,
+  organKey: OrganKey,
+  changes: OrganAnnotationChanges
+): T {
+  const isAiOrgan = normalizeOrgans(result.organs).keys.includes(organKey);
+  const current = result.clinicianAnnotations?.[organKey];
+  const next: OrganAnnotation = {
+    included: current?.included ?? isAiOrgan,
+    severity: current?.severity,
+    note: current?.note,
+    ...changes,
+    editedAt: Date.now(),
+  };
+  next.note = next.note?.trim() || undefined;
+  // Picking the model's own level is not an edit
+  if (
+    isAiOrgan &&
+    next.severity ===
+      (getOrganValue(result.organSeverity, ORGAN_REGISTRY[organKey]) ?? result.severity)
+  ) {
+    next.severity = undefined;
+  }
+
+  const annotations = { ...result.clinicianAnnotations };
+  const matchesModel = isAiOrgan ? next.included && !next.severity && !next.note : !next.included;
+  if (matchesModel) {
+    delete annotations[organKey];
+  } else {
+    annotations[organKey] = next;
+  }
+  return { ...result, clinicianAnnotations: annotations };
+}
+
+// Drop the clinician's edit of one organ, or of all organs
+export function clearAnnotations<T extends PartialAnalysisResult>(result: T, organKey?: OrganKey): T {
+  if (!organKey) return { ...result, clinicianAnnotations: {} };
+  const annotations = { ...result.clinicianAnnotations };
+  delete annotations[organKey];
+  return { ...result, clinicianAnnotations: annotations };
+}
@@ -0,0 +1,7 @@
+export { annotateOrgan, applyAnnotations, clearAnnotations } from './annotate';
+export type {
+  OrganAnnotationChanges,
+  OrganProvenance,
+  OrganProvenanceMap,
+  OrganSource,
+} from './types';
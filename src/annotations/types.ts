@@ -0,0 +1,20 @@
+import type { OrganAnnotation, Severity } from '../api';
+import type { OrganKey } from '../organs';
+
+// Where an organ on the corrected picture came from
+export type OrganSource =
+  | 'ai' // Flagged by the model, untouched
+  | 'edited' // Flagged by the model, severity or note changed by the clinician
+  | 'clinician' // Added by the clinician
+  | 'removed'; // Flagged by the model, removed by the clinician
+
+export interface OrganProvenance {
+  source: OrganSource;
+  aiSeverity?: Severity; // The model's level, for organs the model flagged
+  aiDetail?: string; // The model's organ detail
+}
+
+export type OrganProvenanceMap = Partial<Record<OrganKey, OrganProvenance>>;
+
+// Fields the clinician can set on an organ
+export type OrganAnnotationChanges = Partial<Pick<OrganAnnotation, 'included' | 'severity' | 'note'>>;
@@ -0,0 +1,60 @@
+import { requestJson, type RequestOptions } from './http';
+import type {
+  AnalysisResult,
+  AnalyzeRequest,
+  AnalyzeRequestBody,
+  ClinicalFindings,
+  ClinicalFindingsBody,
+} from './types';
+import { toAnalysisResult, validateAnalyzeResponse } from './validate';
+
+const toCelsius = ({ value, unit }: { value: number; unit: 'C' | 'F' }) =>
+  unit === 'F' ? Math.round(((value - 32) * 50) / 9) / 10 : value;
+
+// Wire format of structured findings; the backend always receives temperature in Celsius
+export function toClinicalFindingsBody(findings: ClinicalFindings): ClinicalFindingsBody {
+  const { vitals } = findings;
+  return {
+    chief_complaint: findings.chiefComplaint,
+    onset: findings.onset,
+    duration: findings.duration,
+    vitals: {
+      heart_rate_bpm: vitals.heartRate,
+      systolic_mmhg: vitals.bloodPressure?.systolic,
+      diastolic_mmhg: vitals.bloodPressure?.diastolic,
+      spo2_percent: vitals.spo2,
+      temperature_c: vitals.temperature && toCelsius(vitals.temperature),
+      respiratory_rate_per_min: vitals.respiratoryRate,
+    },
+    medications: findings.medications,
+    allergies: findings.allergies,
+    age_years: findings.age,
+    sex: findings.sex,
+    history: findings.history,
+    notes: findings.notes,
+  };
+}
+
+export const toAnalyzeRequestBody = (request: AnalyzeRequest): AnalyzeRequestBody => ({
+  patient_name: request.patientName,
+  doctor_name: request.doctorName,
+  description: request.description,
+  ...(request.clinical ? { clinical: toClinicalFindingsBody(request.clinical) } : {}),
+  ...(request.engines ? { engines: request.engines } : {}),
+});
+
+export async function analyze(
+  request: AnalyzeRequest,
+  options: RequestOptions = {}
+): Promise<AnalysisResult> {
+  const payload = await requestJson(
+    'analyze',
+    {
+      method: 'POST',
+      body: JSON.stringify(toAnalyzeRequestBody(request)),
+    },
+    options
+  );
+
+  return toAnalysisResult(validateAnalyzeResponse(payload));
+}
@@ -0,0 +1,60 @@
+// Analysis engines a request can be processed by
+export type EngineId = 'gemini' | 'llama' | 'triton';
+
+export interface EngineInfo {
+  id: EngineId;
+  label: string;
+  location: 'cloud' | 'local'; // Cloud engines process the (redacted) text off site
+}
+
+export const ENGINES: Record<EngineId, EngineInfo> = {
+  gemini: { id: 'gemini', label: 'Google Gemini', location: 'cloud' },
+  llama: { id: 'llama', label: 'Local Llama model', location: 'local' },
+  triton: { id: 'triton', label: 'Triton inference server', location: 'local' },
+};
+
+export const ENGINE_IDS = Object.keys(ENGINES) as EngineId[];
+
+export const isEngineId = (value: unknown): value is EngineId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENGINES, value);
+
+// Fallback order of a request that does not set its own
+export const DEFAULT_ENGINE_ORDER: readonly EngineId[] = ['gemini', 'llama', 'triton'];
+
+// Engines a request may reach: any of them can end up answering, so consent
+// has to cover them all
+export const requestEngines = (request: { engines?: readonly EngineId[] }): readonly EngineId[] =>
+  request.engines && request.engines.length > 0 ? request.engines : DEFAULT_ENGINE_ORDER;
+
+export type EngineStatus = 'online' | 'degraded' | 'offline';
+
+// Latest health check of one engine
+export interface EngineHealth {
+  id: EngineId;
+  status: EngineStatus;
+  latencyMs?: number;
+  detail?: string; // Why the engine is degraded or offline
+}
+
+// "Local Llama model (local), after Google Gemini failed", or for a merged
+// result "Consensus of Google Gemini and Local Llama model"; undefined when the
+// backend did not say which engine answered
+export function describeAnsweringEngine(result: {
+  engine?: EngineId;
+  fallbackFrom?: EngineId[];
+  consensus?: { answers: { engine: EngineId; result?: unknown }[] };
+}): string | undefined {
+  if (result.consensus) {
+    const { answers } = result.consensus;
+    const answered = answers.filter((answer) => answer.result).map(({ engine }) => ENGINES[engine].label);
+    const failed = answers.length - answered.length;
+    const names = answered.length > 1 ? `${answered.slice(0, -1).join(', ')} and ${answered[answered.length - 1]}` : answered[0];
+    return `Consensus of ${names}${failed > 0 ? ` (${failed} of ${answers.length} engines failed)` : ''}`;
+  }
+  if (!result.engine) return undefined;
+  const { label, location } = ENGINES[result.engine];
+  const failed = (result.fallbackFrom ?? []).map((engine) => ENGINES[engine].label);
+  return failed.length > 0
+    ? `${label} (${location}), after ${failed.join(' and ')} failed`
+    : `${label} (${location})`;
+}
@@ -0,0 +1,104 @@
+// Error classes raised by the API client so callers can tell failures apart
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The request never reached the backend (offline, DNS, CORS, server down)
+export class NetworkError extends ApiError {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+  }
+}
+
+// A request attempt took longer than the configured timeout
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The caller aborted the request through its AbortSignal
+export class CancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled');
+  }
+}
+
+// The backend answered with a non-2xx status
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly detail?: string; // `error` field of the response body, if any
+  readonly retryAfterMs?: number; // parsed Retry-After header, if any
+
+  constructor(status: number, statusText: string, detail?: string, retryAfterMs?: number) {
+    super(detail || `API request failed with status ${status}${statusText ? ` ${statusText}` : ''}`);
+    this.status = status;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Rate limiting and server-side failures are worth another attempt
+  get isRetryable() {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+// The backend answered 2xx but the payload does not match the contract
+export class ValidationError extends ApiError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Malformed response from analysis service: ${issues.join('; ')}`);
+    this.issues = issues;
+  }
+}
+
+// The backend answered 2xx with an `error` field in the payload
+export class BackendError extends ApiError {}
+
+// Map an error to a user-facing toast title and description
+export function describeApiError(error: unknown): { title: string; description?: string } {
+  if (error instanceof NetworkError) {
+    return {
+      title: 'Cannot reach the analysis server',
+      description: 'Check your connection or that the backend is running.',
+    };
+  }
+  if (error instanceof TimeoutError) {
+    return {
+      title: 'Analysis timed out',
+      description: `The server did not answer within ${Math.round(error.timeoutMs / 1000)} seconds.`,
+    };
+  }
+  if (error instanceof CancelledError) {
+    return { title: 'Analysis cancelled' };
+  }
+  if (error instanceof HttpError) {
+    return {
+      title: `Analysis server error (${error.status})`,
+      description: error.detail,
+    };
+  }
+  if (error instanceof ValidationError) {
+    return {
+      title: 'Unexpected response from the analysis server',
+      description: error.issues.join('; '),
+    };
+  }
+  if (error instanceof BackendError) {
+    return { title: 'Analysis failed', description: error.message };
+  }
+  return {
+    title: error instanceof Error ? error.message : 'Failed to analyze. Please try again.',
+  };
+}
@@ -0,0 +1,13 @@
+import type { EngineHealth } from './engines';
+import { requestJson, type RequestOptions } from './http';
+import { toEngineHealth, validateEnginesResponse } from './validate';
+
+// Current status of every analysis engine. Not retried: the next poll is the retry.
+export async function fetchEngineHealth(options: RequestOptions = {}): Promise<EngineHealth[]> {
+  const payload = await requestJson(
+    'engines',
+    { method: 'GET' },
+    { ...options, retry: { maxAttempts: 1, ...options.retry } }
+  );
+  return toEngineHealth(validateEnginesResponse(payload));
+}
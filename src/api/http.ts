@@ -0,0 +1,148 @@
+import { API_CONFIG } from '../config';
+import { CancelledError, HttpError, NetworkError, TimeoutError, ValidationError } from './errors';
+import { withRetry, type RetryConfig } from './retry';
+
+export type EndpointName = keyof typeof API_CONFIG.endpoints;
+
+export interface RequestOptions {
+  signal?: AbortSignal; // abort the request and any pending retry
+  timeoutMs?: number; // per-attempt timeout, defaults to API_CONFIG.timeoutMs
+  retry?: Partial<RetryConfig>; // overrides API_CONFIG.retry
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+}
+
+export const endpointUrl = (endpoint: EndpointName) =>
+  `${API_CONFIG.baseUrl}${API_CONFIG.endpoints[endpoint]}`;
+
+export const withJsonHeaders = (init: RequestInit): RequestInit => ({
+  ...init,
+  headers: {
+    'Content-Type': 'application/json',
+    ...init.headers,
+  },
+});
+
+export interface Deadline {
+  signal: AbortSignal;
+  reset: () => void; // restart the countdown, e.g. after a streamed chunk
+  dispose: () => void;
+  // Turn whatever fetch or a body read threw into an ApiError
+  toApiError: (error: unknown) => Error;
+}
+
+// An abort signal that fires after `timeoutMs` of inactivity or when `signal` aborts
+export function createDeadline(timeoutMs: number, signal?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const forwardAbort = () => controller.abort();
+
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+  reset();
+
+  return {
+    signal: controller.signal,
+    reset,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    },
+    toApiError: (error) => {
+      if (timedOut) return new TimeoutError(timeoutMs);
+      if (signal?.aborted) return new CancelledError();
+      return new NetworkError(
+        error instanceof Error ? error.message : 'Network request failed',
+        error
+      );
+    },
+  };
+}
+
+// Read a JSON body without throwing on bad JSON; non-JSON bodies come back as undefined
+export async function readJson(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function httpErrorFrom(response: Response, body: unknown): HttpError {
+  const detail =
+    body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string'
+      ? (body as { error: string }).error
+      : undefined;
+  return new HttpError(
+    response.status,
+    response.statusText,
+    detail,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+}
+
+// One fetch with its own timeout, linked to the caller's signal
+async function attemptRequest(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown> {
+  if (signal?.aborted) throw new CancelledError();
+
+  const deadline = createDeadline(timeoutMs, signal);
+  let response: Response;
+  let body: unknown;
+  try {
+    response = await fetch(url, { ...init, signal: deadline.signal });
+    body = await readJson(response);
+  } catch (error) {
+    throw deadline.toApiError(error);
+  } finally {
+    deadline.dispose();
+  }
+
+  if (!response.ok) {
+    throw httpErrorFrom(response, body);
+  }
+
+  if (body === undefined) {
+    throw new ValidationError(['response body is not valid JSON']);
+  }
+
+  return body;
+}
+
+// Perform a request against a named endpoint and return the parsed JSON body.
+// 429 and 5xx responses are retried with backoff; every failure is raised as
+// one of the ApiError subclasses.
+export function requestJson(
+  endpoint: EndpointName,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<unknown> {
+  const timeoutMs = options.timeoutMs ?? API_CONFIG.timeoutMs;
+  return withRetry(
+    () => attemptRequest(endpointUrl(endpoint), withJsonHeaders(init), timeoutMs, options.signal),
+    options
+  );
+}
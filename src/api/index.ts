@@ -0,0 +1,57 @@
+export { analyze, toAnalyzeRequestBody, toClinicalFindingsBody } from './client';
+export {
+  DEFAULT_ENGINE_ORDER,
+  ENGINES,
+  describeAnsweringEngine,
+  ENGINE_IDS,
+  isEngineId,
+  requestEngines,
+} from './engines';
+export type { EngineHealth, EngineId, EngineInfo, EngineStatus } from './engines';
+export { fetchEngineHealth } from './health';
+export { useEngineHealth } from './useEngineHealth';
+export type { EngineHealthState } from './useEngineHealth';
+export { endpointUrl, requestJson } from './http';
+export type { EndpointName, RequestOptions } from './http';
+export { analyzeStream, applyStreamEvent, emptyPartialResult } from './stream';
+export type { StreamOptions } from './stream';
+export { readSseEvents } from './sse';
+export type { SseEvent } from './sse';
+export {
+  ApiError,
+  BackendError,
+  CancelledError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  describeApiError,
+} from './errors';
+export { backoffDelay, sleep, withRetry } from './retry';
+export type { RetryConfig } from './retry';
+export {
+  toAnalysisResult,
+  toEngineHealth,
+  validateAnalyzeResponse,
+  validateEnginesResponse,
+} from './validate';
+export { SEVERITIES } from './types';
+export type {
+  AnalysisResult,
+  AnalyzeRequest,
+  AnalyzeRequestBody,
+  AnalyzeResponseBody,
+  ClinicalFindings,
+  ClinicalFindingsBody,
+  ConsensusSummary,
+  DurationUnit,
+  EngineAnswer,
+  EnginesResponseBody,
+  OrganAnnotation,
+  PartialAnalysisResult,
+  RedactionSettings,
+  Severity,
+  Sex,
+  TemperatureUnit,
+  Vitals,
+} from './types';
@@ -0,0 +1,63 @@
+import { API_CONFIG } from '../config';
+import { CancelledError, HttpError } from './errors';
+
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Cap on the computed backoff; a server's Retry-After may be longer
+  maxRetryAfterMs: number; // Longest Retry-After worth waiting for; beyond it the error is thrown
+}
+
+// Exponential backoff with "equal jitter": half the window is fixed, half random,
+// so concurrent clients spread out without ever retrying immediately.
+export function backoffDelay(attempt: number, config: RetryConfig, random = Math.random) {
+  const window = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+  return window / 2 + random() * (window / 2);
+}
+
+// Resolve after `ms`, or reject with CancelledError as soon as `signal` aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface WithRetryOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryConfig>; // overrides API_CONFIG.retry
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+}
+
+// Run `attempt` until it succeeds, retrying 429 and 5xx HttpErrors with backoff
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  { signal, retry: overrides, onAttempt }: WithRetryOptions = {}
+): Promise<T> {
+  const retry: RetryConfig = { ...API_CONFIG.retry, ...overrides };
+
+  for (let current = 1; ; current += 1) {
+    onAttempt?.(current, retry.maxAttempts);
+    try {
+      return await attempt();
+    } catch (error) {
+      const retryable = error instanceof HttpError && error.isRetryable;
+      if (!retryable || current >= retry.maxAttempts) throw error;
+
+      // Never retry sooner than the server asked, and give up rather than wait too long
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > retry.maxRetryAfterMs) throw error;
+      await sleep(Math.max(error.retryAfterMs ?? 0, backoffDelay(current, retry)), signal);
+    }
+  }
+}
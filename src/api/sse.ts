@@ -0,0 +1,60 @@
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Parse a text/event-stream body into events. `onChunk` fires for every
+// network chunk, including keep-alive comments, so callers can reset timers.
+export async function* readSseEvents(
+  stream: ReadableStream<Uint8Array>,
+  onChunk?: () => void
+): AsyncGenerator<SseEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  const dispatch = (): SseEvent | null => {
+    const pending = data.length > 0 ? { event: event || 'message', data: data.join('\n') } : null;
+    event = '';
+    data = [];
+    return pending;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk?.();
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          const pending = dispatch();
+          if (pending) yield pending;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let value = separator === -1 ? '' : line.slice(separator + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.startsWith('data:')) data.push(buffer.slice(5).trimStart());
+    const pending = dispatch();
+    if (pending) yield pending;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,207 @@
+import { API_CONFIG } from '../config';
+import { toAnalyzeRequestBody } from './client';
+import { isEngineId } from './engines';
+import { ApiError, BackendError, CancelledError, ValidationError } from './errors';
+import {
+  createDeadline,
+  endpointUrl,
+  httpErrorFrom,
+  readJson,
+  withJsonHeaders,
+  type Deadline,
+  type RequestOptions,
+} from './http';
+import { withRetry } from './retry';
+import { readSseEvents, type SseEvent } from './sse';
+import {
+  SEVERITIES,
+  type AnalysisResult,
+  type AnalyzeRequest,
+  type PartialAnalysisResult,
+  type Severity,
+} from './types';
+import { toAnalysisResult, validateAnalyzeResponse } from './validate';
+
+export interface StreamOptions extends RequestOptions {
+  onUpdate?: (partial: PartialAnalysisResult) => void;
+}
+
+export const emptyPartialResult = (): PartialAnalysisResult => ({
+  organs: [],
+  organDetails: {},
+  recommendations: [],
+});
+
+function parseEventData({ event, data }: SseEvent): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // fall through to the validation error below
+  }
+  throw new ValidationError([`"${event}" event data is not a JSON object`]);
+}
+
+function expectString(payload: Record<string, unknown>, field: string, event: string): string {
+  const value = payload[field];
+  if (typeof value !== 'string') {
+    throw new ValidationError([`"${event}" event is missing string field ${field}`]);
+  }
+  return value;
+}
+
+// Fold one streamed field event into the partial result. Unknown events are ignored
+// so the backend can add new ones without breaking older clients.
+export function applyStreamEvent(
+  partial: PartialAnalysisResult,
+  sse: SseEvent
+): PartialAnalysisResult {
+  const { event } = sse;
+  switch (event) {
+    case 'diagnosis':
+    case 'explanation': {
+      const value = expectString(parseEventData(sse), event, event);
+      return { ...partial, [event]: value };
+    }
+    case 'organ': {
+      const organ = expectString(parseEventData(sse), 'organ', event);
+      return partial.organs.includes(organ)
+        ? partial
+        : { ...partial, organs: [...partial.organs, organ] };
+    }
+    case 'organ_detail': {
+      const payload = parseEventData(sse);
+      const organ = expectString(payload, 'organ', event);
+      const detail = expectString(payload, 'detail', event);
+      return { ...partial, organDetails: { ...partial.organDetails, [organ]: detail } };
+    }
+    case 'severity': {
+      const severity = expectString(parseEventData(sse), 'severity', event);
+      if (!SEVERITIES.includes(severity as Severity)) {
+        throw new ValidationError([`unknown severity "${severity}"`]);
+      }
+      return { ...partial, severity: severity as Severity };
+    }
+    case 'confidence': {
+      const { confidence } = parseEventData(sse);
+      if (typeof confidence !== 'number' || confidence < 0 || confidence > 100) {
+        throw new ValidationError([`confidence ${String(confidence)} is outside 0-100`]);
+      }
+      return { ...partial, confidence };
+    }
+    case 'organ_severity': {
+      const payload = parseEventData(sse);
+      const organ = expectString(payload, 'organ', event);
+      const severity = expectString(payload, 'severity', event);
+      if (!SEVERITIES.includes(severity as Severity)) {
+        throw new ValidationError([`unknown organ severity "${severity}"`]);
+      }
+      return {
+        ...partial,
+        organSeverity: { ...partial.organSeverity, [organ]: severity as Severity },
+      };
+    }
+    case 'organ_confidence': {
+      const payload = parseEventData(sse);
+      const organ = expectString(payload, 'organ', event);
+      const { confidence } = payload;
+      if (typeof confidence !== 'number' || confidence < 0 || confidence > 100) {
+        throw new ValidationError([`organ confidence ${String(confidence)} is outside 0-100`]);
+      }
+      return {
+        ...partial,
+        organConfidence: { ...partial.organConfidence, [organ]: confidence },
+      };
+    }
+    case 'engine': {
+      const engine = expectString(parseEventData(sse), 'engine', event);
+      if (!isEngineId(engine)) {
+        throw new ValidationError([`unknown engine "${engine}"`]);
+      }
+      return { ...partial, engine };
+    }
+    case 'recommendation': {
+      const recommendation = expectString(parseEventData(sse), 'recommendation', event);
+      return { ...partial, recommendations: [...partial.recommendations, recommendation] };
+    }
+    default:
+      return partial;
+  }
+}
+
+// Open the stream, raising HttpError for non-2xx so withRetry can retry it
+async function openStream(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; deadline: Deadline }> {
+  if (signal?.aborted) throw new CancelledError();
+
+  const deadline = createDeadline(timeoutMs, signal);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: deadline.signal });
+  } catch (error) {
+    deadline.dispose();
+    throw deadline.toApiError(error);
+  }
+
+  if (!response.ok) {
+    const body = await readJson(response).catch(() => undefined);
+    deadline.dispose();
+    throw httpErrorFrom(response, body);
+  }
+
+  return { response, deadline };
+}
+
+// Analyze over Server-Sent Events, reporting the partial result after every field.
+// The timeout applies to inactivity, so a long but steadily streaming analysis
+// is not cut off. Resolves with the validated result from the final "complete" event.
+export async function analyzeStream(
+  request: AnalyzeRequest,
+  options: StreamOptions = {}
+): Promise<AnalysisResult> {
+  const init = withJsonHeaders({
+    method: 'POST',
+    headers: { Accept: 'text/event-stream' },
+    body: JSON.stringify(toAnalyzeRequestBody(request)),
+  });
+  const timeoutMs = options.timeoutMs ?? API_CONFIG.timeoutMs;
+
+  const { response, deadline } = await withRetry(
+    () => openStream(endpointUrl('analyzeStream'), init, timeoutMs, options.signal),
+    options
+  );
+
+  try {
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      // Backend answered with a regular JSON result
+      return toAnalysisResult(validateAnalyzeResponse(await readJson(response)));
+    }
+
+    let partial = emptyPartialResult();
+    for await (const sse of readSseEvents(response.body, deadline.reset)) {
+      if (sse.event === 'complete') {
+        return toAnalysisResult(validateAnalyzeResponse(parseEventData(sse)));
+      }
+      if (sse.event === 'error') {
+        const { error } = parseEventData(sse);
+        throw new BackendError(typeof error === 'string' ? error : 'Analysis failed');
+      }
+      partial = applyStreamEvent(partial, sse);
+      options.onUpdate?.(partial);
+    }
+
+    throw new ValidationError(['stream ended before the analysis completed']);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw deadline.toApiError(error);
+  } finally {
+    deadline.dispose();
+  }
+}
@@ -0,0 +1,159 @@
+// Shared request/response contracts for the Flask analysis API
+
+import type { EngineId } from './engines';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export const SEVERITIES: readonly Severity[] = ['low', 'medium', 'high'];
+
+export type Sex = 'female' | 'male' | 'other' | 'unknown';
+
+export type TemperatureUnit = 'C' | 'F';
+
+export type DurationUnit = 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+// Vital signs as entered; temperature keeps the unit the clinician used
+export interface Vitals {
+  heartRate?: number; // beats/min
+  bloodPressure?: { systolic: number; diastolic: number }; // mmHg
+  spo2?: number; // %
+  temperature?: { value: number; unit: TemperatureUnit };
+  respiratoryRate?: number; // breaths/min
+}
+
+// Structured alternative to the free-text clinical description
+export interface ClinicalFindings {
+  chiefComplaint: string;
+  onset?: 'sudden' | 'gradual';
+  duration?: { value: number; unit: DurationUnit };
+  vitals: Vitals;
+  medications: string[];
+  allergies: string[];
+  age?: number; // years
+  sex?: Sex;
+  history?: string; // Past medical history
+  notes?: string; // Anything the structured fields don't cover
+}
+
+// Clinician's adjustments to the automatic PHI redaction of a request.
+// Values compare case-insensitively.
+export interface RedactionSettings {
+  allowed: string[]; // Detected values to send as written
+  added: string[]; // Extra terms to redact wherever they appear
+}
+
+// Frontend shape of an analyze request
+export interface AnalyzeRequest {
+  patientName: string;
+  doctorName: string;
+  description: string; // Free text, or a readable summary of `clinical`
+  clinical?: ClinicalFindings;
+  redaction?: RedactionSettings; // Stays in the browser; see src/redaction
+  engines?: EngineId[]; // Tried in this order until one answers; DEFAULT_ENGINE_ORDER when unset
+  consensus?: boolean; // Stays in the browser: send to every engine in `engines` at once and merge; see src/consensus
+}
+
+// Wire format of ClinicalFindings; vitals are normalized to fixed units
+export interface ClinicalFindingsBody {
+  chief_complaint: string;
+  onset?: 'sudden' | 'gradual';
+  duration?: { value: number; unit: DurationUnit };
+  vitals: {
+    heart_rate_bpm?: number;
+    systolic_mmhg?: number;
+    diastolic_mmhg?: number;
+    spo2_percent?: number;
+    temperature_c?: number;
+    respiratory_rate_per_min?: number;
+  };
+  medications: string[];
+  allergies: string[];
+  age_years?: number;
+  sex?: Sex;
+  history?: string;
+  notes?: string;
+}
+
+// Wire format sent to POST /api/analyze
+export interface AnalyzeRequestBody {
+  patient_name: string;
+  doctor_name: string;
+  description: string;
+  clinical?: ClinicalFindingsBody;
+  engines?: EngineId[];
+}
+
+// Wire format returned by POST /api/analyze
+export interface AnalyzeResponseBody {
+  diagnosis?: string;
+  supporting_organs?: string[];
+  unrecognized_organs?: string[]; // Organ names the backend could not map; the current backend leaves mapping to the client
+  organ_details?: Record<string, string>; // Organ-specific issue details
+  organ_severity?: Record<string, Severity>; // Severity of each supporting organ
+  organ_confidence?: Record<string, number>; // Confidence (0-100) per supporting organ
+  explanation?: string;
+  confidence?: number | null;
+  severity?: Severity;
+  recommendations?: string[];
+  engine?: string; // Engine that produced the result
+  fallback_from?: string[]; // Engines that failed first, in the order tried
+  error?: string;
+}
+
+// Wire format returned by GET /api/engines
+export interface EnginesResponseBody {
+  engines: {
+    id: string;
+    status: string;
+    latency_ms?: number | null;
+    detail?: string | null;
+  }[];
+}
+
+// Physician correction of one organ. The model's own fields are never
+// overwritten; unset fields here keep the model's value.
+export interface OrganAnnotation {
+  included: boolean; // false hides an organ the model flagged; true keeps or adds it
+  severity?: Severity;
+  note?: string; // Replaces the model's organ detail
+  editedAt: number; // epoch ms
+}
+
+// One engine's answer in a consensus analysis
+export interface EngineAnswer {
+  engine: EngineId;
+  result?: AnalysisResult; // Unset when the engine failed
+  error?: string;
+}
+
+// How a consensus result was reached
+export interface ConsensusSummary {
+  answers: EngineAnswer[]; // Every engine asked, in the order of the request
+  organVotes: Record<string, EngineId[]>; // Organ key to the engines that flagged it, for every organ any engine flagged
+  diagnosisVotes: number; // Engines that gave the chosen diagnosis
+}
+
+// Frontend analysis model consumed by the visualization components
+export interface AnalysisResult {
+  diagnosis: string;
+  organs: string[];
+  unrecognizedOrgans?: string[]; // Organ names the backend could not map
+  organDetails?: Record<string, string>; // Organ-specific issue details
+  organSeverity?: Record<string, Severity>; // Severity of each organ; falls back to `severity`
+  organConfidence?: Record<string, number>; // Confidence (0-100) per organ
+  explanation: string;
+  confidence?: number;
+  severity: Severity;
+  recommendations: string[];
+  engine?: EngineId; // Engine that produced the result
+  fallbackFrom?: EngineId[]; // Engines that failed before `engine` answered
+  consensus?: ConsensusSummary; // Set instead of `engine` when several engines were merged
+  clinicianAnnotations?: Record<string, OrganAnnotation>; // Keyed by organ key
+}
+
+// Analysis result while it streams in; fields fill in as events arrive
+export interface PartialAnalysisResult
+  extends Omit<Partial<AnalysisResult>, 'organs' | 'recommendations'> {
+  organs: string[];
+  recommendations: string[];
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { API_CONFIG } from '../config';
+import type { EngineHealth, EngineId } from './engines';
+import { fetchEngineHealth } from './health';
+
+export interface EngineHealthState {
+  engines: Partial<Record<EngineId, EngineHealth>>; // Engines missing here have not been checked yet
+  checkedAt: number | null; // epoch ms of the last successful check
+  error: Error | null; // Last check failed; `engines` still holds the check before it
+  refresh: () => void;
+}
+
+// Engine status, polled while the page is visible and re-checked as soon as it is shown again
+export function useEngineHealth(intervalMs: number = API_CONFIG.enginePollMs): EngineHealthState {
+  const [engines, setEngines] = useState<EngineHealthState['engines']>({});
+  const [checkedAt, setCheckedAt] = useState<number | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    fetchEngineHealth({ signal: controller.signal })
+      .then((health) => {
+        if (controller.signal.aborted) return;
+        setEngines(Object.fromEntries(health.map((engine) => [engine.id, engine])));
+        setCheckedAt(Date.now());
+        setError(null);
+      })
+      .catch((error: Error) => {
+        if (!controller.signal.aborted) setError(error);
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') refresh();
+    }, intervalMs);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      controllerRef.current?.abort();
+    };
+  }, [refresh, intervalMs]);
+
+  return { engines, checkedAt, error, refresh };
+}
@@ -0,0 +1,168 @@
+import { isEngineId, type EngineHealth, type EngineStatus } from './engines';
+import { BackendError, ValidationError } from './errors';
+import {
+  SEVERITIES,
+  type AnalysisResult,
+  type AnalyzeResponseBody,
+  type EnginesResponseBody,
+  type Severity,
+} from './types';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Check a raw /api/analyze payload against the response contract.
+// Throws BackendError for an `error` payload and ValidationError listing every bad field.
+export function validateAnalyzeResponse(payload: unknown): AnalyzeResponseBody {
+  if (!isRecord(payload)) {
+    throw new ValidationError(['response body is not a JSON object']);
+  }
+
+  if (typeof payload.error === 'string' && payload.error.trim()) {
+    throw new BackendError(payload.error);
+  }
+
+  const issues: string[] = [];
+  const optionalString = (field: string) => {
+    const value = payload[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      issues.push(`${field} must be a string`);
+    }
+  };
+
+  optionalString('diagnosis');
+  optionalString('explanation');
+
+  if (payload.supporting_organs !== undefined && !isStringArray(payload.supporting_organs)) {
+    issues.push('supporting_organs must be an array of strings');
+  }
+
+  if (payload.unrecognized_organs !== undefined && !isStringArray(payload.unrecognized_organs)) {
+    issues.push('unrecognized_organs must be an array of strings');
+  }
+
+  if (payload.organ_details !== undefined && payload.organ_details !== null) {
+    if (!isRecord(payload.organ_details)) {
+      issues.push('organ_details must be an object');
+    } else {
+      Object.entries(payload.organ_details).forEach(([organ, detail]) => {
+        if (typeof detail !== 'string') {
+          issues.push(`organ_details.${organ} must be a string`);
+        }
+      });
+    }
+  }
+
+  const checkConfidence = (field: string, value: unknown) => {
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${field} must be a number`);
+    } else if (value < 0 || value > 100) {
+      issues.push(`${field} ${value} is outside 0-100`);
+    }
+  };
+
+  const checkSeverity = (field: string, value: unknown) => {
+    if (value !== undefined && value !== null && !SEVERITIES.includes(value as Severity)) {
+      issues.push(`unknown ${field} "${String(value)}"`);
+    }
+  };
+
+  const checkOrganRecord = (field: string, check: (field: string, value: unknown) => void) => {
+    const value = payload[field];
+    if (value === undefined || value === null) return;
+    if (!isRecord(value)) {
+      issues.push(`${field} must be an object`);
+      return;
+    }
+    Object.entries(value).forEach(([organ, entry]) => check(`${field}.${organ}`, entry));
+  };
+
+  checkConfidence('confidence', payload.confidence);
+  checkSeverity('severity', payload.severity);
+  checkOrganRecord('organ_severity', checkSeverity);
+  checkOrganRecord('organ_confidence', checkConfidence);
+
+  if (payload.recommendations !== undefined && !isStringArray(payload.recommendations)) {
+    issues.push('recommendations must be an array of strings');
+  }
+
+  if (payload.engine !== undefined && payload.engine !== null && !isEngineId(payload.engine)) {
+    issues.push(`unknown engine "${String(payload.engine)}"`);
+  }
+
+  if (
+    payload.fallback_from !== undefined &&
+    !(isStringArray(payload.fallback_from) && payload.fallback_from.every(isEngineId))
+  ) {
+    issues.push('fallback_from must be an array of engine ids');
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return payload as AnalyzeResponseBody;
+}
+
+// Map a validated API response to the frontend analysis model
+export function toAnalysisResult(body: AnalyzeResponseBody): AnalysisResult {
+  return {
+    diagnosis: body.diagnosis || 'No diagnosis available',
+    organs: body.supporting_organs || [],
+    unrecognizedOrgans: body.unrecognized_organs || [],
+    organDetails: body.organ_details || {},
+    organSeverity: body.organ_severity || {},
+    organConfidence: body.organ_confidence || {},
+    explanation: body.explanation || 'No explanation provided',
+    confidence: body.confidence ?? undefined,
+    severity: body.severity || 'medium',
+    recommendations: body.recommendations || [],
+    ...(isEngineId(body.engine) ? { engine: body.engine } : {}),
+    ...(body.fallback_from?.length ? { fallbackFrom: body.fallback_from.filter(isEngineId) } : {}),
+  };
+}
+
+const ENGINE_STATUSES: readonly EngineStatus[] = ['online', 'degraded', 'offline'];
+
+// Check a raw /api/engines payload. Engines this client does not know are
+// skipped later, so the backend can add one without breaking older clients.
+export function validateEnginesResponse(payload: unknown): EnginesResponseBody {
+  if (!isRecord(payload) || !Array.isArray(payload.engines)) {
+    throw new ValidationError(['engines must be an array']);
+  }
+
+  const issues: string[] = [];
+  payload.engines.forEach((engine, index) => {
+    if (!isRecord(engine) || typeof engine.id !== 'string') {
+      issues.push(`engines[${index}].id must be a string`);
+      return;
+    }
+    if (!ENGINE_STATUSES.includes(engine.status as EngineStatus)) {
+      issues.push(`unknown status "${String(engine.status)}" for engine ${engine.id}`);
+    }
+    const latency = engine.latency_ms;
+    if (latency !== undefined && latency !== null && (typeof latency !== 'number' || latency < 0)) {
+      issues.push(`latency_ms of engine ${engine.id} must be a non-negative number`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return payload as unknown as EnginesResponseBody;
+}
+
+export const toEngineHealth = (body: EnginesResponseBody): EngineHealth[] =>
+  body.engines
+    .filter((engine) => isEngineId(engine.id))
+    .map((engine) => ({
+      id: engine.id as EngineHealth['id'],
+      status: engine.status as EngineStatus,
+      ...(typeof engine.latency_ms === 'number' ? { latencyMs: engine.latency_ms } : {}),
+      ...(engine.detail ? { detail: engine.detail } : {}),
+    }));
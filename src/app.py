@@ -4,13 +4,18 @@ This is a reference implementation showing how to integrate with the React front
 Copy the relevant parts to your existing Flask app.
 """
 
-from flask import Flask, request, jsonify, send_from_directory
+from flask import Flask, Response, request, jsonify, send_from_directory, stream_with_context
 from flask_cors import CORS
 import os
 import json
 import logging
 import re
-from typing import Dict, Any, List
+import threading
+import time
+from concurrent.futures import ThreadPoolExecutor
+from datetime import datetime, timezone
+from itertools import chain
+from typing import Dict, Any, Iterator, List, Optional, Tuple
 from pathlib import Path
 
 import requests
@@ -29,18 +34,37 @@ GEMINI_API_KEY = os.getenv('GEMINI_API_KEY')
 # All "flash" models are FREE tier with generous rate limits
 GEMINI_MODEL = os.getenv('GEMINI_MODEL', 'gemini-2.5-flash')
 GEMINI_ENDPOINT = f'https://generativelanguage.googleapis.com/v1beta/models/{GEMINI_MODEL}:generateContent'
+GEMINI_STREAM_ENDPOINT = f'https://generativelanguage.googleapis.com/v1beta/models/{GEMINI_MODEL}:streamGenerateContent'
+
+# Self-hosted engines; each is disabled while its URL is unset
+LLAMA_URL = os.getenv('LLAMA_URL', '').rstrip('/')  # llama.cpp server, e.g. http://localhost:8080
+TRITON_URL = os.getenv('TRITON_URL', '').rstrip('/')  # e.g. http://localhost:8000
+TRITON_MODEL = os.getenv('TRITON_MODEL', 'medical-llm')
+LOCAL_ENGINE_TIMEOUT = int(os.getenv('LOCAL_ENGINE_TIMEOUT', '120'))  # seconds; CPU inference is slow
+
+# Keep in sync with ENGINES in src/api/engines.ts
+ENGINE_LABELS = {
+    'gemini': 'Google Gemini',
+    'llama': 'Local Llama model',
+    'triton': 'Triton inference server',
+}
+# Fallback order of a request that does not send its own
+DEFAULT_ENGINE_ORDER = ['gemini', 'llama', 'triton']
+
+# Health checks slower than this report the engine as degraded
+ENGINE_DEGRADED_MS = int(os.getenv('ENGINE_DEGRADED_MS', '2000'))
+ENGINE_HEALTH_TIMEOUT = 5  # seconds
+ENGINE_HEALTH_TTL = 10  # seconds a health check is reused, so many open clients cost one check
 
 # Log configuration on startup
 if GEMINI_API_KEY:
     logger.info(f"Gemini API configured with model: {GEMINI_MODEL}")
 else:
     logger.warning("GEMINI_API_KEY not found in environment variables")
-
-ALLOWED_ORGANS = {
-    'brain', 'sinuses', 'throat', 'lungs', 'bronchi',
-    'heart', 'liver', 'stomach', 'kidney', 'kidneys',
-    'intestine', 'intestines', 'pancreas', 'bladder'
-}
+if LLAMA_URL:
+    logger.info(f"Local Llama engine configured at {LLAMA_URL}")
+if TRITON_URL:
+    logger.info(f"Triton engine configured at {TRITON_URL} (model: {TRITON_MODEL})")
 
 # CORS Configuration
 # For development: Allow requests from React dev server
@@ -71,7 +95,13 @@ def analyze():
         {
             "patient_name": "John Doe",
             "doctor_name": "Dr. Smith",
-            "description": "Patient symptoms and medical history..."
+            "description": "Patient symptoms and medical history...",
+            "clinical": {                       # optional, see read_clinical_text
+                "chief_complaint": "Cough and fever",
+                "vitals": {"heart_rate_bpm": 104, "temperature_c": 38.6},
+                "medications": [], "allergies": ["Penicillin"]
+            },
+            "engines": ["llama", "gemini"]      # optional fallback order, see read_engine_order
         }
     
     Response:
@@ -81,7 +111,9 @@ def analyze():
             "explanation": "Detailed explanation",
             "confidence": 85,
             "severity": "medium",
-            "recommendations": ["rec1", "rec2"]
+            "recommendations": ["rec1", "rec2"],
+            "engine": "gemini",                 # engine that answered
+            "fallback_from": ["llama"]          # engines that failed first
         }
     """
     try:
@@ -93,18 +125,16 @@ def analyze():
         
         patient_name = data.get('patient_name', '').strip()
         doctor_name = data.get('doctor_name', '').strip()
-        description = data.get('description', '').strip()
+        description = read_clinical_text(data)
+        engines = read_engine_order(data)
         
         # Validate required fields
         if not all([patient_name, doctor_name, description]):
             return jsonify({
                 'error': 'Missing required fields: patient_name, doctor_name, description'
             }), 400
-        
-        if not GEMINI_API_KEY:
-            raise RuntimeError('GEMINI_API_KEY environment variable is not set')
 
-        result = analyze_symptoms(patient_name, doctor_name, description)
+        result = analyze_symptoms(patient_name, doctor_name, description, engines)
         return jsonify(result), 200
         
     except ValueError as e:
@@ -121,12 +151,256 @@ def analyze():
         return jsonify({'error': f'Internal server error: {str(e)}'}), 500
 
 
-def analyze_symptoms(patient_name: str, doctor_name: str, description: str) -> Dict[str, Any]:
+@app.route('/api/analyze/stream', methods=['POST'])
+def analyze_stream():
+    """
+    Streaming variant of /api/analyze using Server-Sent Events.
+
+    Accepts the same request body. Fields are emitted as soon as the model
+    has produced them:
+        event: engine          data: {"engine": "gemini"}
+        event: diagnosis       data: {"diagnosis": "..."}
+        event: organ           data: {"organ": "lungs"}
+        event: organ_detail    data: {"organ": "lungs", "detail": "..."}
+        event: organ_severity  data: {"organ": "lungs", "severity": "high"}
+        event: organ_confidence data: {"organ": "lungs", "confidence": 80}
+        event: explanation     data: {"explanation": "..."}
+        event: severity        data: {"severity": "medium"}
+        event: confidence      data: {"confidence": 85}
+        event: recommendation  data: {"recommendation": "..."}
+        event: complete        data: <same payload as /api/analyze>
+        event: error           data: {"error": "..."}
+    """
+    data = request.get_json(silent=True)
+    if not data:
+        return jsonify({'error': 'No data provided'}), 400
+
+    patient_name = str(data.get('patient_name', '')).strip()
+    doctor_name = str(data.get('doctor_name', '')).strip()
+    try:
+        description = read_clinical_text(data)
+        engines = read_engine_order(data)
+    except ValueError as e:
+        return jsonify({'error': f'Invalid data: {str(e)}'}), 400
+
+    if not all([patient_name, doctor_name, description]):
+        return jsonify({
+            'error': 'Missing required fields: patient_name, doctor_name, description'
+        }), 400
+
+    # Fail before opening the stream when no selected engine can run at all
+    if all(engine_unavailable(engine) for engine in engines):
+        return jsonify({'error': all_engines_failed(
+            [(engine, engine_unavailable(engine)) for engine in engines]
+        )}), 500
+
+    def generate():
+        try:
+            logger.info(f"Streaming analysis for patient: {patient_name}")
+            for event, payload in stream_analysis_events(description, engines):
+                yield format_sse(event, payload)
+        except Exception as e:
+            logger.exception(f"Error in streaming analysis: {str(e)}")
+            yield format_sse('error', {'error': str(e)})
+
+    return Response(
+        stream_with_context(generate()),
+        mimetype='text/event-stream',
+        headers={'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no'},
+    )
+
+
+# Accepted ranges for structured vitals, in the units sent on the wire
+VITAL_LIMITS = {
+    'heart_rate_bpm': ('Heart rate', 'bpm', 20, 300),
+    'systolic_mmhg': ('Systolic BP', 'mmHg', 50, 300),
+    'diastolic_mmhg': ('Diastolic BP', 'mmHg', 20, 200),
+    'spo2_percent': ('SpO2', '%', 50, 100),
+    'temperature_c': ('Temperature', '°C', 25, 45),
+    'respiratory_rate_per_min': ('Respiratory rate', '/min', 4, 80),
+}
+ONSETS = {'sudden', 'gradual'}
+DURATION_UNITS = {'hours', 'days', 'weeks', 'months', 'years'}
+SEXES = {'female', 'male', 'other', 'unknown'}
+
+
+def read_clinical_text(data: Dict[str, Any]) -> str:
+    """
+    Clinical text for the prompt. Structured `clinical` findings take precedence
+    over the free-text description and are rendered as labelled lines so the
+    model always sees the same fields. Raises ValueError for malformed findings.
+    """
+    clinical = data.get('clinical')
+    if clinical is None:
+        return str(data.get('description', '')).strip()
+    if not isinstance(clinical, dict):
+        raise ValueError('clinical must be an object')
+    return format_clinical_findings(clinical)
+
+
+def format_clinical_findings(clinical: Dict[str, Any]) -> str:
+    """Validate structured findings and render them as prompt text."""
+    def text(field: str) -> str:
+        value = clinical.get(field)
+        if value is None:
+            return ''
+        if not isinstance(value, str):
+            raise ValueError(f'clinical.{field} must be a string')
+        return value.strip()
+
+    def text_list(field: str) -> List[str]:
+        value = clinical.get(field) or []
+        if not isinstance(value, list) or not all(isinstance(item, str) for item in value):
+            raise ValueError(f'clinical.{field} must be an array of strings')
+        return [item.strip() for item in value if item.strip()]
+
+    def number(source: Dict[str, Any], field: str, label: str, low: float, high: float) -> Optional[float]:
+        value = source.get(field)
+        if value is None:
+            return None
+        if isinstance(value, bool) or not isinstance(value, (int, float)):
+            raise ValueError(f'{label} must be a number')
+        if not low <= value <= high:
+            raise ValueError(f'{label} {value} is outside {low}-{high}')
+        return value
+
+    chief_complaint = text('chief_complaint')
+    if not chief_complaint:
+        raise ValueError('clinical.chief_complaint is required')
+
+    lines = [f'Chief complaint: {chief_complaint}']
+
+    onset = text('onset')
+    if onset and onset not in ONSETS:
+        raise ValueError(f'clinical.onset must be one of {sorted(ONSETS)}')
+    course = [f'{onset} onset'] if onset else []
+    duration = clinical.get('duration')
+    if duration is not None:
+        if not isinstance(duration, dict) or duration.get('unit') not in DURATION_UNITS:
+            raise ValueError(f'clinical.duration must have a value and a unit in {sorted(DURATION_UNITS)}')
+        value = number(duration, 'value', 'Duration', 0, 1000)
+        if value is not None:
+            course.append(f"for {value:g} {duration['unit']}")
+    if course:
+        lines.append(f"Course: {', '.join(course)}")
+
+    patient = []
+    age = number(clinical, 'age_years', 'Age', 0, 130)
+    if age is not None:
+        patient.append(f'{age:g} years')
+    sex = text('sex')
+    if sex and sex not in SEXES:
+        raise ValueError(f'clinical.sex must be one of {sorted(SEXES)}')
+    if sex and sex != 'unknown':
+        patient.append(sex)
+    if patient:
+        lines.append(f"Patient: {', '.join(patient)}")
+
+    vitals = clinical.get('vitals') or {}
+    if not isinstance(vitals, dict):
+        raise ValueError('clinical.vitals must be an object')
+    readings = {
+        field: number(vitals, field, label, low, high)
+        for field, (label, _unit, low, high) in VITAL_LIMITS.items()
+    }
+    systolic, diastolic = readings['systolic_mmhg'], readings['diastolic_mmhg']
+    if (systolic is None) != (diastolic is None):
+        raise ValueError('Blood pressure needs both systolic and diastolic values')
+    if systolic is not None and systolic <= diastolic:
+        raise ValueError('Systolic BP must be higher than diastolic BP')
+    vital_parts = []
+    for field, value in readings.items():
+        if value is None or field == 'diastolic_mmhg':
+            continue
+        if field == 'systolic_mmhg':
+            vital_parts.append(f'Blood pressure {systolic:g}/{diastolic:g} mmHg')
+        else:
+            vital_parts.append(f'{VITAL_LIMITS[field][0]} {value:g} {VITAL_LIMITS[field][1]}')
+    if vital_parts:
+        lines.append(f"Vitals: {', '.join(vital_parts)}")
+
+    medications = text_list('medications')
+    lines.append(f"Current medications: {', '.join(medications) if medications else 'none reported'}")
+    allergies = text_list('allergies')
+    lines.append(f"Allergies: {', '.join(allergies) if allergies else 'none reported'}")
+
+    history = text('history')
+    if history:
+        lines.append(f'Medical history: {history}')
+    notes = text('notes')
+    if notes:
+        lines.append(f'Additional notes: {notes}')
+
+    return '\n'.join(lines)
+
+
+def read_engine_order(data: Dict[str, Any]) -> List[str]:
+    """
+    Engines to try, first choice first. Defaults to DEFAULT_ENGINE_ORDER.
+    Raises ValueError for an unknown engine or an empty list.
+    """
+    engines = data.get('engines')
+    if engines is None:
+        return list(DEFAULT_ENGINE_ORDER)
+    if not isinstance(engines, list) or not engines:
+        raise ValueError('engines must be a non-empty list')
+    unknown = [str(engine) for engine in engines if not isinstance(engine, str) or engine not in ENGINE_LABELS]
+    if unknown:
+        raise ValueError(f"unknown engines: {', '.join(unknown)}")
+    return list(dict.fromkeys(engines))
+
+
+def engine_unavailable(engine: str) -> Optional[str]:
+    """Why the engine cannot be called on this server, or None when it can."""
+    if engine == 'gemini' and not GEMINI_API_KEY:
+        return 'GEMINI_API_KEY environment variable is not set'
+    if engine == 'llama' and not LLAMA_URL:
+        return 'LLAMA_URL environment variable is not set'
+    if engine == 'triton' and not TRITON_URL:
+        return 'TRITON_URL environment variable is not set'
+    return None
+
+
+def all_engines_failed(failures: List[Tuple[str, str]]) -> str:
+    details = '; '.join(f"{ENGINE_LABELS[engine]}: {reason}" for engine, reason in failures)
+    return f"No analysis engine could answer. {details}"
+
+
+def analyze_symptoms(
+    patient_name: str, doctor_name: str, description: str, engines: List[str]
+) -> Dict[str, Any]:
     """
     Analyze clinical description and identify affected organs with issues.
-    Focus on accurate organ detection for body visualization.
+    Focus on accurate organ detection for body visualization. Engines are tried
+    in order; the first one that returns a usable answer produces the result.
     """
-    prompt = f"""You are a medical AI assistant. Analyze this clinical description and identify affected organs.
+    prompt = build_analysis_prompt(description)
+
+    logger.info(f"Analyzing clinical description for patient: {patient_name}")
+    failures: List[Tuple[str, str]] = []
+    for engine in engines:
+        problem = engine_unavailable(engine)
+        if problem:
+            failures.append((engine, problem))
+            continue
+        try:
+            model_response = parse_model_text(ENGINE_CALLERS[engine](prompt))
+        except RuntimeError as e:
+            logger.warning(f"Engine {engine} failed, trying the next one: {str(e)}")
+            failures.append((engine, str(e)))
+            continue
+        sanitized = sanitize_model_response(model_response, description)
+        sanitized['engine'] = engine
+        sanitized['fallback_from'] = [failed for failed, _ in failures]
+        logger.info(f"Analysis complete ({engine}). Organs detected: {sanitized['supporting_organs']}")
+        return sanitized
+
+    raise RuntimeError(all_engines_failed(failures))
+
+
+def build_analysis_prompt(description: str) -> str:
+    """Build the Gemini prompt for a clinical description."""
+    return f"""You are a medical AI assistant. Analyze this clinical description and identify affected organs.
 
 Clinical Description:
 {description}
@@ -141,6 +415,14 @@ Return this exact JSON structure:
     "organ1": "Short specific issue affecting this organ (5-10 words max)",
     "organ2": "Short specific issue affecting this organ (5-10 words max)"
   }},
+  "organ_severity": {{
+    "organ1": "medium",
+    "organ2": "low"
+  }},
+  "organ_confidence": {{
+    "organ1": 80,
+    "organ2": 60
+  }},
   "explanation": "Short explanation of the condition and affected organs (2-3 sentences)",
   "severity": "low",
   "confidence": 85,
@@ -157,6 +439,8 @@ SEVERITY RULES:
 - "low": mild symptoms, routine care
 - "medium": moderate symptoms, requires monitoring
 - "high": severe symptoms, urgent care needed
+- "severity" is the overall level; "organ_severity" gives each organ in supporting_organs its own level
+- "organ_confidence" gives your confidence (0-100) that each organ is actually involved
 
 ORGAN DETAILS RULES:
 - For EACH organ in supporting_organs, provide a short, specific issue description
@@ -164,6 +448,10 @@ ORGAN DETAILS RULES:
 - Be specific: "Inflammation and congestion" not just "Affected"
 - Focus on the actual problem: "Reduced oxygen exchange", "Increased heart rate", "Inflammation"
 
+PLACEHOLDER RULES:
+- Names, dates, phone numbers, record numbers, addresses and emails are replaced before you see them, e.g. [NAME-1], [DATE-2]
+- If you refer to one, copy the placeholder exactly, including the brackets; never guess the value behind it
+
 EXAMPLES:
 Input: "Patient has chest pain and difficulty breathing"
 Output: {{
@@ -173,6 +461,14 @@ Output: {{
     "lungs": "Reduced oxygen exchange and breathing difficulty",
     "heart": "Elevated heart rate and potential cardiac stress"
   }},
+  "organ_severity": {{
+    "lungs": "high",
+    "heart": "medium"
+  }},
+  "organ_confidence": {{
+    "lungs": 85,
+    "heart": 70
+  }},
   "explanation": "Chest pain and breathing difficulty suggest potential cardiac or respiratory involvement.",
   "severity": "high",
   "confidence": 80,
@@ -187,6 +483,14 @@ Output: {{
     "sinuses": "Inflammation and congestion causing pressure",
     "brain": "Referred pain from sinus inflammation"
   }},
+  "organ_severity": {{
+    "sinuses": "low",
+    "brain": "low"
+  }},
+  "organ_confidence": {{
+    "sinuses": 90,
+    "brain": 55
+  }},
   "explanation": "Headache and sinus pressure indicate sinus inflammation affecting the sinuses and potentially causing referred head pain.",
   "severity": "low",
   "confidence": 85,
@@ -197,15 +501,9 @@ Now analyze this clinical description:
 {description}
 """
 
-    logger.info(f"Analyzing clinical description for patient: {patient_name}")
-    model_response = call_gemini_api(prompt)
-    sanitized = sanitize_model_response(model_response, description)
-    logger.info(f"Analysis complete. Organs detected: {sanitized['supporting_organs']}")
-    return sanitized
-
 
-def call_gemini_api(prompt: str) -> Dict[str, Any]:
-    payload = {
+def build_gemini_payload(prompt: str) -> Dict[str, Any]:
+    return {
         "contents": [
             {
                 "parts": [
@@ -222,6 +520,22 @@ def call_gemini_api(prompt: str) -> Dict[str, Any]:
         }
     }
 
+
+def gemini_http_error(response: requests.Response, error: requests.exceptions.HTTPError) -> RuntimeError:
+    error_detail = "Unknown error"
+    try:
+        error_data = response.json()
+        error_detail = error_data.get('error', {}).get('message', str(error))
+    except:
+        error_detail = f"HTTP {response.status_code}: {str(error)}"
+    logger.error(f"Gemini API HTTP error: {error_detail}")
+    return RuntimeError(f"Analysis service error: {error_detail}")
+
+
+def call_gemini_api(prompt: str) -> str:
+    """Raw model text from Gemini's generateContent endpoint."""
+    payload = build_gemini_payload(prompt)
+
     try:
         response = requests.post(
             GEMINI_ENDPOINT,
@@ -233,14 +547,7 @@ def call_gemini_api(prompt: str) -> Dict[str, Any]:
         response.raise_for_status()
         data = response.json()
     except requests.exceptions.HTTPError as e:
-        error_detail = "Unknown error"
-        try:
-            error_data = response.json()
-            error_detail = error_data.get('error', {}).get('message', str(e))
-        except:
-            error_detail = f"HTTP {response.status_code}: {str(e)}"
-        logger.error(f"Gemini API HTTP error: {error_detail}")
-        raise RuntimeError(f"Analysis service error: {error_detail}") from e
+        raise gemini_http_error(response, e) from e
     except requests.exceptions.Timeout:
         logger.error("Gemini API request timed out")
         raise RuntimeError("Analysis service timeout. Please try again.") from None
@@ -254,6 +561,65 @@ def call_gemini_api(prompt: str) -> Dict[str, Any]:
         logger.error("Unexpected Gemini response structure: %s", json.dumps(data, indent=2))
         raise RuntimeError("Invalid response from analysis model") from exc
 
+    return raw_text
+
+
+def post_local_engine(engine: str, url: str, payload: Dict[str, Any]) -> Dict[str, Any]:
+    """POST to a self-hosted engine, raising RuntimeError for any failure."""
+    label = ENGINE_LABELS[engine]
+    try:
+        response = requests.post(url, json=payload, timeout=LOCAL_ENGINE_TIMEOUT)
+        response.raise_for_status()
+        return response.json()
+    except requests.exceptions.Timeout:
+        logger.error(f"{label} request timed out")
+        raise RuntimeError(f"{label} timed out") from None
+    except requests.exceptions.HTTPError as e:
+        logger.error(f"{label} HTTP error: {str(e)}")
+        raise RuntimeError(f"{label} error: HTTP {response.status_code}") from e
+    except requests.exceptions.RequestException as e:
+        logger.error(f"{label} connection error: {str(e)}")
+        raise RuntimeError(f"Failed to connect to {label}") from e
+    except ValueError as e:
+        raise RuntimeError(f"{label} returned invalid JSON") from e
+
+
+def call_llama_api(prompt: str) -> str:
+    """Raw model text from a llama.cpp server's /completion endpoint."""
+    data = post_local_engine('llama', f"{LLAMA_URL}/completion", {
+        "prompt": prompt,
+        "temperature": 0.2,
+        "top_p": 0.8,
+        "top_k": 40,
+        "n_predict": 1024,
+    })
+    text = data.get('content') if isinstance(data, dict) else None
+    if not isinstance(text, str) or not text.strip():
+        raise RuntimeError("Invalid response from Local Llama model")
+    return text.strip()
+
+
+def call_triton_api(prompt: str) -> str:
+    """Raw model text from Triton's generate extension."""
+    data = post_local_engine('triton', f"{TRITON_URL}/v2/models/{TRITON_MODEL}/generate", {
+        "text_input": prompt,
+        "parameters": {"temperature": 0.2, "top_p": 0.8, "max_tokens": 1024},
+    })
+    text = data.get('text_output') if isinstance(data, dict) else None
+    if not isinstance(text, str) or not text.strip():
+        raise RuntimeError("Invalid response from Triton inference server")
+    return text.strip()
+
+
+ENGINE_CALLERS = {
+    'gemini': call_gemini_api,
+    'llama': call_llama_api,
+    'triton': call_triton_api,
+}
+
+
+def parse_model_text(raw_text: str) -> Dict[str, Any]:
+    """Extract the JSON object from raw model output."""
     # Clean the response text
     cleaned_text = raw_text.strip()
     
@@ -274,14 +640,228 @@ def call_gemini_api(prompt: str) -> Dict[str, Any]:
 
     try:
         parsed = json.loads(cleaned_text)
-        logger.info("Successfully parsed Gemini response")
+        logger.info("Successfully parsed model response")
         return parsed
     except json.JSONDecodeError as exc:
-        logger.error("Failed to parse Gemini JSON. Raw text: %s", cleaned_text[:500])
+        logger.error("Failed to parse model JSON. Raw text: %s", cleaned_text[:500])
         # Try to extract basic info as fallback
         raise RuntimeError(f"Model returned invalid JSON. Please try again. Error: {str(exc)}") from exc
 
 
+def stream_gemini_text(prompt: str) -> Iterator[str]:
+    """Yield text chunks from Gemini's streaming endpoint as they arrive."""
+    payload = build_gemini_payload(prompt)
+
+    try:
+        with requests.post(
+            GEMINI_STREAM_ENDPOINT,
+            params={"key": GEMINI_API_KEY, "alt": "sse"},
+            headers={"Content-Type": "application/json"},
+            json=payload,
+            timeout=30,
+            stream=True,
+        ) as response:
+            response.raise_for_status()
+            for line in response.iter_lines(decode_unicode=True):
+                if not line or not line.startswith('data:'):
+                    continue
+                try:
+                    chunk = json.loads(line[len('data:'):].strip())
+                    yield chunk["candidates"][0]["content"]["parts"][0]["text"]
+                except (json.JSONDecodeError, KeyError, IndexError):
+                    continue
+    except requests.exceptions.HTTPError as e:
+        raise gemini_http_error(response, e) from e
+    except requests.exceptions.Timeout:
+        logger.error("Gemini API stream timed out")
+        raise RuntimeError("Analysis service timeout. Please try again.") from None
+    except requests.exceptions.ConnectionError as e:
+        logger.error(f"Gemini API connection error: {str(e)}")
+        raise RuntimeError("Failed to connect to analysis service. Please check your internet connection.") from e
+
+
+JSON_STRING = r'"((?:[^"\\]|\\.)*)"'
+STREAM_STRING_ITEM = re.compile(r'\s*,?\s*' + JSON_STRING)
+STREAM_STRING_PAIR = re.compile(r'\s*,?\s*' + JSON_STRING + r'\s*:\s*' + JSON_STRING)
+STREAM_NUMBER_PAIR = re.compile(r'\s*,?\s*' + JSON_STRING + r'\s*:\s*(-?\d+(?:\.\d+)?)\s*(?=[,}\s])')
+
+
+def decode_json_string(raw: str) -> Optional[str]:
+    try:
+        return json.loads(f'"{raw}"')
+    except json.JSONDecodeError:
+        return None
+
+
+def extract_partial_string(text: str, field: str) -> Optional[str]:
+    """Return a top-level string field once its closing quote has arrived."""
+    match = re.search(rf'"{field}"\s*:\s*' + JSON_STRING, text)
+    return decode_json_string(match.group(1)) if match else None
+
+
+def extract_partial_number(text: str, field: str) -> Optional[float]:
+    """Return a numeric field once a delimiter shows the number is complete."""
+    match = re.search(rf'"{field}"\s*:\s*(-?\d+(?:\.\d+)?)\s*[,}}\n]', text)
+    return float(match.group(1)) if match else None
+
+
+def extract_partial_items(text: str, field: str) -> List[str]:
+    """Return the completed string items of an array field that may still be open."""
+    match = re.search(rf'"{field}"\s*:\s*\[', text)
+    if not match:
+        return []
+    items, pos = [], match.end()
+    while True:
+        item = STREAM_STRING_ITEM.match(text, pos)
+        if not item:
+            return items
+        decoded = decode_json_string(item.group(1))
+        if decoded is not None:
+            items.append(decoded)
+        pos = item.end()
+
+
+def extract_partial_pairs(text: str, field: str, numeric: bool = False) -> List[Tuple[str, Any]]:
+    """Return the completed key/value pairs of an object field that may still be open."""
+    match = re.search(rf'"{field}"\s*:\s*\{{', text)
+    if not match:
+        return []
+    pattern = STREAM_NUMBER_PAIR if numeric else STREAM_STRING_PAIR
+    pairs, pos = [], match.end()
+    while True:
+        pair = pattern.match(text, pos)
+        if not pair:
+            return pairs
+        key = decode_json_string(pair.group(1))
+        value = float(pair.group(2)) if numeric else decode_json_string(pair.group(2))
+        if key is not None and value is not None:
+            pairs.append((key, value))
+        pos = pair.end()
+
+
+def open_engine_stream(engines: List[str], prompt: str) -> Tuple[str, List[str], Iterator[str]]:
+    """
+    Start the first engine that answers and return it with the engines that
+    failed before it and its text chunks. Gemini streams; the self-hosted
+    engines answer in one chunk. Falling back is only possible until the
+    first chunk, since nothing has been sent to the client before then.
+    """
+    failures: List[Tuple[str, str]] = []
+    for engine in engines:
+        problem = engine_unavailable(engine)
+        if problem:
+            failures.append((engine, problem))
+            continue
+        try:
+            if engine == 'gemini':
+                chunks = stream_gemini_text(prompt)
+                first = next(chunks, None)
+                if first is None:
+                    raise RuntimeError("Analysis model returned no output")
+                return engine, [failed for failed, _ in failures], chain([first], chunks)
+            return engine, [failed for failed, _ in failures], iter([ENGINE_CALLERS[engine](prompt)])
+        except RuntimeError as e:
+            logger.warning(f"Engine {engine} failed, trying the next one: {str(e)}")
+            failures.append((engine, str(e)))
+
+    raise RuntimeError(all_engines_failed(failures))
+
+
+def stream_analysis_events(description: str, engines: List[str]) -> Iterator[Tuple[Optional[str], Any]]:
+    """
+    Run the analysis on the first engine that answers and yield (event, payload)
+    tuples as fields complete. A (None, None) tuple is yielded for every model
+    chunk so the caller can send keep-alives. The final 'complete' event carries
+    the fully sanitized result, which clients should treat as authoritative.
+    """
+    prompt = build_analysis_prompt(description)
+    engine, fallback_from, chunks = open_engine_stream(engines, prompt)
+    yield 'engine', {'engine': engine}
+    raw_text = ''
+    sent_fields = set()
+    sent_organs = set()
+    sent_details = set()
+    seen_organ_items = 0
+    seen_detail_pairs = 0
+    seen_severity_pairs = 0
+    seen_confidence_pairs = 0
+    sent_recommendations = 0
+
+    for chunk in chunks:
+        raw_text += chunk
+        yield None, None
+
+        for field in ('diagnosis', 'explanation', 'severity'):
+            if field in sent_fields:
+                continue
+            value = extract_partial_string(raw_text, field)
+            if value is None or not value.strip():
+                continue
+            if field == 'severity':
+                value = value.strip().lower()
+                if value not in {'low', 'medium', 'high'}:
+                    continue
+            sent_fields.add(field)
+            yield field, {field: value.strip()}
+
+        if 'confidence' not in sent_fields:
+            confidence = extract_partial_number(raw_text, 'confidence')
+            if confidence is not None:
+                sent_fields.add('confidence')
+                yield 'confidence', {'confidence': max(0, min(100, int(confidence)))}
+
+        organ_items = extract_partial_items(raw_text, 'supporting_organs')
+        for raw_organ in organ_items[seen_organ_items:]:
+            for organ in sanitize_organs([raw_organ]):
+                if organ.lower() not in sent_organs:
+                    sent_organs.add(organ.lower())
+                    yield 'organ', {'organ': organ}
+        seen_organ_items = len(organ_items)
+
+        detail_pairs = extract_partial_pairs(raw_text, 'organ_details')
+        for raw_organ, detail in detail_pairs[seen_detail_pairs:]:
+            for organ in sanitize_organs([raw_organ]):
+                if organ.lower() not in sent_details and detail.strip():
+                    sent_details.add(organ.lower())
+                    yield 'organ_detail', {'organ': organ, 'detail': detail.strip()[:100]}
+        seen_detail_pairs = len(detail_pairs)
+
+        severity_pairs = extract_partial_pairs(raw_text, 'organ_severity')
+        for raw_organ, level in severity_pairs[seen_severity_pairs:]:
+            level = level.strip().lower()
+            if level not in {'low', 'medium', 'high'}:
+                continue
+            for organ in sanitize_organs([raw_organ]):
+                yield 'organ_severity', {'organ': organ, 'severity': level}
+        seen_severity_pairs = len(severity_pairs)
+
+        confidence_pairs = extract_partial_pairs(raw_text, 'organ_confidence', numeric=True)
+        for raw_organ, value in confidence_pairs[seen_confidence_pairs:]:
+            for organ in sanitize_organs([raw_organ]):
+                yield 'organ_confidence', {'organ': organ, 'confidence': max(0, min(100, int(value)))}
+        seen_confidence_pairs = len(confidence_pairs)
+
+        recommendations = [
+            rec.strip() for rec in extract_partial_items(raw_text, 'recommendations') if rec.strip()
+        ][:5]
+        for recommendation in recommendations[sent_recommendations:]:
+            yield 'recommendation', {'recommendation': recommendation}
+        sent_recommendations = max(sent_recommendations, len(recommendations))
+
+    result = sanitize_model_response(parse_model_text(raw_text), description)
+    result['engine'] = engine
+    result['fallback_from'] = fallback_from
+    logger.info(f"Streaming analysis complete ({engine}). Organs detected: {result['supporting_organs']}")
+    yield 'complete', result
+
+
+def format_sse(event: Optional[str], payload: Any) -> str:
+    """Format one Server-Sent Event; a None event becomes a keep-alive comment."""
+    if event is None:
+        return ': keep-alive\n\n'
+    return f"event: {event}\ndata: {json.dumps(payload)}\n\n"
+
+
 def sanitize_model_response(model_data: Dict[str, Any], description: str) -> Dict[str, Any]:
     diagnosis = model_data.get('diagnosis') or 'Diagnosis unavailable'
     organs = sanitize_organs(model_data.get('supporting_organs', []))
@@ -303,25 +883,45 @@ def sanitize_model_response(model_data: Dict[str, Any], description: str) -> Dic
         recommendations = [str(recommendations)]
     recommendations = [str(rec).strip() for rec in recommendations if str(rec).strip()]
 
-    # Sanitize organ_details - map to normalized organ names
+    # Sanitize organ_details, keyed by the model's organ names like supporting_organs
     organ_details_raw = model_data.get('organ_details', {})
     organ_details = {}
     if isinstance(organ_details_raw, dict):
-        # Map organ details to normalized organ names
         for raw_organ, detail in organ_details_raw.items():
             if isinstance(detail, str) and detail.strip():
-                # Normalize the organ name and map the detail
-                normalized_organs = sanitize_organs([raw_organ])
-                if normalized_organs:
-                    normalized_organ = normalized_organs[0]
-                    # Keep the shortest detail if multiple organs map to same normalized name
-                    if normalized_organ not in organ_details or len(detail) < len(organ_details[normalized_organ]):
-                        organ_details[normalized_organ] = detail.strip()[:100]  # Limit to 100 chars
+                for organ in sanitize_organs([raw_organ]):
+                    organ_details[organ] = detail.strip()[:100]  # Limit to 100 chars
+
+    # Per-organ severity and confidence, keyed by the model's organ names. Levels
+    # for organs not in supporting_organs are harmless: the frontend only reads
+    # the ones it shows.
+    organ_severity = {}
+    organ_severity_raw = model_data.get('organ_severity', {})
+    if isinstance(organ_severity_raw, dict):
+        for raw_organ, level in organ_severity_raw.items():
+            level = str(level).strip().lower()
+            if level not in {'low', 'medium', 'high'}:
+                continue
+            for organ in sanitize_organs([raw_organ]):
+                organ_severity[organ] = level
+
+    organ_confidence = {}
+    organ_confidence_raw = model_data.get('organ_confidence', {})
+    if isinstance(organ_confidence_raw, dict):
+        for raw_organ, value in organ_confidence_raw.items():
+            try:
+                value = max(0, min(100, int(value)))
+            except (TypeError, ValueError):
+                continue
+            for organ in sanitize_organs([raw_organ]):
+                organ_confidence[organ] = value
 
     return {
         'diagnosis': diagnosis,
         'supporting_organs': organs,
         'organ_details': organ_details,
+        'organ_severity': organ_severity,
+        'organ_confidence': organ_confidence,
         'explanation': explanation,
         'confidence': confidence,
         'severity': severity,
@@ -367,59 +967,26 @@ def determine_severity(description):
 
 def sanitize_organs(organs: List[str]) -> List[str]:
     """
-    Normalize organ names coming from the model so they match the frontend visualization.
-    Maps to the exact organ names used in OrganSvg.tsx
+    Clean organ names coming from the model: drop non-strings and blanks and
+    de-dupe, keeping the model's wording. The frontend maps names to its organ
+    keys (resolveOrganName in src/organs/normalize.ts), so qualified and
+    combined names like "left lung" or "heart and lungs" are not lost here.
     """
     if not isinstance(organs, list):
         return []
 
-    # Map to frontend organ keys (must match ORGAN_CLIP_IDS in OrganSvg.tsx)
-    alias_map = {
-        # Brain
-        'brain': 'brain',
-        # Respiratory
-        'lungs': 'lungs',
-        'lung': 'lungs',
-        'bronchi': 'bronchi',
-        'bronchus': 'bronchi',
-        'sinuses': 'sinuses',
-        'sinus': 'sinuses',
-        'throat': 'throat',
-        # Cardiovascular
-        'heart': 'heart',
-        # Digestive
-        'liver': 'liver',
-        'stomach': 'stomach',
-        'kidney': 'kidney',
-        'kidneys': 'kidney',
-        'intestine': 'intestine',
-        'intestines': 'intestine',
-        'pancreas': 'pancreas',
-        # Urinary
-        'bladder': 'bladder',
-    }
-
-    normalized = []
+    seen = set()
+    cleaned = []
     for organ in organs:
-        if not isinstance(organ, str):
+        if not isinstance(organ, str) or not organ.strip():
             continue
-        key = organ.strip().lower()
-        mapped = alias_map.get(key)
-        if mapped:
-            normalized.append(mapped)
-        else:
-            logger.warning(f"Unknown organ name from model: {organ}")
+        name = organ.strip()
+        if name.lower() not in seen:
+            cleaned.append(name)
+            seen.add(name.lower())
 
-    # Keep ordering but de-dupe
-    seen = set()
-    deduped = []
-    for organ in normalized:
-        if organ not in seen:
-            deduped.append(organ)
-            seen.add(organ)
-    
-    logger.info(f"Sanitized organs: {deduped}")
-    return deduped
+    logger.info(f"Sanitized organs: {cleaned}")
+    return cleaned
 
 
 # Serve React App (for production)
@@ -447,6 +1014,82 @@ def health_check():
     }), 200
 
 
+def engine_health_url(engine: str) -> Tuple[str, Dict[str, str]]:
+    """Cheapest request that shows the engine is up: model metadata or a readiness probe."""
+    if engine == 'gemini':
+        return (
+            f'https://generativelanguage.googleapis.com/v1beta/models/{GEMINI_MODEL}',
+            {"key": GEMINI_API_KEY},
+        )
+    if engine == 'llama':
+        return f"{LLAMA_URL}/health", {}
+    return f"{TRITON_URL}/v2/health/ready", {}
+
+
+def check_engine(engine: str) -> Dict[str, Any]:
+    """
+    Health of one engine. Degraded: answering but slow, rate limited (429) or
+    still loading (503). Offline: not configured, unreachable or failing.
+    """
+    status = {'id': engine, 'label': ENGINE_LABELS[engine], 'latency_ms': None, 'detail': None}
+    problem = engine_unavailable(engine)
+    if problem:
+        return {**status, 'status': 'offline', 'detail': problem}
+
+    url, params = engine_health_url(engine)
+    started = time.monotonic()
+    try:
+        response = requests.get(url, params=params, timeout=ENGINE_HEALTH_TIMEOUT)
+    except requests.exceptions.Timeout:
+        return {**status, 'status': 'offline', 'detail': f'No answer within {ENGINE_HEALTH_TIMEOUT}s'}
+    except requests.exceptions.RequestException:
+        return {**status, 'status': 'offline', 'detail': 'Unreachable'}
+    latency_ms = round((time.monotonic() - started) * 1000)
+
+    if response.status_code == 429:
+        return {**status, 'status': 'degraded', 'latency_ms': latency_ms, 'detail': 'Rate limited'}
+    if response.status_code == 503:
+        return {**status, 'status': 'degraded', 'latency_ms': latency_ms, 'detail': 'Temporarily unavailable'}
+    if not response.ok:
+        return {**status, 'status': 'offline', 'latency_ms': latency_ms, 'detail': f'HTTP {response.status_code}'}
+    if latency_ms > ENGINE_DEGRADED_MS:
+        return {**status, 'status': 'degraded', 'latency_ms': latency_ms, 'detail': 'Slow to respond'}
+    return {**status, 'status': 'online', 'latency_ms': latency_ms}
+
+
+engine_health_cache: Dict[str, Any] = {'checked': 0.0, 'body': None}
+engine_health_lock = threading.Lock()
+
+
+@app.route('/api/engines', methods=['GET'])
+def engines_health():
+    """
+    Status of every analysis engine, checked in parallel and cached for
+    ENGINE_HEALTH_TTL seconds.
+
+    Response:
+        {
+            "engines": [
+                {"id": "gemini", "label": "Google Gemini", "status": "online",
+                 "latency_ms": 240, "detail": null},
+                {"id": "llama", "label": "Local Llama model", "status": "offline",
+                 "latency_ms": null, "detail": "LLAMA_URL environment variable is not set"}
+            ],
+            "checked_at": "2024-01-01T12:00:00+00:00"
+        }
+    """
+    with engine_health_lock:
+        if engine_health_cache['body'] is None or time.monotonic() - engine_health_cache['checked'] > ENGINE_HEALTH_TTL:
+            with ThreadPoolExecutor(max_workers=len(ENGINE_LABELS)) as executor:
+                results = list(executor.map(check_engine, ENGINE_LABELS))
+            engine_health_cache['body'] = {
+                'engines': results,
+                'checked_at': datetime.now(timezone.utc).isoformat(),
+            }
+            engine_health_cache['checked'] = time.monotonic()
+        return jsonify(engine_health_cache['body']), 200
+
+
 if __name__ == '__main__':
     # Get port from environment variable (for production) or default to 5000
     port = int(os.environ.get('PORT', 5000))
@@ -457,7 +1100,9 @@ if __name__ == '__main__':
     print("Medical Analyzer Flask Backend")
     print("=" * 60)
     print(f"API endpoint: http://localhost:{port}/api/analyze")
+    print(f"Streaming endpoint: http://localhost:{port}/api/analyze/stream")
     print(f"Health check: http://localhost:{port}/api/health")
+    print(f"Engine status: http://localhost:{port}/api/engines")
     print(f"Frontend (after build): http://localhost:{port}")
     print("")
     if GEMINI_API_KEY:
@@ -465,6 +1110,8 @@ if __name__ == '__main__':
     else:
         print("✗ WARNING: GEMINI_API_KEY not found!")
         print("  Please set it in .env file or environment variables")
+    print(f"Local Llama: {LLAMA_URL or 'not configured (set LLAMA_URL)'}")
+    print(f"Triton: {TRITON_URL + ' (' + TRITON_MODEL + ')' if TRITON_URL else 'not configured (set TRITON_URL)'}")
     print(f"Mode: {'Development' if debug_mode else 'Production'}")
     print("=" * 60)
     print("")
@@ -0,0 +1,47 @@
+import type { AuditEntry, AuditVerification } from './types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted at every level, so the same entry always hashes the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of everything in the entry but its own hash
+export async function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  const { seq, timestamp, action, actor, patient, details, prevHash } = entry;
+  const data = new TextEncoder().encode(
+    canonicalJson({ seq, timestamp, action, actor, patient, details, prevHash })
+  );
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+// Walk the chain in sequence order: numbering without gaps, each entry linked
+// to the one before it, and each hash matching the entry's contents
+export async function verifyAuditChain(entries: AuditEntry[]): Promise<AuditVerification> {
+  let prevHash = GENESIS_HASH;
+  for (const [index, entry] of entries.entries()) {
+    const fail = (reason: string): AuditVerification => ({
+      valid: false,
+      checked: index + 1,
+      brokenAt: entry.seq,
+      reason,
+    });
+    if (entry.seq !== index + 1) return fail(`Expected entry ${index + 1}, found ${entry.seq}`);
+    if (entry.prevHash !== prevHash) return fail('Does not link to the previous entry');
+    if ((await hashAuditEntry(entry)) !== entry.hash) return fail('Contents do not match the hash');
+    prevHash = entry.hash;
+  }
+  return { valid: true, checked: entries.length };
+}
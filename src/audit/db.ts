@@ -0,0 +1,67 @@
+// Promise wrapper around the IndexedDB database that holds the audit log. Kept
+// apart from the history database so clearing history never touches the log.
+
+const DB_NAME = 'medical-analyzer-audit';
+const DB_VERSION = 1;
+
+export const AUDIT_STORE = 'entries';
+
+// IndexedDB or Web Crypto is unavailable, or a request failed
+export class AuditStorageError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AuditStorageError';
+    this.cause = cause;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openAuditDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new AuditStorageError('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        // Keyed by sequence number: `add` fails on a taken number, so two
+        // tabs can never write the same link of the chain
+        db.createObjectStore(AUDIT_STORE, { keyPath: 'seq' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(new AuditStorageError('Could not open the audit database', request.error));
+  });
+
+  // Let a later call retry instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// Run one request against the audit store and resolve with its result once the transaction commits
+export async function runAuditRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openAuditDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(AUDIT_STORE, mode);
+    const request = makeRequest(transaction.objectStore(AUDIT_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = transaction.onerror = () =>
+      reject(new AuditStorageError('Audit database request failed', transaction.error));
+  });
+}
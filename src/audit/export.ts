@@ -0,0 +1,45 @@
+import { canonicalJson } from './chain';
+import type { AuditEntry, AuditVerification } from './types';
+
+const CSV_COLUMNS = ['seq', 'timestamp', 'action', 'actor', 'patient', 'details', 'prevHash', 'hash'] as const;
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per entry; details as canonical JSON so the row can be re-hashed
+export function toAuditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      String(entry.seq),
+      new Date(entry.timestamp).toISOString(),
+      entry.action,
+      entry.actor,
+      entry.patient ?? '',
+      canonicalJson(entry.details),
+      entry.prevHash,
+      entry.hash,
+    ].map(csvCell)
+  );
+  return [CSV_COLUMNS.join(','), ...rows.map((row) => row.join(','))].join('\r\n');
+}
+
+// The entries as stored, with the verification result at export time
+export function toAuditJson(entries: AuditEntry[], verification: AuditVerification): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), verification, entries }, null, 2);
+}
+
+export function downloadAuditLog(
+  entries: AuditEntry[],
+  verification: AuditVerification,
+  format: 'json' | 'csv'
+): void {
+  const blob =
+    format === 'json'
+      ? new Blob([toAuditJson(entries, verification)], { type: 'application/json' })
+      : new Blob([toAuditCsv(entries)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `audit-log-${new Date().toISOString().split('T')[0]}.${format}`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,11 @@
+export { GENESIS_HASH, canonicalJson, hashAuditEntry, verifyAuditChain } from './chain';
+export { AuditStorageError, openAuditDb } from './db';
+export { downloadAuditLog, toAuditCsv, toAuditJson } from './export';
+export { appendAuditEntry, listAuditEntries } from './log';
+export type {
+  AuditAction,
+  AuditEntry,
+  AuditEvent,
+  AuditValue,
+  AuditVerification,
+} from './types';
@@ -0,0 +1,55 @@
+import { GENESIS_HASH, hashAuditEntry } from './chain';
+import { AuditStorageError, runAuditRequest } from './db';
+import type { AuditEntry, AuditEvent } from './types';
+
+const MAX_APPEND_ATTEMPTS = 3;
+
+// Appends in this tab run one at a time, each building on the one before
+let lastAppend: Promise<unknown> = Promise.resolve();
+
+async function readLastEntry(): Promise<AuditEntry | undefined> {
+  const cursor = await runAuditRequest('readonly', (store) => store.openCursor(null, 'prev'));
+  return cursor?.value as AuditEntry | undefined;
+}
+
+async function writeEntry(event: AuditEvent, attempt = 1): Promise<AuditEntry> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new AuditStorageError('Web Crypto is not available; the audit log needs a secure (https) context');
+  }
+
+  const previous = await readLastEntry();
+  const unsigned = {
+    seq: (previous?.seq ?? 0) + 1,
+    timestamp: Date.now(),
+    action: event.action,
+    actor: event.actor,
+    patient: event.patient ?? null,
+    details: event.details ?? {},
+    prevHash: previous?.hash ?? GENESIS_HASH,
+  };
+  const entry: AuditEntry = { ...unsigned, hash: await hashAuditEntry(unsigned) };
+
+  try {
+    await runAuditRequest('readwrite', (store) => store.add(entry));
+  } catch (error) {
+    // Another tab took this sequence number first; chain onto its entry instead
+    const isTaken =
+      error instanceof AuditStorageError && (error.cause as DOMException | null)?.name === 'ConstraintError';
+    if (isTaken && attempt < MAX_APPEND_ATTEMPTS) return writeEntry(event, attempt + 1);
+    throw error;
+  }
+  return entry;
+}
+
+// Add an entry to the end of the log. There is deliberately no way to change
+// or delete one.
+export function appendAuditEntry(event: AuditEvent): Promise<AuditEntry> {
+  const append = lastAppend.catch(() => undefined).then(() => writeEntry(event));
+  lastAppend = append;
+  return append;
+}
+
+// The whole log, oldest first
+export function listAuditEntries(): Promise<AuditEntry[]> {
+  return runAuditRequest('readonly', (store) => store.getAll() as IDBRequest<AuditEntry[]>);
+}
@@ -0,0 +1,42 @@
+// What happened. Grouped by prefix so the viewer can filter on it.
+export type AuditAction =
+  | 'analysis.submitted'
+  | 'analysis.completed'
+  | 'analysis.failed'
+  | 'analysis.cancelled'
+  | 'export.image'
+  | 'export.pdf'
+  | 'export.fhir'
+  | 'history.restored'
+  | 'history.deleted'
+  | 'workspace.cleared'
+  | 'audit.exported';
+
+export type AuditValue = string | number | boolean | null | string[];
+
+// Event as the app reports it; the log adds sequence, time and hashes
+export interface AuditEvent {
+  action: AuditAction;
+  actor: string; // Clinician responsible; the app has no sign-in, so the physician named on the analysis
+  patient?: string;
+  details?: Record<string, AuditValue>;
+}
+
+// One entry of the append-only log. `hash` covers every other field,
+// including `prevHash`, so changing or removing an entry breaks the chain
+// from that point on.
+export interface AuditEntry extends Required<Pick<AuditEvent, 'action' | 'actor'>> {
+  seq: number; // 1-based, without gaps
+  timestamp: number; // epoch ms
+  patient: string | null;
+  details: Record<string, AuditValue>;
+  prevHash: string; // Hash of the previous entry; GENESIS_HASH for the first
+  hash: string; // SHA-256, hex
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number; // Entries checked
+  brokenAt?: number; // seq of the first entry that fails
+  reason?: string;
+}
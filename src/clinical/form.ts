@@ -0,0 +1,137 @@
+import type { ClinicalFindings, DurationUnit, Sex, TemperatureUnit } from '../api';
+import { parseBloodPressure, parseNumber } from './vitals';
+
+// Raw values of the structured input form; every field is a string as typed
+export interface ClinicalFormValues {
+  chiefComplaint: string;
+  onset: '' | 'sudden' | 'gradual';
+  durationValue: string;
+  durationUnit: DurationUnit;
+  heartRate: string;
+  bloodPressure: string; // "120/80"
+  spo2: string;
+  temperature: string;
+  temperatureUnit: TemperatureUnit;
+  respiratoryRate: string;
+  medications: string; // One per line or comma separated
+  allergies: string;
+  age: string;
+  sex: '' | Sex;
+  history: string;
+  notes: string;
+}
+
+export const EMPTY_CLINICAL_FORM: ClinicalFormValues = {
+  chiefComplaint: '',
+  onset: '',
+  durationValue: '',
+  durationUnit: 'days',
+  heartRate: '',
+  bloodPressure: '',
+  spo2: '',
+  temperature: '',
+  temperatureUnit: 'C',
+  respiratoryRate: '',
+  medications: '',
+  allergies: '',
+  age: '',
+  sex: '',
+  history: '',
+  notes: '',
+};
+
+const splitList = (text: string) =>
+  text
+    .split(/[\n,;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const optionalText = (text: string) => text.trim() || undefined;
+
+// Only call with values that passed form validation
+export function toClinicalFindings(values: ClinicalFormValues): ClinicalFindings {
+  const durationValue = parseNumber(values.durationValue);
+  const temperature = parseNumber(values.temperature);
+  return {
+    chiefComplaint: values.chiefComplaint.trim(),
+    onset: values.onset || undefined,
+    duration:
+      durationValue !== undefined ? { value: durationValue, unit: values.durationUnit } : undefined,
+    vitals: {
+      heartRate: parseNumber(values.heartRate),
+      bloodPressure: parseBloodPressure(values.bloodPressure) ?? undefined,
+      spo2: parseNumber(values.spo2),
+      temperature:
+        temperature !== undefined ? { value: temperature, unit: values.temperatureUnit } : undefined,
+      respiratoryRate: parseNumber(values.respiratoryRate),
+    },
+    medications: splitList(values.medications),
+    allergies: splitList(values.allergies),
+    age: parseNumber(values.age),
+    sex: values.sex || undefined,
+    history: optionalText(values.history),
+    notes: optionalText(values.notes),
+  };
+}
+
+const text = (value?: number) => (value === undefined ? '' : String(value));
+
+// Refill the form from stored findings, e.g. a reopened history entry
+export function toClinicalFormValues(findings: ClinicalFindings): ClinicalFormValues {
+  const { vitals } = findings;
+  return {
+    chiefComplaint: findings.chiefComplaint,
+    onset: findings.onset ?? '',
+    durationValue: text(findings.duration?.value),
+    durationUnit: findings.duration?.unit ?? 'days',
+    heartRate: text(vitals.heartRate),
+    bloodPressure: vitals.bloodPressure
+      ? `${vitals.bloodPressure.systolic}/${vitals.bloodPressure.diastolic}`
+      : '',
+    spo2: text(vitals.spo2),
+    temperature: text(vitals.temperature?.value),
+    temperatureUnit: vitals.temperature?.unit ?? 'C',
+    respiratoryRate: text(vitals.respiratoryRate),
+    medications: findings.medications.join('\n'),
+    allergies: findings.allergies.join('\n'),
+    age: text(findings.age),
+    sex: findings.sex ?? '',
+    history: findings.history ?? '',
+    notes: findings.notes ?? '',
+  };
+}
+
+// Readable summary of the findings. Sent as the request description so history
+// search, exports and older backends still see the whole picture.
+export function formatClinicalFindings(findings: ClinicalFindings): string {
+  const { vitals } = findings;
+  const vitalParts = [
+    vitals.heartRate !== undefined && `HR ${vitals.heartRate} bpm`,
+    vitals.bloodPressure &&
+      `BP ${vitals.bloodPressure.systolic}/${vitals.bloodPressure.diastolic} mmHg`,
+    vitals.spo2 !== undefined && `SpO2 ${vitals.spo2}%`,
+    vitals.temperature && `Temp ${vitals.temperature.value} °${vitals.temperature.unit}`,
+    vitals.respiratoryRate !== undefined && `RR ${vitals.respiratoryRate}/min`,
+  ].filter(Boolean);
+  const patient = [
+    findings.age !== undefined && `${findings.age} years`,
+    findings.sex && findings.sex !== 'unknown' && findings.sex,
+  ].filter(Boolean);
+  const course = [
+    findings.onset && `${findings.onset} onset`,
+    findings.duration && `for ${findings.duration.value} ${findings.duration.unit}`,
+  ].filter(Boolean);
+
+  return [
+    `Chief complaint: ${findings.chiefComplaint}`,
+    course.length > 0 && `Course: ${course.join(', ')}`,
+    patient.length > 0 && `Patient: ${patient.join(', ')}`,
+    vitalParts.length > 0 && `Vitals: ${vitalParts.join(', ')}`,
+    findings.medications.length > 0 && `Medications: ${findings.medications.join(', ')}`,
+    findings.allergies.length > 0 && `Allergies: ${findings.allergies.join(', ')}`,
+    findings.history && `History: ${findings.history}`,
+    findings.notes && `Notes: ${findings.notes}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
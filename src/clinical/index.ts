@@ -0,0 +1,16 @@
+export {
+  EMPTY_CLINICAL_FORM,
+  formatClinicalFindings,
+  toClinicalFindings,
+  toClinicalFormValues,
+} from './form';
+export type { ClinicalFormValues } from './form';
+export {
+  TEMPERATURE_RANGES,
+  VITAL_RANGES,
+  checkBloodPressure,
+  checkRange,
+  checkTemperature,
+  parseBloodPressure,
+  parseNumber,
+} from './vitals';
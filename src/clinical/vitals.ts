@@ -0,0 +1,62 @@
+import type { TemperatureUnit } from '../api';
+
+interface VitalRange {
+  min: number;
+  max: number;
+  unit: string;
+}
+
+// Plausible adult/paediatric limits; values outside are almost always typos
+export const VITAL_RANGES = {
+  heartRate: { min: 20, max: 300, unit: 'bpm' },
+  systolic: { min: 50, max: 300, unit: 'mmHg' },
+  diastolic: { min: 20, max: 200, unit: 'mmHg' },
+  spo2: { min: 50, max: 100, unit: '%' },
+  respiratoryRate: { min: 4, max: 80, unit: '/min' },
+  age: { min: 0, max: 130, unit: 'years' },
+} satisfies Record<string, VitalRange>;
+
+export const TEMPERATURE_RANGES: Record<TemperatureUnit, VitalRange> = {
+  C: { min: 25, max: 45, unit: '°C' },
+  F: { min: 77, max: 113, unit: '°F' },
+};
+
+// Form values are strings; an empty field is simply not recorded
+export const parseNumber = (text: string): number | undefined => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return undefined;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+// Error message for a measurement, or undefined when it is valid or empty
+export function checkRange(text: string, range: VitalRange, label: string): string | undefined {
+  const value = parseNumber(text);
+  if (value === undefined) return undefined;
+  if (Number.isNaN(value)) return `${label} must be a number`;
+  if (value < range.min || value > range.max) {
+    return `${label} must be ${range.min}-${range.max} ${range.unit}`;
+  }
+  return undefined;
+}
+
+// "120/80" -> systolic 120, diastolic 80
+export function parseBloodPressure(text: string): { systolic: number; diastolic: number } | null {
+  const match = /^\s*(\d{2,3})\s*\/\s*(\d{2,3})\s*$/.exec(text);
+  return match ? { systolic: Number(match[1]), diastolic: Number(match[2]) } : null;
+}
+
+export function checkBloodPressure(text: string): string | undefined {
+  if (!text.trim()) return undefined;
+  const pressure = parseBloodPressure(text);
+  if (!pressure) return 'Enter blood pressure as systolic/diastolic, e.g. 120/80';
+  return (
+    checkRange(String(pressure.systolic), VITAL_RANGES.systolic, 'Systolic') ??
+    checkRange(String(pressure.diastolic), VITAL_RANGES.diastolic, 'Diastolic') ??
+    (pressure.systolic <= pressure.diastolic ? 'Systolic must be higher than diastolic' : undefined)
+  );
+}
+
+// The range depends on the unit, so 38.5 °F or 101 °C are rejected
+export const checkTemperature = (text: string, unit: TemperatureUnit) =>
+  checkRange(text, TEMPERATURE_RANGES[unit], 'Temperature');
@@ -0,0 +1,276 @@
+import { useMemo } from 'react';
+import { motion } from 'motion/react';
+import { ArrowDown, ArrowRight, ArrowUp, Minus, Plus, X } from 'lucide-react';
+import { BodyOrganSvg } from './OrganSvg';
+import { buildOrganRows, type OrganRowData } from './OrganGridTable';
+import { applyAnnotations } from '../annotations';
+import type { AnalysisResult, Severity } from '../api';
+import type { HistoryEntry } from '../history';
+import { normalizeOrgans, resolveOrganLevels, type OrganKey } from '../organs';
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+const SEVERITY_TEXT = {
+  low: 'text-emerald-400',
+  medium: 'text-amber-400',
+  high: 'text-red-400',
+} as const;
+
+type OrganChangeKind = 'added' | 'removed' | 'worse' | 'better' | 'unchanged';
+
+export interface OrganChange {
+  organKey: OrganKey;
+  label: string;
+  color: string;
+  kind: OrganChangeKind;
+  before?: OrganRowData; // Row in the earlier analysis, if the organ was affected
+  after?: OrganRowData; // Row in the later analysis, if the organ is affected
+  confidenceDelta?: number;
+}
+
+export interface AnalysisDiff {
+  organs: OrganChange[]; // Affected in either analysis
+  severity: { before: Severity; after: Severity; change: number };
+  confidence: { before?: number; after?: number; delta?: number };
+  diagnosisChanged: boolean;
+  recommendations: { added: string[]; removed: string[]; kept: string[] };
+}
+
+// Organ rows of one analysis, the same rows OrganGridTable renders
+function rowsFor(result: AnalysisResult) {
+  return buildOrganRows({
+    highlightedKeys: normalizeOrgans(result.organs).keys,
+    organDetails: result.organDetails,
+    severityLevels: resolveOrganLevels(result.organs, result.organSeverity, result.severity),
+    confidenceLevels: resolveOrganLevels(result.organs, result.organConfidence),
+    analysisResult: result,
+  });
+}
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// What changed going from `before` to `after`, as corrected by the clinician
+export function compareAnalyses(
+  beforeResult: AnalysisResult,
+  afterResult: AnalysisResult
+): AnalysisDiff {
+  const before = applyAnnotations(beforeResult).result;
+  const after = applyAnnotations(afterResult).result;
+  const beforeRows = rowsFor(before);
+  const afterRows = rowsFor(after);
+
+  const organs = afterRows.flatMap<OrganChange>((afterRow, index) => {
+    const beforeRow = beforeRows[index];
+    if (!beforeRow.isHighlighted && !afterRow.isHighlighted) return [];
+
+    const { organKey, label, color } = afterRow;
+    if (!beforeRow.isHighlighted) return [{ organKey, label, color, kind: 'added', after: afterRow }];
+    if (!afterRow.isHighlighted) return [{ organKey, label, color, kind: 'removed', before: beforeRow }];
+
+    const rankChange =
+      SEVERITY_RANK[afterRow.severity ?? 'medium'] - SEVERITY_RANK[beforeRow.severity ?? 'medium'];
+    const confidenceDelta =
+      afterRow.confidence !== undefined && beforeRow.confidence !== undefined
+        ? afterRow.confidence - beforeRow.confidence
+        : undefined;
+
+    return [
+      {
+        organKey,
+        label,
+        color,
+        kind: rankChange > 0 ? 'worse' : rankChange < 0 ? 'better' : 'unchanged',
+        before: beforeRow,
+        after: afterRow,
+        confidenceDelta,
+      },
+    ];
+  });
+
+  const beforeRecommendations = new Map(before.recommendations.map((rec) => [normalizeText(rec), rec]));
+  const afterRecommendations = new Map(after.recommendations.map((rec) => [normalizeText(rec), rec]));
+
+  return {
+    organs,
+    severity: {
+      before: before.severity,
+      after: after.severity,
+      change: SEVERITY_RANK[after.severity] - SEVERITY_RANK[before.severity],
+    },
+    confidence: {
+      before: before.confidence,
+      after: after.confidence,
+      delta:
+        before.confidence !== undefined && after.confidence !== undefined
+          ? after.confidence - before.confidence
+          : undefined,
+    },
+    diagnosisChanged: normalizeText(before.diagnosis) !== normalizeText(after.diagnosis),
+    recommendations: {
+      added: [...afterRecommendations].filter(([key]) => !beforeRecommendations.has(key)).map(([, rec]) => rec),
+      removed: [...beforeRecommendations].filter(([key]) => !afterRecommendations.has(key)).map(([, rec]) => rec),
+      kept: [...afterRecommendations].filter(([key]) => beforeRecommendations.has(key)).map(([, rec]) => rec),
+    },
+  };
+}
+
+const CHANGE_STYLES: Record<OrganChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-cyan-500/15 text-cyan-300 border-cyan-500/30' },
+  removed: { label: 'Removed', className: 'bg-slate-500/15 text-slate-400 border-slate-500/30 line-through' },
+  worse: { label: 'Worse', className: 'bg-red-500/15 text-red-300 border-red-500/30' },
+  better: { label: 'Improved', className: 'bg-emerald-500/15 text-emerald-300 border-emerald-500/30' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-500/10 text-slate-300 border-slate-500/20' },
+};
+
+const formatDelta = (delta?: number) =>
+  delta === undefined ? '' : `${delta > 0 ? '+' : ''}${Math.round(delta)}%`;
+
+interface AnalysisComparisonProps {
+  before: HistoryEntry; // Earlier analysis
+  after: HistoryEntry; // Later analysis
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+export function AnalysisComparison({ before, after, onClose, isDarkMode }: AnalysisComparisonProps) {
+  const diff = useMemo(() => compareAnalyses(before.result, after.result), [before, after]);
+
+  const mutedText = isDarkMode ? 'text-slate-400' : 'text-slate-600';
+  const strongText = isDarkMode ? 'text-white' : 'text-slate-900';
+  const cardClass = `${isDarkMode ? 'bg-slate-900/80 border-slate-800' : 'bg-white/80 border-slate-200'} border rounded-xl`;
+
+  const renderSide = (entry: HistoryEntry, title: string) => {
+    const { result, provenance } = applyAnnotations(entry.result);
+    return (
+      <div className={`${cardClass} flex min-h-0 flex-1 flex-col p-4`}>
+        <div className="mb-2">
+          <p className={`text-xs uppercase tracking-wide ${mutedText}`}>
+            {title} · {new Date(entry.createdAt).toLocaleString()}
+          </p>
+          <p className={`truncate ${strongText}`}>{result.diagnosis}</p>
+          <p className={`text-xs ${SEVERITY_TEXT[result.severity]}`}>
+            {result.severity.toUpperCase()} SEVERITY
+            {result.confidence !== undefined && ` · ${result.confidence}% confidence`}
+          </p>
+        </div>
+        <div className="relative flex min-h-0 flex-1 items-center justify-center">
+          <BodyOrganSvg
+            highlightedOrgans={result.organs}
+            organDetails={result.organDetails}
+            severityLevels={resolveOrganLevels(result.organs, result.organSeverity, result.severity)}
+            confidenceLevels={resolveOrganLevels(result.organs, result.organConfidence)}
+            organProvenance={provenance}
+            isDarkMode={isDarkMode}
+            style={{ maxWidth: '340px', maxHeight: '62vh' }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const SeverityArrow = diff.severity.change > 0 ? ArrowUp : diff.severity.change < 0 ? ArrowDown : ArrowRight;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className={`flex h-full flex-col gap-4 p-6 ${isDarkMode ? 'bg-slate-950' : 'bg-slate-50'}`}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={`text-lg ${strongText}`}>Compare Analyses</h2>
+          <p className={`text-sm ${mutedText}`}>
+            {before.input.patientName || 'Unnamed patient'}
+            {after.input.patientName !== before.input.patientName &&
+              ` vs ${after.input.patientName || 'Unnamed patient'}`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className={`flex items-center gap-2 px-4 py-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'} text-sm rounded-lg transition-colors`}
+        >
+          <X className="w-4 h-4" />
+          Exit Comparison
+        </button>
+      </div>
+
+      <div className="flex min-h-0 flex-1 gap-4">
+        {renderSide(before, 'Before')}
+        {renderSide(after, 'After')}
+
+        {/* Diff */}
+        <div className={`${cardClass} w-80 flex-shrink-0 overflow-y-auto p-4 space-y-5`}>
+          <div>
+            <p className={`text-xs mb-2 ${mutedText}`}>Overall</p>
+            <div className={`flex items-center gap-2 text-sm ${strongText}`}>
+              <span className={SEVERITY_TEXT[diff.severity.before]}>{diff.severity.before.toUpperCase()}</span>
+              <SeverityArrow className="w-4 h-4" />
+              <span className={SEVERITY_TEXT[diff.severity.after]}>{diff.severity.after.toUpperCase()}</span>
+            </div>
+            {diff.confidence.delta !== undefined && (
+              <p className={`text-xs mt-1 ${mutedText}`}>
+                Confidence {diff.confidence.before}% → {diff.confidence.after}% ({formatDelta(diff.confidence.delta)})
+              </p>
+            )}
+            {diff.diagnosisChanged && (
+              <p className="text-xs mt-1 text-amber-400">Primary diagnosis changed</p>
+            )}
+          </div>
+
+          <div>
+            <p className={`text-xs mb-2 ${mutedText}`}>Organs</p>
+            <div className="space-y-1.5">
+              {diff.organs.map((change) => {
+                const style = CHANGE_STYLES[change.kind];
+                return (
+                  <div
+                    key={change.organKey}
+                    className={`flex items-center gap-2 rounded-lg border px-2.5 py-1.5 text-xs ${style.className}`}
+                    data-organ={change.organKey}
+                    data-change={change.kind}
+                  >
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: change.color }} />
+                    <span className="flex-1">{change.label}</span>
+                    {change.before?.severity && change.after?.severity && change.kind !== 'unchanged' && (
+                      <span className="uppercase">
+                        {change.before.severity} → {change.after.severity}
+                      </span>
+                    )}
+                    {change.confidenceDelta !== undefined && change.confidenceDelta !== 0 && (
+                      <span>{formatDelta(change.confidenceDelta)}</span>
+                    )}
+                    <span className="font-semibold">{style.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <p className={`text-xs mb-2 ${mutedText}`}>Recommendations</p>
+            <ul className="space-y-1.5 text-xs">
+              {diff.recommendations.added.map((rec) => (
+                <li key={`added-${rec}`} className="flex gap-2 text-cyan-300">
+                  <Plus className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                  {rec}
+                </li>
+              ))}
+              {diff.recommendations.removed.map((rec) => (
+                <li key={`removed-${rec}`} className={`flex gap-2 line-through ${mutedText}`}>
+                  <Minus className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                  {rec}
+                </li>
+              ))}
+              {diff.recommendations.kept.map((rec) => (
+                <li key={`kept-${rec}`} className={`flex gap-2 ${mutedText}`}>
+                  <span className="w-3.5 flex-shrink-0 text-center">·</span>
+                  {rec}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
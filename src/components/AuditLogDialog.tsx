@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { FileJson, FileSpreadsheet, Loader2, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import {
+  appendAuditEntry,
+  downloadAuditLog,
+  listAuditEntries,
+  verifyAuditChain,
+  type AuditEntry,
+  type AuditVerification,
+} from '../audit';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface AuditLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actor: string; // Recorded as the clinician who exported the log
+}
+
+const ACTION_GROUPS = [
+  { id: 'all', label: 'All' },
+  { id: 'analysis', label: 'Analyses' },
+  { id: 'export', label: 'Exports' },
+  { id: 'history', label: 'History' },
+  { id: 'workspace', label: 'Workspace' },
+  { id: 'audit', label: 'Audit' },
+] as const;
+
+type ActionGroup = (typeof ACTION_GROUPS)[number]['id'];
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+
+const formatDetails = (details: AuditEntry['details']) =>
+  Object.entries(details)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join(' · ');
+
+// Read-only view of the audit log, verified against its hash chain every time it opens
+export function AuditLogDialog({ open, onOpenChange, actor }: AuditLogDialogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [group, setGroup] = useState<ActionGroup>('all');
+
+  const load = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const loaded = await listAuditEntries();
+      setEntries(loaded);
+      setVerification(await verifyAuditChain(loaded));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      setLoadError(error instanceof Error ? error : new Error(String(error)));
+      setVerification(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+  }, [open]);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    if (!verification) return;
+    downloadAuditLog(entries, verification, format);
+    try {
+      await appendAuditEntry({
+        action: 'audit.exported',
+        actor,
+        details: { format, entries: entries.length, verified: verification.valid },
+      });
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+      toast.error('Could not write to the audit log', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+    load();
+  };
+
+  const shown = (group === 'all' ? entries : entries.filter((entry) => entry.action.startsWith(`${group}.`)))
+    .slice()
+    .reverse();
+  const isBroken = (entry: AuditEntry) =>
+    verification?.brokenAt !== undefined && entry.seq >= verification.brokenAt;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="flex flex-col"
+        style={{ maxWidth: 'min(64rem, calc(100% - 2rem))', maxHeight: '85vh' }}
+      >
+        <DialogHeader>
+          <DialogTitle>Audit Log</DialogTitle>
+          <DialogDescription>
+            Analyses, exports and history changes on this device. Entries cannot be edited; each one
+            is hashed together with the one before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Integrity status */}
+        {loadError ? (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            <ShieldAlert className="w-4 h-4 shrink-0" />
+            Audit log is unavailable: {loadError.message}
+          </div>
+        ) : verification?.valid ? (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm">
+            <ShieldCheck className="w-4 h-4 shrink-0" />
+            Chain intact: {verification.checked} {verification.checked === 1 ? 'entry' : 'entries'} verified
+          </div>
+        ) : verification ? (
+          <div
+            role="alert"
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm"
+          >
+            <ShieldAlert className="w-4 h-4 shrink-0" />
+            Chain broken at entry {verification.brokenAt}: {verification.reason}. Entries from this
+            point on may have been altered.
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {ACTION_GROUPS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setGroup(id)}
+              aria-pressed={group === id}
+              className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                group === id ? 'bg-cyan-500/20 text-cyan-400' : 'text-muted-foreground hover:bg-accent'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          <div className="flex items-center gap-2 ml-auto">
+            <button
+              onClick={load}
+              disabled={isLoading}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs hover:bg-accent disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              Verify again
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={!verification || isLoading}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs bg-accent hover:opacity-80 disabled:opacity-50"
+            >
+              <FileJson className="w-3.5 h-3.5" />
+              Export JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={!verification || isLoading}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs bg-accent hover:opacity-80 disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-3.5 h-3.5" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {shown.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {isLoading ? 'Loading…' : 'No entries recorded yet.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Clinician</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Hash</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((entry) => (
+                  <TableRow key={entry.seq} className={isBroken(entry) ? 'bg-red-500/10' : undefined}>
+                    <TableCell>{entry.seq}</TableCell>
+                    <TableCell>{formatTime(entry.timestamp)}</TableCell>
+                    <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                    <TableCell>{entry.actor || '—'}</TableCell>
+                    <TableCell>{entry.patient || '—'}</TableCell>
+                    <TableCell className="max-w-xs whitespace-normal text-xs text-muted-foreground">
+                      {formatDetails(entry.details) || '—'}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground" title={entry.hash}>
+                      {entry.hash.slice(0, 12)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
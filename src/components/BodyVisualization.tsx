@@ -1,11 +1,13 @@
+import { normalizeOrgans, type OrganKey } from '../organs';
+
 interface BodyVisualizationProps {
   highlightedOrgans: string[];
   diagnosis?: string;
 }
 
 export function BodyVisualization({ highlightedOrgans, diagnosis }: BodyVisualizationProps) {
-  const isHighlighted = (organ: string) => 
-    highlightedOrgans.some(h => h.toLowerCase().includes(organ.toLowerCase()));
+  const highlightedKeys = normalizeOrgans(highlightedOrgans).keys;
+  const isHighlighted = (organKey: OrganKey) => highlightedKeys.includes(organKey);
 
   return (
     <div>
@@ -44,7 +46,7 @@ export function BodyVisualization({ highlightedOrgans, diagnosis }: BodyVisualiz
           {/* Throat/Sinuses */}
           <g>
             <rect x="140" y="85" width="20" height="25" fill="#ff9999" opacity="0.7" rx="3" />
-            {isHighlighted('throat') || isHighlighted('sinus') && (
+            {(isHighlighted('throat') || isHighlighted('sinuses')) && (
               <>
                 <circle cx="190" cy="95" r="12" fill="#60a5fa" />
                 <path d="M 185 95 L 195 95 M 190 90 L 190 100" stroke="white" strokeWidth="2" />
@@ -71,7 +73,7 @@ export function BodyVisualization({ highlightedOrgans, diagnosis }: BodyVisualiz
           <g>
             <ellipse cx="125" cy="150" rx="18" ry="35" fill="#6ab5db" opacity="0.7" />
             <ellipse cx="175" cy="150" rx="18" ry="35" fill="#6ab5db" opacity="0.7" />
-            {isHighlighted('lung') && (
+            {isHighlighted('lungs') && (
               <>
                 <circle cx="210" cy="150" r="12" fill="#60a5fa" />
                 <path d="M 205 150 L 215 150 M 210 145 L 210 155" stroke="white" strokeWidth="2" />
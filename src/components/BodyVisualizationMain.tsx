@@ -1,11 +1,30 @@
-import { motion } from 'motion/react';
+import { motion, useReducedMotion } from 'motion/react';
 import { BodyOrganSvg } from './OrganSvg';
+import { SeverityIcon } from './SeverityIcon';
+import { usePinchZoom } from './usePinchZoom';
+import type { OrganProvenanceMap } from '../annotations';
+import type { OrganAgreementMap } from '../consensus';
+import { BODY_VIEWS, BODY_VIEW_IDS, type BodyViewId, type OrganKey } from '../organs';
+
+// Legend swatch for the hatching of organs only some consensus engines flagged
+const HATCH_SWATCH = 'repeating-linear-gradient(45deg, #94a3b8 0 3px, transparent 3px 6px)';
 
 interface BodyVisualizationMainProps {
   highlightedOrgans: string[];
   organDetails?: Record<string, string>; // Organ-specific issue details
   isAnalyzing: boolean;
+  attempt?: { current: number; max: number } | null; // Request attempt while analyzing
   severity?: 'low' | 'medium' | 'high';
+  severityLevels?: Partial<Record<OrganKey, 'low' | 'medium' | 'high'>>; // Per-organ severity
+  confidenceLevels?: Partial<Record<OrganKey, number>>; // Per-organ confidence
+  selectedOrgan?: OrganKey | null;
+  onSelectOrgan?: (organKey: OrganKey) => void;
+  isAnnotating?: boolean; // Clicking any organ toggles it instead of opening details
+  organProvenance?: OrganProvenanceMap;
+  organAgreement?: OrganAgreementMap; // Consensus results only
+  view: BodyViewId;
+  onViewChange: (view: BodyViewId) => void;
+  isCompact?: boolean; // Small screens: view switcher in a row, narrower figure
   isDarkMode: boolean;
   captureRef?: React.RefObject<HTMLDivElement>;
 }
@@ -14,10 +33,24 @@ export function BodyVisualizationMain({
   highlightedOrgans,
   organDetails,
   isAnalyzing,
+  attempt,
   severity,
+  severityLevels,
+  confidenceLevels,
+  selectedOrgan,
+  onSelectOrgan,
+  isAnnotating = false,
+  organProvenance,
+  organAgreement,
+  view,
+  onViewChange,
+  isCompact = false,
   isDarkMode,
   captureRef,
 }: BodyVisualizationMainProps) {
+  const pinchZoom = usePinchZoom();
+  const reduceMotion = useReducedMotion();
+
   const getSeverityColor = () => {
     if (!severity) return '#64748b';
     switch (severity) {
@@ -31,7 +64,8 @@ export function BodyVisualizationMain({
   return (
     <div
       ref={captureRef}
-      className={`h-full flex items-center justify-center relative ${isDarkMode ? 'bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900' : 'bg-gradient-to-br from-slate-100 via-slate-50 to-slate-100'}`}
+      data-visualization-stage
+      className={`h-full flex items-center justify-center relative overflow-hidden ${isDarkMode ? 'bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900' : 'bg-gradient-to-br from-slate-100 via-slate-50 to-slate-100'}`}
     >
       {/* Background Grid */}
       <div className="absolute inset-0 opacity-20">
@@ -43,43 +77,152 @@ export function BodyVisualizationMain({
         />
       </div>
 
+      {/* View switcher; the active view is captioned under the figure for exports */}
+      <div
+        role="group"
+        aria-label="Body view"
+        data-html2canvas-ignore
+        className={`absolute z-20 flex gap-1 p-1 rounded-xl border backdrop-blur-sm ${isCompact ? 'top-3 left-3 right-3 overflow-x-auto' : 'top-6 left-6 flex-col'} ${isDarkMode ? 'bg-slate-800/90 border-slate-700' : 'bg-white/90 border-slate-300'}`}
+      >
+        {BODY_VIEW_IDS.map((viewId) => (
+          <button
+            key={viewId}
+            type="button"
+            aria-pressed={viewId === view}
+            onClick={() => onViewChange(viewId)}
+            className={`px-3 rounded-lg text-xs text-left whitespace-nowrap transition-colors ${isCompact ? 'py-2.5' : 'py-1'} ${
+              viewId === view
+                ? 'bg-cyan-500/20 text-cyan-300'
+                : isDarkMode
+                  ? 'text-slate-400 hover:text-white hover:bg-slate-700/60'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'
+            } ${viewId === 'posterior' && !isCompact ? 'mb-1' : ''}`}
+          >
+            {BODY_VIEWS[viewId].label}
+          </button>
+        ))}
+      </div>
+
+      {isAnnotating && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20" data-html2canvas-ignore>
+          <div className="px-4 py-2 bg-cyan-500/15 border border-cyan-500/40 text-cyan-300 backdrop-blur-sm rounded-full text-xs">
+            Annotation mode — click an organ to add or remove it
+          </div>
+        </div>
+      )}
+
       {/* Analyzing Pulse Effect */}
       {isAnalyzing && (
         <div className="absolute inset-0 flex items-center justify-center">
           <motion.div
             className="w-[600px] h-[600px] rounded-full border-2 border-cyan-500"
-            animate={{
-              scale: [1, 1.5, 1],
-              opacity: [0.5, 0.1, 0.5],
-            }}
-            transition={{
-              duration: 2,
-              repeat: Infinity,
-              ease: "easeInOut"
-            }}
+            animate={
+              reduceMotion
+                ? { opacity: 0.3 }
+                : {
+                    scale: [1, 1.5, 1],
+                    opacity: [0.5, 0.1, 0.5],
+                  }
+            }
+            transition={
+              reduceMotion
+                ? { duration: 0 }
+                : {
+                    duration: 2,
+                    repeat: Infinity,
+                    ease: "easeInOut"
+                  }
+            }
           />
+          {attempt && (
+            <div className="absolute top-8 left-1/2 -translate-x-1/2 z-20">
+              <div className={`px-4 py-2 ${isDarkMode ? 'bg-slate-800/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-300 text-slate-700'} backdrop-blur-sm rounded-full border text-xs`}>
+                {attempt.current > 1
+                  ? `Retrying — attempt ${attempt.current} of ${attempt.max}`
+                  : `Analyzing — attempt ${attempt.current} of ${attempt.max}`}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
-      <div className="relative z-10 flex flex-col items-center">
-        <BodyOrganSvg
-          highlightedOrgans={highlightedOrgans}
-          organDetails={organDetails}
-          isDarkMode={isDarkMode}
-          className="drop-shadow-2xl"
-          style={{ maxWidth: '450px', maxHeight: '85vh' }}
-        />
+      {pinchZoom.isZoomed && (
+        <button
+          type="button"
+          onClick={pinchZoom.reset}
+          data-html2canvas-ignore
+          className={`absolute bottom-4 right-4 z-20 px-4 py-2.5 rounded-full border text-xs backdrop-blur-sm ${isDarkMode ? 'bg-slate-800/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-300 text-slate-700'}`}
+        >
+          Reset zoom
+        </button>
+      )}
+
+      <div
+        className={`relative z-10 flex flex-col items-center ${isCompact ? 'mt-14' : ''}`}
+        {...pinchZoom.handlers}
+        style={{ touchAction: pinchZoom.touchAction }}
+      >
+        <div style={pinchZoom.style}>
+          <BodyOrganSvg
+            highlightedOrgans={highlightedOrgans}
+            organDetails={organDetails}
+            severityLevels={severityLevels}
+            confidenceLevels={confidenceLevels}
+            selectedOrgan={selectedOrgan}
+            onSelectOrgan={onSelectOrgan}
+            showAllOrgans={isAnnotating}
+            organProvenance={organProvenance}
+            organAgreement={organAgreement}
+            view={view}
+            isDarkMode={isDarkMode}
+            className="drop-shadow-2xl"
+            // On small screens leave room either side for the organ cards
+            style={{ maxWidth: '450px', maxHeight: '85vh', width: isCompact ? '56vw' : undefined }}
+          />
+        </div>
+
+        <p className="mt-2 text-xs uppercase tracking-wide text-slate-500">
+          {BODY_VIEWS[view].system ? `${BODY_VIEWS[view].label} system` : `${BODY_VIEWS[view].label} view`}
+        </p>
+
+        {organAgreement && Object.keys(organAgreement).length > 0 && (
+          <p className="mt-1 flex items-center gap-3 text-xs text-slate-500">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm bg-slate-400" aria-hidden="true" />
+              All engines
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span
+                className="w-3 h-3 rounded-sm"
+                style={{ background: HATCH_SWATCH }}
+                aria-hidden="true"
+              />
+              Half or more
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span
+                className="w-3 h-3 rounded-sm opacity-50"
+                style={{ background: HATCH_SWATCH }}
+                aria-hidden="true"
+              />
+              Fewer than half
+            </span>
+          </p>
+        )}
 
         {/* Status Indicator */}
         {highlightedOrgans.length > 0 && !isAnalyzing && (
           <motion.div
-            initial={{ opacity: 0, y: 20 }}
+            initial={reduceMotion ? false : { opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="mt-10 text-center"
           >
             <div className={`px-6 py-3 ${isDarkMode ? 'bg-slate-800/90' : 'bg-white/90'} backdrop-blur-sm rounded-full border ${isDarkMode ? 'border-slate-700' : 'border-slate-300'}`}>
-              <p className={`text-sm ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
-                <span style={{ color: getSeverityColor() }}>●</span> {highlightedOrgans.length} organ(s) affected
+              <p className={`flex items-center gap-1.5 text-sm ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                <span style={{ color: getSeverityColor() }}>
+                  {severity ? <SeverityIcon severity={severity} className="w-4 h-4" /> : <span aria-hidden="true">●</span>}
+                </span>
+                {highlightedOrgans.length} organ(s) affected{severity && ` · ${severity} severity`}
               </p>
             </div>
           </motion.div>
@@ -98,6 +241,7 @@ interface OrganComponentProps {
 }
 
 function OrganComponent({ highlighted, color, position, label, children }: OrganComponentProps) {
+  const reduceMotion = useReducedMotion();
   return (
     <g className={highlighted ? 'cursor-pointer' : ''}>
       {children}
@@ -115,10 +259,14 @@ function OrganComponent({ highlighted, color, position, label, children }: Organ
             r="20"
             fill={color}
             opacity="0.3"
-            animate={{
-              scale: [1, 1.5, 1],
-              opacity: [0.3, 0, 0.3],
-            }}
+            animate={
+              reduceMotion
+                ? undefined
+                : {
+                    scale: [1, 1.5, 1],
+                    opacity: [0.3, 0, 0.3],
+                  }
+            }
             transition={{
               duration: 2,
               repeat: Infinity,
@@ -0,0 +1,317 @@
+import { useFormContext, type FieldPath } from "react-hook-form@7.55.0";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import {
+  VITAL_RANGES,
+  checkBloodPressure,
+  checkRange,
+  checkTemperature,
+  type ClinicalFormValues,
+} from "../clinical";
+
+interface ClinicalInputFormProps {
+  disabled?: boolean;
+  isDarkMode: boolean;
+}
+
+// Structured clinical fields. Rendered inside InputPanel's <Form>, which owns
+// the react-hook-form instance and submits the values.
+export function ClinicalInputForm({
+  disabled = false,
+  isDarkMode,
+}: ClinicalInputFormProps) {
+  const form = useFormContext<ClinicalFormValues>();
+
+  const fieldClass = `${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder:text-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder:text-slate-400"} focus-visible:ring-cyan-500/50`;
+  const labelClass = `text-xs ${isDarkMode ? "text-slate-300" : "text-slate-700"}`;
+  const sectionClass = `text-xs uppercase tracking-wide ${isDarkMode ? "text-slate-500" : "text-slate-500"}`;
+  const messageClass = "text-xs text-red-400";
+
+  const asError = (message?: string) => message ?? true;
+
+  const numberField = (
+    name: FieldPath<ClinicalFormValues>,
+    label: string,
+    range: (typeof VITAL_RANGES)[keyof typeof VITAL_RANGES],
+    placeholder: string,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      rules={{
+        validate: (value) => asError(checkRange(String(value), range, label)),
+      }}
+      render={({ field }) => (
+        <FormItem className="gap-1.5">
+          <FormLabel className={labelClass}>
+            {label} <span className="opacity-60">({range.unit})</span>
+          </FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              inputMode="decimal"
+              placeholder={placeholder}
+              disabled={disabled}
+              className={fieldClass}
+            />
+          </FormControl>
+          <FormMessage className={messageClass} />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-5">
+      <FormField
+        control={form.control}
+        name="chiefComplaint"
+        rules={{
+          validate: (value) =>
+            value.trim() ? true : "Chief complaint is required",
+        }}
+        render={({ field }) => (
+          <FormItem className="gap-1.5">
+            <FormLabel className={labelClass}>Chief Complaint</FormLabel>
+            <FormControl>
+              <Input
+                {...field}
+                placeholder="e.g. Productive cough and fever"
+                disabled={disabled}
+                className={fieldClass}
+              />
+            </FormControl>
+            <FormMessage className={messageClass} />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-3 gap-3">
+        <FormField
+          control={form.control}
+          name="onset"
+          render={({ field }) => (
+            <FormItem className="gap-1.5">
+              <FormLabel className={labelClass}>Onset</FormLabel>
+              <FormControl>
+                <select
+                  {...field}
+                  disabled={disabled}
+                  className={`h-9 rounded-md border px-2 text-sm ${fieldClass}`}
+                >
+                  <option value="">Unknown</option>
+                  <option value="sudden">Sudden</option>
+                  <option value="gradual">Gradual</option>
+                </select>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="durationValue"
+          rules={{
+            validate: (value) =>
+              asError(
+                checkRange(
+                  value,
+                  { min: 0, max: 1000, unit: "" },
+                  "Duration",
+                ),
+              ),
+          }}
+          render={({ field }) => (
+            <FormItem className="gap-1.5">
+              <FormLabel className={labelClass}>Duration</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  inputMode="decimal"
+                  placeholder="3"
+                  disabled={disabled}
+                  className={fieldClass}
+                />
+              </FormControl>
+              <FormMessage className={messageClass} />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="durationUnit"
+          render={({ field }) => (
+            <FormItem className="gap-1.5 self-start">
+              <FormLabel className={labelClass}>&nbsp;</FormLabel>
+              <FormControl>
+                <select
+                  {...field}
+                  disabled={disabled}
+                  aria-label="Duration unit"
+                  className={`h-9 rounded-md border px-2 text-sm ${fieldClass}`}
+                >
+                  <option value="hours">Hours</option>
+                  <option value="days">Days</option>
+                  <option value="weeks">Weeks</option>
+                  <option value="months">Months</option>
+                  <option value="years">Years</option>
+                </select>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <p className={sectionClass}>Vitals</p>
+        <div className="grid grid-cols-2 gap-3">
+          {numberField("heartRate", "Heart Rate", VITAL_RANGES.heartRate, "72")}
+          <FormField
+            control={form.control}
+            name="bloodPressure"
+            rules={{
+              validate: (value) => asError(checkBloodPressure(value)),
+            }}
+            render={({ field }) => (
+              <FormItem className="gap-1.5">
+                <FormLabel className={labelClass}>
+                  Blood Pressure <span className="opacity-60">(mmHg)</span>
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    placeholder="120/80"
+                    disabled={disabled}
+                    className={fieldClass}
+                  />
+                </FormControl>
+                <FormMessage className={messageClass} />
+              </FormItem>
+            )}
+          />
+          {numberField("spo2", "SpO2", VITAL_RANGES.spo2, "98")}
+          {numberField(
+            "respiratoryRate",
+            "Resp. Rate",
+            VITAL_RANGES.respiratoryRate,
+            "16",
+          )}
+          <FormField
+            control={form.control}
+            name="temperature"
+            rules={{
+              validate: (value, values) =>
+                asError(checkTemperature(value, values.temperatureUnit)),
+            }}
+            render={({ field }) => (
+              <FormItem className="col-span-2 gap-1.5">
+                <FormLabel className={labelClass}>Temperature</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      {...field}
+                      inputMode="decimal"
+                      placeholder={
+                        form.watch("temperatureUnit") === "F"
+                          ? "98.6"
+                          : "37.0"
+                      }
+                      disabled={disabled}
+                      className={fieldClass}
+                    />
+                  </FormControl>
+                  <FormField
+                    control={form.control}
+                    name="temperatureUnit"
+                    render={({ field: unitField }) => (
+                      <select
+                        {...unitField}
+                        onChange={(e) => {
+                          unitField.onChange(e);
+                          // The valid range moves with the unit
+                          if (form.getValues("temperature")) {
+                            void form.trigger("temperature");
+                          }
+                        }}
+                        disabled={disabled}
+                        aria-label="Temperature unit"
+                        className={`h-9 w-20 rounded-md border px-2 text-sm ${fieldClass}`}
+                      >
+                        <option value="C">°C</option>
+                        <option value="F">°F</option>
+                      </select>
+                    )}
+                  />
+                </div>
+                <FormMessage className={messageClass} />
+              </FormItem>
+            )}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <p className={sectionClass}>Patient</p>
+        <div className="grid grid-cols-2 gap-3">
+          {numberField("age", "Age", VITAL_RANGES.age, "45")}
+          <FormField
+            control={form.control}
+            name="sex"
+            render={({ field }) => (
+              <FormItem className="gap-1.5">
+                <FormLabel className={labelClass}>Sex</FormLabel>
+                <FormControl>
+                  <select
+                    {...field}
+                    disabled={disabled}
+                    className={`h-9 rounded-md border px-2 text-sm ${fieldClass}`}
+                  >
+                    <option value="">Not specified</option>
+                    <option value="female">Female</option>
+                    <option value="male">Male</option>
+                    <option value="other">Other</option>
+                    <option value="unknown">Unknown</option>
+                  </select>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+        {(
+          [
+            ["medications", "Current Medications", "One per line, e.g. Metformin 500 mg BID"],
+            ["allergies", "Allergies", "One per line, e.g. Penicillin"],
+            ["history", "Medical History", "Past conditions, surgeries, family history..."],
+            ["notes", "Additional Notes", "Anything else relevant"],
+          ] as const
+        ).map(([name, label, placeholder]) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem className="gap-1.5">
+                <FormLabel className={labelClass}>{label}</FormLabel>
+                <FormControl>
+                  <Textarea
+                    {...field}
+                    rows={2}
+                    placeholder={placeholder}
+                    disabled={disabled}
+                    className={fieldClass}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
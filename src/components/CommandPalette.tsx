@@ -0,0 +1,222 @@
+import {
+  Download,
+  Eye,
+  FileDown,
+  FileJson,
+  FilePlus,
+  FileText,
+  History,
+  Moon,
+  RotateCcw,
+  ScrollText,
+  Send,
+  Stethoscope,
+  Sun,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from './ui/command';
+import type { HistoryEntry } from '../history';
+import {
+  BODY_VIEWS,
+  BODY_VIEW_IDS,
+  ORGAN_REGISTRY,
+  type BodyViewId,
+  type OrganKey,
+} from '../organs';
+import { SHORTCUTS, formatShortcut, viewShortcut, type Shortcut } from '../shortcuts';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNewAnalysis: () => void;
+  onRunAnalysis?: () => void; // Unset while the input panel is closed or an analysis is running
+  onClear: () => void;
+  showInput: boolean;
+  onToggleInput: () => void;
+  isDarkMode: boolean;
+  onToggleTheme: () => void;
+  showHistory: boolean;
+  onToggleHistory: () => void;
+  // Unset while there is no finished result to export
+  onSaveImage?: () => void;
+  onExportPdf?: () => void;
+  onExportFhir?: () => void;
+  affectedOrgans: OrganKey[];
+  onShowOrgan: (organKey: OrganKey) => void;
+  view: BodyViewId;
+  onViewChange: (view: BodyViewId) => void;
+  historyEntries: HistoryEntry[];
+  onRestore: (entry: HistoryEntry) => void;
+  onOpenAuditLog: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Ctrl+K / ⌘K palette: every workspace action, searchable, with its shortcut
+export function CommandPalette({
+  open,
+  onOpenChange,
+  onNewAnalysis,
+  onRunAnalysis,
+  onClear,
+  showInput,
+  onToggleInput,
+  isDarkMode,
+  onToggleTheme,
+  showHistory,
+  onToggleHistory,
+  onSaveImage,
+  onExportPdf,
+  onExportFhir,
+  affectedOrgans,
+  onShowOrgan,
+  view,
+  onViewChange,
+  historyEntries,
+  onRestore,
+  onOpenAuditLog,
+}: CommandPaletteProps) {
+  // Close first so focus returns to the page before the action moves it
+  const run = (action: () => void) => () => {
+    onOpenChange(false);
+    action();
+  };
+
+  const shortcut = (keys: Shortcut) => <CommandShortcut>{formatShortcut(keys)}</CommandShortcut>;
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command Palette"
+      description="Search for an action, organ, body view or saved analysis"
+    >
+      <CommandInput placeholder="Type a command or search..." />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+
+        <CommandGroup heading="Analysis">
+          <CommandItem onSelect={run(onNewAnalysis)}>
+            <FilePlus />
+            New analysis
+            {shortcut(SHORTCUTS.newAnalysis)}
+          </CommandItem>
+          <CommandItem disabled={!onRunAnalysis} onSelect={run(() => onRunAnalysis?.())}>
+            <Send />
+            Run analysis
+            {shortcut(SHORTCUTS.runAnalysis)}
+          </CommandItem>
+          <CommandItem onSelect={run(onClear)}>
+            <RotateCcw />
+            Clear
+            {shortcut(SHORTCUTS.clear)}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Workspace">
+          <CommandItem onSelect={run(onToggleInput)}>
+            <FileText />
+            {showInput ? 'Hide input panel' : 'Show input panel'}
+            {shortcut(SHORTCUTS.toggleInput)}
+          </CommandItem>
+          <CommandItem onSelect={run(onToggleHistory)}>
+            <History />
+            {showHistory ? 'Hide history' : 'Show history'}
+            {shortcut(SHORTCUTS.toggleHistory)}
+          </CommandItem>
+          <CommandItem onSelect={run(onOpenAuditLog)}>
+            <ScrollText />
+            Open audit log
+          </CommandItem>
+          <CommandItem onSelect={run(onToggleTheme)}>
+            {isDarkMode ? <Sun /> : <Moon />}
+            {isDarkMode ? 'Switch to light theme' : 'Switch to dark theme'}
+            {shortcut(SHORTCUTS.toggleTheme)}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Export">
+          <CommandItem disabled={!onSaveImage} onSelect={run(() => onSaveImage?.())}>
+            <Download />
+            Save image (PNG)
+            {shortcut(SHORTCUTS.exportImage)}
+          </CommandItem>
+          <CommandItem disabled={!onExportPdf} onSelect={run(() => onExportPdf?.())}>
+            <FileDown />
+            Export PDF report
+            {shortcut(SHORTCUTS.exportPdf)}
+          </CommandItem>
+          <CommandItem disabled={!onExportFhir} onSelect={run(() => onExportFhir?.())}>
+            <FileJson />
+            Export FHIR bundle
+            {shortcut(SHORTCUTS.exportFhir)}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Body View">
+          {BODY_VIEW_IDS.map((viewId, index) => (
+            <CommandItem
+              key={viewId}
+              value={`view ${BODY_VIEWS[viewId].label}`}
+              onSelect={run(() => onViewChange(viewId))}
+            >
+              <Eye />
+              {BODY_VIEWS[viewId].label} {BODY_VIEWS[viewId].system ? 'system' : 'view'}
+              {viewId === view && <span className="text-xs text-muted-foreground">(current)</span>}
+              {shortcut(viewShortcut(index))}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        {affectedOrgans.length > 0 && (
+          <CommandGroup heading="Organ Details">
+            {affectedOrgans.map((organKey) => {
+              const organ = ORGAN_REGISTRY[organKey];
+              return (
+                <CommandItem
+                  key={organKey}
+                  value={`organ ${organ.label}`}
+                  keywords={[...organ.synonyms]}
+                  onSelect={run(() => onShowOrgan(organKey))}
+                >
+                  <Stethoscope />
+                  {organ.label}
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {historyEntries.length > 0 && (
+          <CommandGroup heading="History">
+            {historyEntries.map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`history ${entry.id}`}
+                keywords={[entry.input.patientName, entry.result.diagnosis]}
+                onSelect={run(() => onRestore(entry))}
+              >
+                <History />
+                <span className="truncate">{entry.result.diagnosis}</span>
+                <span className="ml-auto truncate text-xs text-muted-foreground">
+                  {entry.input.patientName || 'Unnamed patient'} · {formatDate(entry.createdAt)}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
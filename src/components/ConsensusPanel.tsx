@@ -0,0 +1,79 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ENGINES, type ConsensusSummary } from '../api';
+import { isSameDiagnosis } from '../consensus';
+import { ORGAN_REGISTRY, normalizeOrgans } from '../organs';
+import { SeverityIcon } from './SeverityIcon';
+
+interface ConsensusPanelProps {
+  consensus: ConsensusSummary;
+  diagnosis: string; // The merged diagnosis, to mark which engines gave it
+  isCompact?: boolean; // Small screens: one engine under another
+  isDarkMode: boolean;
+}
+
+// Every engine's own answer in a consensus analysis, side by side
+export function ConsensusPanel({ consensus, diagnosis, isCompact = false, isDarkMode }: ConsensusPanelProps) {
+  const { answers } = consensus;
+  const answered = answers.filter((answer) => answer.result).length;
+  const mutedText = isDarkMode ? 'text-slate-400' : 'text-slate-600';
+  const bodyText = isDarkMode ? 'text-slate-300' : 'text-slate-700';
+
+  return (
+    <div>
+      <p className={`text-xs mb-3 ${mutedText}`}>
+        Engine Answers · {consensus.diagnosisVotes} of {answered} agree on the diagnosis
+      </p>
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-3"
+          style={{
+            gridTemplateColumns: isCompact ? '1fr' : `repeat(${answers.length}, minmax(12rem, 1fr))`,
+          }}
+        >
+          {answers.map(({ engine, result, error }) => (
+            <section
+              key={engine}
+              aria-label={ENGINES[engine].label}
+              className={`rounded-lg border p-3 space-y-2 ${isDarkMode ? 'border-slate-800 bg-slate-800/40' : 'border-slate-200 bg-slate-50'}`}
+            >
+              <p className="text-xs font-semibold text-cyan-400">{ENGINES[engine].label}</p>
+              {!result ? (
+                <p className="flex items-start gap-1.5 text-xs text-red-400">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+                  {error ?? 'No answer'}
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <p className={`text-sm ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>{result.diagnosis}</p>
+                    <p className={`flex items-center gap-1.5 mt-1 text-xs ${mutedText}`}>
+                      <SeverityIcon severity={result.severity} className="w-3 h-3" />
+                      {result.severity} severity
+                      {result.confidence !== undefined && ` · ${result.confidence}% confidence`}
+                    </p>
+                    {isSameDiagnosis(result.diagnosis, diagnosis) && (
+                      <p className="flex items-center gap-1 mt-1 text-xs text-emerald-400">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Matches the consensus
+                      </p>
+                    )}
+                  </div>
+                  <p className={`text-xs ${mutedText}`}>
+                    {normalizeOrgans(result.organs)
+                      .keys.map((organKey) => ORGAN_REGISTRY[organKey].label)
+                      .join(', ') || 'No organs flagged'}
+                  </p>
+                  <ul className={`list-disc pl-4 space-y-1 text-xs ${bodyText}`}>
+                    {result.recommendations.map((recommendation, index) => (
+                      <li key={index}>{recommendation}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
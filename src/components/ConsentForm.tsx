@@ -0,0 +1,224 @@
+import { AlertTriangle, Lock } from "lucide-react";
+import { ENGINES, ENGINE_IDS, type EngineId } from "../api";
+import {
+  CURRENT_CONSENT_VERSION,
+  consentDraftProblem,
+  consentText,
+  formatConsentEngines,
+  uncoveredEngines,
+  type ConsentDraft,
+  type ConsentGrantor,
+} from "../consent";
+
+interface ConsentFormProps {
+  draft: ConsentDraft;
+  onChange: (draft: ConsentDraft) => void;
+  patientName: string;
+  requiredEngines: readonly EngineId[]; // Engines this analysis may be sent to, in fallback order
+  disabled?: boolean;
+  isDarkMode: boolean;
+}
+
+const GRANTORS: [ConsentGrantor, string][] = [
+  ["patient", "Patient"],
+  ["representative", "Representative"],
+];
+
+// Who consented, to which engines, under the current consent statement. Any
+// change after confirming clears the confirmation, so it always refers to
+// what is on screen.
+export function ConsentForm({
+  draft,
+  onChange,
+  patientName,
+  requiredEngines,
+  disabled = false,
+  isDarkMode,
+}: ConsentFormProps) {
+  const problem = consentDraftProblem(draft, patientName);
+  const isConfirmed = draft.confirmedAt !== null;
+  const missingEngines = isConfirmed
+    ? uncoveredEngines(draft, requiredEngines)
+    : [];
+
+  const edit = (changes: Partial<ConsentDraft>) =>
+    onChange({ ...draft, ...changes, confirmedAt: null });
+
+  const toggleEngine = (engine: EngineId) =>
+    edit({
+      engines: draft.engines.includes(engine)
+        ? draft.engines.filter((other) => other !== engine)
+        : [...draft.engines, engine],
+    });
+
+  const labelClass = `block text-xs mb-1.5 ${isDarkMode ? "text-slate-400" : "text-slate-600"}`;
+  const inputClass = `w-full px-3 py-2 text-sm ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all`;
+
+  return (
+    <fieldset className="pt-2 space-y-3" disabled={disabled}>
+      <legend
+        className={`flex w-full items-center justify-between text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+      >
+        Patient Consent
+        <span className="text-xs text-slate-500">
+          Statement v{CURRENT_CONSENT_VERSION}
+        </span>
+      </legend>
+
+      <p
+        className={`max-h-28 overflow-y-auto rounded-lg border p-3 text-xs leading-relaxed ${isDarkMode ? "border-slate-700 bg-slate-800/40 text-slate-400" : "border-slate-200 bg-slate-50 text-slate-600"}`}
+      >
+        {consentText(CURRENT_CONSENT_VERSION)}
+      </p>
+
+      <div>
+        <span className={labelClass}>Consent given by</span>
+        <div
+          role="group"
+          aria-label="Consent given by"
+          className={`grid grid-cols-2 gap-1 p-1 rounded-lg ${isDarkMode ? "bg-slate-800" : "bg-slate-100"}`}
+        >
+          {GRANTORS.map(([grantor, label]) => (
+            <button
+              key={grantor}
+              type="button"
+              aria-pressed={draft.grantor === grantor}
+              onClick={() => edit({ grantor })}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                draft.grantor === grantor
+                  ? "bg-cyan-600 text-white"
+                  : isDarkMode
+                    ? "text-slate-400 hover:text-white"
+                    : "text-slate-600 hover:text-slate-900"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {draft.grantor === "representative" && (
+        <div className="grid grid-cols-2 gap-2">
+          <label>
+            <span className={labelClass}>Representative</span>
+            <input
+              type="text"
+              value={draft.representativeName}
+              onChange={(e) => edit({ representativeName: e.target.value })}
+              placeholder="Full name"
+              className={inputClass}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Relationship</span>
+            <input
+              type="text"
+              value={draft.relationship}
+              onChange={(e) => edit({ relationship: e.target.value })}
+              placeholder="e.g. Parent"
+              className={inputClass}
+            />
+          </label>
+        </div>
+      )}
+
+      <div>
+        <span className={labelClass}>Engines the patient agreed to</span>
+        <div className="space-y-1.5">
+          {ENGINE_IDS.map((engine) => (
+            <label
+              key={engine}
+              className="flex items-center gap-2 text-xs cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={draft.engines.includes(engine)}
+                onChange={() => toggleEngine(engine)}
+                className="accent-cyan-500"
+              />
+              <span className={isDarkMode ? "text-slate-300" : "text-slate-700"}>
+                {ENGINES[engine].label}
+              </span>
+              <span
+                className={`px-1.5 rounded ${
+                  ENGINES[engine].location === "cloud"
+                    ? "bg-amber-500/15 text-amber-400"
+                    : "bg-emerald-500/15 text-emerald-400"
+                }`}
+              >
+                {ENGINES[engine].location}
+              </span>
+              {requiredEngines.includes(engine) && (
+                <span className="ml-auto text-slate-500">Selected for this analysis</span>
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Confirmation */}
+      <label
+        className={`flex items-start gap-3 group ${problem ? "cursor-not-allowed opacity-60" : "cursor-pointer"}`}
+      >
+        <div className="relative flex items-center justify-center mt-0.5">
+          <input
+            type="checkbox"
+            checked={isConfirmed}
+            disabled={!!problem}
+            onChange={(e) =>
+              onChange({
+                ...draft,
+                confirmedAt: e.target.checked ? Date.now() : null,
+              })
+            }
+            className={`w-5 h-5 ${isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-300"} border-2 rounded appearance-none checked:bg-cyan-500 checked:border-cyan-500 cursor-pointer transition-all`}
+          />
+          {isConfirmed && (
+            <svg
+              className="w-3 h-3 text-white absolute pointer-events-none"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={3}
+                d="M5 13l4 4L19 7"
+              />
+            </svg>
+          )}
+        </div>
+        <div className="flex-1">
+          <span
+            className={`text-sm ${isDarkMode ? "text-slate-300 group-hover:text-white" : "text-slate-700 group-hover:text-slate-900"} transition-colors`}
+          >
+            {draft.grantor === "patient"
+              ? "The patient consented to the statement above"
+              : "The representative consented to the statement above on the patient's behalf"}
+          </span>
+          <div
+            className={`flex items-center gap-1.5 mt-1 text-xs ${isDarkMode ? "text-slate-500" : "text-slate-500"}`}
+          >
+            <Lock className="w-3 h-3" />
+            <span>
+              {problem ??
+                (isConfirmed
+                  ? `Recorded ${new Date(draft.confirmedAt!).toLocaleString()}`
+                  : "Recorded with the analysis and included in exports")}
+            </span>
+          </div>
+        </div>
+      </label>
+
+      {missingEngines.length > 0 && (
+        <p className="flex items-start gap-2 text-xs text-amber-400" role="alert">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          The consent does not cover {formatConsentEngines(missingEngines)}, which
+          this analysis uses.
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { Check, Pencil, Tag } from 'lucide-react';
+import type { OrganKey } from '../organs';
+import {
+  ICD10_CM,
+  isIcd10Code,
+  lookupIcd10,
+  suggestIcd10,
+  type DiagnosisCode,
+  type TerminologyCode,
+} from '../terminology';
+
+interface DiagnosisCodePickerProps {
+  diagnosis: string;
+  organKeys: OrganKey[];
+  value: DiagnosisCode | null; // Code the physician confirmed, if any
+  onChange: (code: DiagnosisCode | null) => void;
+  disabled?: boolean; // Result is still streaming
+  isDarkMode: boolean;
+}
+
+// Suggests ICD-10-CM codes for the diagnosis and lets the physician confirm one
+// or enter their own. Only a confirmed code is written to exports.
+export function DiagnosisCodePicker({
+  diagnosis,
+  organKeys,
+  value,
+  onChange,
+  disabled = false,
+  isDarkMode,
+}: DiagnosisCodePickerProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [customCode, setCustomCode] = useState('');
+  const [customDisplay, setCustomDisplay] = useState('');
+
+  const suggestions = useMemo(
+    () => suggestIcd10(diagnosis, organKeys),
+    [diagnosis, organKeys]
+  );
+
+  const confirm = (code: TerminologyCode, status: DiagnosisCode['status']) => {
+    onChange({ ...code, status, confirmedAt: Date.now() });
+    setIsEditing(false);
+    setCustomCode('');
+    setCustomDisplay('');
+  };
+
+  const trimmedCode = customCode.trim().toUpperCase();
+  const isCustomValid = isIcd10Code(trimmedCode);
+
+  const handleOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isCustomValid) return;
+    const known = lookupIcd10(trimmedCode);
+    confirm(
+      known ?? { system: ICD10_CM, code: trimmedCode, display: customDisplay.trim() || diagnosis },
+      'overridden'
+    );
+  };
+
+  const mutedText = isDarkMode ? 'text-slate-400' : 'text-slate-600';
+  const inputClass = `px-2 py-1 text-xs rounded-md border ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500' : 'bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400'} focus:outline-none focus:ring-1 focus:ring-cyan-500`;
+
+  if (value && !isEditing) {
+    return (
+      <div className="flex items-center gap-2 flex-wrap" data-diagnosis-code={value.code}>
+        <span className="px-2 py-0.5 rounded-md text-xs font-mono bg-emerald-500/15 text-emerald-300 border border-emerald-500/30">
+          ICD-10-CM {value.code}
+        </span>
+        <span className={`text-xs ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{value.display}</span>
+        <span className="flex items-center gap-1 text-xs text-emerald-400">
+          <Check className="w-3 h-3" />
+          {value.status === 'overridden' ? 'Set by physician' : 'Confirmed'}
+        </span>
+        <button
+          onClick={() => setIsEditing(true)}
+          className={`flex items-center gap-1 text-xs ${mutedText} hover:text-cyan-400 transition-colors`}
+        >
+          <Pencil className="w-3 h-3" />
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Tag className={`w-3.5 h-3.5 ${mutedText}`} />
+        {suggestions.length > 0 ? (
+          suggestions.slice(0, 3).map((suggestion) => (
+            <button
+              key={suggestion.code}
+              onClick={() => confirm(suggestion, 'confirmed')}
+              disabled={disabled}
+              title={`Confirm ${suggestion.code}: ${suggestion.display}`}
+              className={`px-2 py-0.5 rounded-md text-xs border border-dashed transition-colors disabled:opacity-50 ${isDarkMode ? 'border-slate-600 text-slate-300 hover:border-cyan-500 hover:text-cyan-300' : 'border-slate-400 text-slate-700 hover:border-cyan-600 hover:text-cyan-700'}`}
+            >
+              <span className="font-mono">{suggestion.code}</span> {suggestion.display}
+            </button>
+          ))
+        ) : (
+          <span className={`text-xs ${mutedText}`}>No ICD-10 suggestion for this diagnosis</span>
+        )}
+      </div>
+      <form onSubmit={handleOverride} className="flex items-center gap-2">
+        <input
+          value={customCode}
+          onChange={(e) => setCustomCode(e.target.value)}
+          placeholder="Other code, e.g. J18.9"
+          className={`${inputClass} w-36 font-mono`}
+          disabled={disabled}
+          aria-invalid={customCode.trim() !== '' && !isCustomValid}
+        />
+        {trimmedCode && isCustomValid && !lookupIcd10(trimmedCode) && (
+          <input
+            value={customDisplay}
+            onChange={(e) => setCustomDisplay(e.target.value)}
+            placeholder="Description"
+            className={`${inputClass} flex-1`}
+          />
+        )}
+        <button
+          type="submit"
+          disabled={disabled || !isCustomValid}
+          className="px-2 py-1 text-xs rounded-md bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 text-white transition-colors"
+        >
+          Use code
+        </button>
+        {value && (
+          <>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className={`text-xs ${mutedText} hover:text-cyan-400`}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                onChange(null);
+                setIsEditing(false);
+              }}
+              className={`text-xs ${mutedText} hover:text-red-400`}
+            >
+              Remove code
+            </button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
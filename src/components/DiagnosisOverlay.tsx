@@ -1,8 +1,20 @@
 import React from 'react';
 import { motion } from 'motion/react';
-import { AlertCircle, TrendingUp, CheckCircle2, AlertTriangle, Download } from 'lucide-react';
-import { useState } from 'react';
+import { AlertCircle, TrendingUp, CheckCircle2, AlertTriangle, Download, FileDown, FileJson, Loader2, Pencil, ShieldCheck, Cpu } from 'lucide-react';
+import { useImperativeHandle, useState } from 'react';
 import html2canvas from 'html2canvas';
+import { toast } from 'sonner@2.0.3';
+import type { OrganProvenanceMap } from '../annotations';
+import { describeAnsweringEngine, type AnalyzeRequest, type PartialAnalysisResult } from '../api';
+import { describeConsent, type ConsentRecord } from '../consent';
+import { ORGAN_REGISTRY, normalizeOrgans, type BodyViewId, type OrganKey } from '../organs';
+import { downloadReportPdf, type ClinicalReport } from '../report';
+import { downloadFhirBundle } from '../fhir';
+import { SHORTCUTS, formatShortcut, useShortcuts } from '../shortcuts';
+import type { DiagnosisCode } from '../terminology';
+import { ConsensusPanel } from './ConsensusPanel';
+import { DiagnosisCodePicker } from './DiagnosisCodePicker';
+import { SeverityIcon as OrganSeverityIcon } from './SeverityIcon';
 
 function stripUnsupportedColors(input: string | null): string | null {
   if (!input) return input;
@@ -11,24 +23,115 @@ function stripUnsupportedColors(input: string | null): string | null {
   return output;
 }
 
-interface AnalysisResult {
-  diagnosis: string;
-  organs: string[];
-  explanation: string;
-  confidence?: number;
-  severity: 'low' | 'medium' | 'high';
-  recommendations: string[];
-}
-
 interface DiagnosisOverlayProps {
-  result: AnalysisResult;
+  result: PartialAnalysisResult;
+  isStreaming?: boolean; // Result is still arriving over the stream
+  input?: AnalyzeRequest | null; // Submitted input, for the report header
+  analyzedAt?: number | null; // When the result completed, for the report header
+  consent?: ConsentRecord; // Consent the analysis ran under, for the exports
+  diagnosisCode?: DiagnosisCode | null; // Physician-confirmed ICD-10 code
+  onDiagnosisCodeChange?: (code: DiagnosisCode | null) => void;
+  onExported?: (format: 'image' | 'pdf' | 'fhir') => void; // After each successful export, for the audit log
+  severityLevels?: Partial<Record<OrganKey, 'low' | 'medium' | 'high'>>; // Per-organ severity
+  confidenceLevels?: Partial<Record<OrganKey, number>>; // Per-organ confidence
+  organProvenance?: OrganProvenanceMap; // Organs the clinician added, edited or removed
+  view?: BodyViewId; // Body view shown, for the report's body page
   visualizationRef: React.RefObject<HTMLDivElement>;
+  isCompact?: boolean; // Small screens: stacked under the body instead of floating over it
   isDarkMode: boolean;
+  actionsRef?: React.Ref<DiagnosisOverlayActions>;
 }
 
-export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: DiagnosisOverlayProps) {
+// Exports the command palette and keyboard shortcuts can start
+export interface DiagnosisOverlayActions {
+  saveImage: () => void;
+  exportPdf: () => void;
+  exportFhir: () => void;
+}
+
+const ORGAN_SEVERITY_CLASSES = {
+  low: 'bg-emerald-500/20 text-emerald-300',
+  medium: 'bg-amber-500/20 text-amber-300',
+  high: 'bg-red-500/20 text-red-300',
+} as const;
+
+export function DiagnosisOverlay({
+  result,
+  isStreaming = false,
+  input,
+  analyzedAt,
+  consent,
+  diagnosisCode = null,
+  onDiagnosisCodeChange,
+  onExported,
+  severityLevels = {},
+  confidenceLevels = {},
+  organProvenance = {},
+  view,
+  visualizationRef,
+  isCompact = false,
+  isDarkMode,
+  actionsRef,
+}: DiagnosisOverlayProps) {
   const [expanded, setExpanded] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  // Report data for exports; null until the result has finished streaming
+  const buildReport = (): ClinicalReport | null => {
+    if (isStreaming || !result.diagnosis || !result.explanation || !result.severity) return null;
+    return {
+      input: input ?? { patientName: '', doctorName: '', description: '' },
+      result: {
+        ...result,
+        diagnosis: result.diagnosis,
+        explanation: result.explanation,
+        severity: result.severity,
+      },
+      diagnosisCode,
+      analyzedAt: analyzedAt ?? Date.now(),
+      consent,
+      severityLevels,
+      confidenceLevels,
+      organProvenance,
+      view,
+      bodySvg: visualizationRef.current?.querySelector<SVGSVGElement>('[data-body-figure] svg'),
+    };
+  };
+
+  const handleExportPdf = async () => {
+    const report = buildReport();
+    if (!report) return;
+
+    setIsExportingPdf(true);
+    try {
+      await downloadReportPdf(report);
+      onExported?.('pdf');
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+      toast.error('Failed to export PDF report', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleExportFhir = () => {
+    const report = buildReport();
+    if (!report) return;
+
+    try {
+      downloadFhirBundle(report);
+      onExported?.('fhir');
+      toast.success('FHIR bundle exported');
+    } catch (error) {
+      console.error('Error exporting FHIR bundle:', error);
+      toast.error('Failed to export FHIR bundle', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
 
   const handleSaveImage = async () => {
     if (!visualizationRef.current) return;
@@ -104,6 +207,7 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
       link.href = url;
       link.click();
       URL.revokeObjectURL(url);
+      onExported?.('image');
     } catch (error) {
       console.error('Error saving image:', error);
       alert('Failed to save image. Please try again.');
@@ -112,6 +216,25 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
     }
   };
 
+  // Same conditions as the buttons: nothing to export while the result streams in
+  const actions: DiagnosisOverlayActions = {
+    saveImage: () => {
+      if (!isSaving && !isStreaming) void handleSaveImage();
+    },
+    exportPdf: () => {
+      if (!isExportingPdf && !isStreaming) void handleExportPdf();
+    },
+    exportFhir: () => {
+      if (!isStreaming) handleExportFhir();
+    },
+  };
+  useImperativeHandle(actionsRef, () => actions);
+  useShortcuts([
+    [SHORTCUTS.exportImage, actions.saveImage],
+    [SHORTCUTS.exportPdf, actions.exportPdf],
+    [SHORTCUTS.exportFhir, actions.exportFhir],
+  ]);
+
   const getSeverityConfig = () => {
     switch (result.severity) {
       case 'low':
@@ -141,10 +264,25 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
           borderClass: 'border-red-500/20',
           textClass: 'text-red-400'
         };
+      default:
+        return {
+          color: 'slate',
+          icon: Loader2,
+          label: 'Assessing severity...',
+          bgClass: 'bg-slate-500/10',
+          borderClass: 'border-slate-500/20',
+          textClass: 'text-slate-400'
+        };
     }
   };
 
+  const organs = normalizeOrgans(result.organs);
+  const unrecognizedOrgans = Array.from(
+    new Set([...(result.unrecognizedOrgans ?? []), ...organs.unrecognized])
+  );
+
   const severityConfig = getSeverityConfig();
+  const answeredBy = describeAnsweringEngine(result);
   const SeverityIcon = severityConfig.icon;
 
   return (
@@ -152,7 +290,7 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
       initial={{ opacity: 0, y: 50 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: 0 }}
-      className="absolute bottom-8 left-8 right-8"
+      className={isCompact ? 'relative m-3' : 'absolute bottom-8 left-8 right-8'}
     >
       <div className={`${isDarkMode ? 'bg-slate-900/95 border-slate-800' : 'bg-white/95 border-slate-200'} backdrop-blur-xl border rounded-xl shadow-2xl max-w-4xl mx-auto`}>
         {/* Header */}
@@ -160,11 +298,17 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <div className={`p-2 ${severityConfig.bgClass} rounded-lg`}>
-                <SeverityIcon className={`w-5 h-5 ${severityConfig.textClass}`} />
+                <SeverityIcon className={`w-5 h-5 ${severityConfig.textClass} ${result.severity ? '' : 'animate-spin'}`} />
               </div>
               <div>
                 <h3 className={isDarkMode ? 'text-white' : 'text-slate-900'}>Diagnosis Result</h3>
                 <p className={`text-sm ${severityConfig.textClass}`}>{severityConfig.label}</p>
+                {answeredBy && (
+                  <p className={`flex items-center gap-1.5 mt-0.5 text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-600'}`}>
+                    <Cpu className="w-3 h-3 shrink-0" />
+                    Answered by {answeredBy}
+                  </p>
+                )}
               </div>
             </div>
             
@@ -179,11 +323,15 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
 
         {/* Compact View */}
         <div className="px-6 py-5">
-          <div className="grid grid-cols-2 gap-6">
+          <div className={`grid gap-6 ${isCompact ? 'grid-cols-1' : 'grid-cols-2'}`}>
             {/* Diagnosis */}
             <div>
               <p className={`text-xs mb-2 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Primary Diagnosis</p>
-              <p className={isDarkMode ? 'text-white' : 'text-slate-900'}>{result.diagnosis}</p>
+              {result.diagnosis ? (
+                <p className={isDarkMode ? 'text-white' : 'text-slate-900'}>{result.diagnosis}</p>
+              ) : (
+                <p className={isDarkMode ? 'text-slate-500' : 'text-slate-400'}>Awaiting diagnosis...</p>
+              )}
             </div>
 
             {/* Confidence */}
@@ -205,21 +353,72 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
             )}
           </div>
 
+          {/* Diagnosis Code */}
+          {result.diagnosis && onDiagnosisCodeChange && (
+            <div className="mt-4">
+              <p className={`text-xs mb-2 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Diagnosis Code</p>
+              <DiagnosisCodePicker
+                diagnosis={result.diagnosis}
+                organKeys={organs.keys}
+                value={diagnosisCode}
+                onChange={onDiagnosisCodeChange}
+                disabled={isStreaming}
+                isDarkMode={isDarkMode}
+              />
+            </div>
+          )}
+
           {/* Affected Organs */}
           <div className="mt-5">
             <p className={`text-xs mb-3 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Affected Systems</p>
             <div className="flex flex-wrap gap-2">
-              {result.organs.map((organ, index) => (
-                <motion.span
-                  key={index}
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  transition={{ delay: 0.6 + index * 0.1 }}
-                  className="px-3 py-1.5 bg-cyan-500/10 border border-cyan-500/20 text-cyan-300 rounded-lg text-sm capitalize flex items-center gap-2"
+              {organs.keys.map((organKey, index) => {
+                const organ = ORGAN_REGISTRY[organKey];
+                const organSeverity = severityLevels[organKey];
+                const organConfidence = confidenceLevels[organKey];
+                const source = organProvenance[organKey]?.source;
+                const isClinicianValue = source === 'edited' || source === 'clinician';
+                return (
+                  <motion.span
+                    key={organKey}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 0.6 + index * 0.1 }}
+                    className={`px-3 py-1.5 bg-cyan-500/10 border border-cyan-500/20 text-cyan-300 rounded-lg text-sm capitalize flex items-center gap-2 ${isClinicianValue ? 'border-dashed' : ''}`}
+                    style={{ borderColor: `${organ.color}55` }}
+                    title={`SNOMED CT ${organ.snomed.code} · ${organ.snomed.display}${
+                      source === 'clinician' ? ' · Added by clinician' : source === 'edited' ? ' · Edited by clinician' : ''
+                    }`}
+                  >
+                    <span
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: organ.color }}
+                    ></span>
+                    {organ.label}
+                    {organSeverity && (
+                      <span
+                        className={`flex items-center gap-1 px-1.5 rounded text-[0.65rem] font-semibold uppercase ${ORGAN_SEVERITY_CLASSES[organSeverity]}`}
+                      >
+                        <OrganSeverityIcon severity={organSeverity} className="w-2.5 h-2.5" />
+                        {organSeverity}
+                      </span>
+                    )}
+                    {organConfidence !== undefined && (
+                      <span className="text-xs text-slate-400">{Math.round(organConfidence)}%</span>
+                    )}
+                    {isClinicianValue && <Pencil className="w-3 h-3 text-cyan-400" aria-label="Clinician edit" />}
+                  </motion.span>
+                );
+              })}
+              {unrecognizedOrgans.map((name) => (
+                <span
+                  key={`unrecognized-${name}`}
+                  className="px-3 py-1.5 bg-amber-500/10 border border-dashed border-amber-500/40 text-amber-300 rounded-lg text-sm flex items-center gap-2"
+                  title="Reported by the model but not matched to any organ on the body"
                 >
-                  <span className="w-2 h-2 bg-cyan-400 rounded-full"></span>
-                  {organ}
-                </motion.span>
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  {name}
+                </span>
               ))}
             </div>
           </div>
@@ -238,7 +437,7 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
               <div>
                 <p className={`text-xs mb-3 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Clinical Explanation</p>
                 <p className={`text-sm leading-relaxed ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
-                  {result.explanation}
+                  {result.explanation ?? (isStreaming ? 'Waiting for explanation...' : '')}
                 </p>
               </div>
 
@@ -257,16 +456,56 @@ export function DiagnosisOverlay({ result, visualizationRef, isDarkMode }: Diagn
                 </div>
               </div>
 
+              {/* Each engine's answer */}
+              {result.consensus && result.diagnosis && (
+                <ConsensusPanel
+                  consensus={result.consensus}
+                  diagnosis={result.diagnosis}
+                  isCompact={isCompact}
+                  isDarkMode={isDarkMode}
+                />
+              )}
+
+              {/* Consent */}
+              {consent && (
+                <p
+                  className={`flex items-start gap-2 text-xs ${isDarkMode ? 'text-slate-500' : 'text-slate-600'}`}
+                  title={`Recorded ${new Date(consent.grantedAt).toLocaleString()}`}
+                >
+                  <ShieldCheck className="w-3.5 h-3.5 mt-0.5 shrink-0 text-emerald-400" />
+                  {describeConsent(consent)}
+                </p>
+              )}
+
               {/* Action Buttons */}
-              <div className="flex gap-3 pt-3">
+              <div className={`gap-3 pt-3 ${isCompact ? 'grid grid-cols-2' : 'flex'}`}>
                 <button 
                   onClick={handleSaveImage}
-                  disabled={isSaving}
+                  disabled={isSaving || isStreaming}
+                  title={`Save Image (${formatShortcut(SHORTCUTS.exportImage)})`}
                   className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-slate-700 disabled:to-slate-700 text-white rounded-lg transition-all text-sm flex items-center justify-center gap-2"
                 >
                   <Download className="w-4 h-4" />
                   {isSaving ? 'Saving...' : 'Save Image'}
                 </button>
+                <button
+                  onClick={handleExportPdf}
+                  disabled={isExportingPdf || isStreaming}
+                  title={`Export PDF (${formatShortcut(SHORTCUTS.exportPdf)})`}
+                  className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-slate-700 disabled:to-slate-700 text-white rounded-lg transition-all text-sm flex items-center justify-center gap-2"
+                >
+                  <FileDown className="w-4 h-4" />
+                  {isExportingPdf ? 'Exporting...' : 'Export PDF'}
+                </button>
+                <button
+                  onClick={handleExportFhir}
+                  disabled={isStreaming}
+                  className={`flex-1 px-4 py-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'} disabled:opacity-50 rounded-lg transition-colors text-sm flex items-center justify-center gap-2`}
+                  title={`Download as a FHIR R4 Bundle for EHR import (${formatShortcut(SHORTCUTS.exportFhir)})`}
+                >
+                  <FileJson className="w-4 h-4" />
+                  Export FHIR
+                </button>
                 <button className={`flex-1 px-4 py-2 ${isDarkMode ? 'bg-slate-800 hover:bg-slate-700 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'} rounded-lg transition-colors text-sm`}>
                   Share with Team
                 </button>
@@ -0,0 +1,182 @@
+import { AlertTriangle, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
+import {
+  ENGINES,
+  ENGINE_IDS,
+  type EngineHealthState,
+  type EngineId,
+} from "../api";
+import { EngineStatusBadge } from "./EngineStatusBadge";
+
+interface EngineSelectorProps {
+  order: EngineId[]; // Engines to try, first choice first
+  onChange: (order: EngineId[]) => void;
+  consensus: boolean; // Ask every selected engine at once instead of in order
+  onConsensusChange: (consensus: boolean) => void;
+  health: EngineHealthState;
+  disabled?: boolean;
+  isDarkMode: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+// Which engines a request may use and in what order, with their live status.
+// A single selected engine means no fallback; in consensus mode the order
+// does not matter.
+export function EngineSelector({
+  order,
+  onChange,
+  consensus,
+  onConsensusChange,
+  health,
+  disabled = false,
+  isDarkMode,
+}: EngineSelectorProps) {
+  // Selected engines in order, then the rest
+  const rows = [...order, ...ENGINE_IDS.filter((engine) => !order.includes(engine))];
+  const allOffline = order.every((engine) => health.engines[engine]?.status === "offline");
+
+  const toggle = (engine: EngineId) => {
+    if (!order.includes(engine)) {
+      onChange([...order, engine]);
+    } else if (order.length > 1) {
+      onChange(order.filter((other) => other !== engine));
+    }
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const modeButtonClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded-md transition-colors ${
+      active
+        ? "bg-cyan-500/20 text-cyan-400"
+        : isDarkMode
+          ? "text-slate-400 hover:bg-slate-800"
+          : "text-slate-600 hover:bg-slate-100"
+    }`;
+
+  const moveButtonClass = `p-0.5 rounded ${isDarkMode ? "text-slate-500 hover:text-white hover:bg-slate-700" : "text-slate-500 hover:text-slate-900 hover:bg-slate-200"} disabled:opacity-30 disabled:pointer-events-none`;
+
+  return (
+    <fieldset
+      className={`pt-4 border-t ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}
+      disabled={disabled}
+    >
+      <legend className="flex w-full items-center justify-between text-xs mb-3 text-slate-500">
+        Analysis Engines
+        <button
+          type="button"
+          onClick={health.refresh}
+          className="flex items-center gap-1 hover:text-cyan-400 transition-colors"
+          title="Check engine status now"
+        >
+          <RefreshCw className="w-3 h-3" />
+          {health.error
+            ? "Status unavailable"
+            : health.checkedAt
+              ? `Checked ${formatTime(health.checkedAt)}`
+              : "Checking…"}
+        </button>
+      </legend>
+
+      <div className="flex gap-1 mb-3 text-xs" role="group" aria-label="How engines are used">
+        <button
+          type="button"
+          onClick={() => onConsensusChange(false)}
+          aria-pressed={!consensus}
+          className={modeButtonClass(!consensus)}
+        >
+          Fallback
+        </button>
+        <button
+          type="button"
+          onClick={() => onConsensusChange(true)}
+          aria-pressed={consensus}
+          className={modeButtonClass(consensus)}
+        >
+          Consensus
+        </button>
+      </div>
+
+      <ol className="space-y-2">
+        {rows.map((engine) => {
+          const index = order.indexOf(engine);
+          const isSelected = index !== -1;
+          return (
+            <li key={engine} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={isSelected}
+                // The last selected engine cannot be removed
+                disabled={isSelected && order.length === 1}
+                onChange={() => toggle(engine)}
+                aria-label={`Use ${ENGINES[engine].label}`}
+                className="accent-cyan-500"
+              />
+              <span
+                className={`w-4 text-center ${isSelected ? "text-cyan-400" : "text-slate-600"}`}
+                aria-label={isSelected ? (consensus ? "Asked" : `Choice ${index + 1}`) : "Not used"}
+              >
+                {isSelected ? (consensus ? "✓" : index + 1) : "–"}
+              </span>
+              <span
+                className={`truncate ${
+                  isSelected
+                    ? isDarkMode
+                      ? "text-slate-300"
+                      : "text-slate-700"
+                    : "text-slate-500"
+                }`}
+              >
+                {ENGINES[engine].label}
+              </span>
+              <EngineStatusBadge health={health.engines[engine]} className="ml-auto shrink-0" />
+              {!consensus && (
+                <span className="flex shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => move(index, -1)}
+                    disabled={!isSelected || index === 0}
+                    aria-label={`Try ${ENGINES[engine].label} earlier`}
+                    className={moveButtonClass}
+                  >
+                    <ChevronUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={!isSelected || index === order.length - 1}
+                    aria-label={`Try ${ENGINES[engine].label} later`}
+                    className={moveButtonClass}
+                  >
+                    <ChevronDown className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <p className="text-xs mt-3 text-slate-500">
+        {consensus
+          ? order.length < 2
+            ? "Select at least two engines to compare their answers."
+            : "Every selected engine is asked at once; the body shows how many flagged each organ."
+          : order.length === 1
+            ? `Only ${ENGINES[order[0]].label} is used, without fallback.`
+            : "Tried in order; the next engine answers if one fails."}
+      </p>
+      {allOffline && (
+        <p className="flex items-start gap-1.5 text-xs mt-2 text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+          Every selected engine is offline
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,39 @@
+import type { EngineHealth, EngineStatus } from "../api";
+
+const STATUS_STYLES: Record<EngineStatus, { label: string; dot: string; text: string }> = {
+  online: { label: "Online", dot: "bg-emerald-400", text: "text-emerald-400" },
+  degraded: { label: "Degraded", dot: "bg-amber-400", text: "text-amber-400" },
+  offline: { label: "Offline", dot: "bg-red-400", text: "text-red-400" },
+};
+
+interface EngineStatusBadgeProps {
+  health?: EngineHealth; // Unset until the first check has answered
+  className?: string;
+}
+
+// Status dot, spelled-out status and latency of one engine; the reason for a
+// degraded or offline status is in the tooltip
+export function EngineStatusBadge({ health, className = "" }: EngineStatusBadgeProps) {
+  if (!health) {
+    return (
+      <span className={`inline-flex items-center gap-1.5 text-slate-500 ${className}`}>
+        <span className="w-1.5 h-1.5 rounded-full bg-slate-500" aria-hidden="true" />
+        Checking…
+      </span>
+    );
+  }
+
+  const style = STATUS_STYLES[health.status];
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 ${style.text} ${className}`}
+      title={health.detail}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`} aria-hidden="true" />
+      {style.label}
+      {health.latencyMs !== undefined && health.status !== "offline" && (
+        <span className="text-slate-500">{health.latencyMs} ms</span>
+      )}
+    </span>
+  );
+}
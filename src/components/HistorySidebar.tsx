@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { GitCompare, History, Pin, PinOff, Search, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from './ui/sidebar';
+import { matchesHistoryQuery, type HistoryEntry } from '../history';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null; // Entry currently shown on the body
+  isLoading: boolean;
+  onRestore: (entry: HistoryEntry) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onCompare: (entry: HistoryEntry) => void; // Compare with the active entry
+  isDarkMode: boolean;
+}
+
+const SEVERITY_DOT = {
+  low: 'bg-emerald-500',
+  medium: 'bg-amber-500',
+  high: 'bg-red-500',
+} as const;
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function HistorySidebar({
+  entries,
+  activeId,
+  isLoading,
+  onRestore,
+  onTogglePin,
+  onDelete,
+  onCompare,
+  isDarkMode,
+}: HistorySidebarProps) {
+  const [query, setQuery] = useState('');
+
+  const filtered = useMemo(
+    () => entries.filter((entry) => matchesHistoryQuery(entry, query)),
+    [entries, query]
+  );
+  const pinned = filtered.filter((entry) => entry.pinned);
+  const recent = filtered.filter((entry) => !entry.pinned);
+
+  const renderEntry = (entry: HistoryEntry) => (
+    <SidebarMenuItem key={entry.id}>
+      <SidebarMenuButton
+        size="lg"
+        isActive={entry.id === activeId}
+        onClick={() => onRestore(entry)}
+        className="h-auto py-2 pr-20 items-start"
+        title={entry.result.diagnosis}
+      >
+        <span
+          className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${SEVERITY_DOT[entry.result.severity]}`}
+        />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm">{entry.result.diagnosis}</p>
+          <p className={`truncate text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+            {entry.input.patientName || 'Unnamed patient'} · {formatTimestamp(entry.createdAt)}
+          </p>
+        </div>
+      </SidebarMenuButton>
+      {activeId && entry.id !== activeId && (
+        <SidebarMenuAction
+          className="right-13"
+          showOnHover
+          onClick={() => onCompare(entry)}
+          title="Compare with the open analysis"
+        >
+          <GitCompare />
+        </SidebarMenuAction>
+      )}
+      <SidebarMenuAction
+        className="right-7"
+        showOnHover={!entry.pinned}
+        onClick={() => onTogglePin(entry)}
+        title={entry.pinned ? 'Unpin' : 'Pin'}
+      >
+        {entry.pinned ? <PinOff /> : <Pin />}
+      </SidebarMenuAction>
+      <SidebarMenuAction showOnHover onClick={() => onDelete(entry)} title="Delete">
+        <Trash2 />
+      </SidebarMenuAction>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar
+      collapsible="none"
+      className={`border-r ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}
+    >
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-1 py-1">
+          <History className="h-4 w-4 text-cyan-500" />
+          <h3 className="text-sm font-semibold">Analysis History</h3>
+        </div>
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 opacity-50" />
+          <SidebarInput
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search patient, diagnosis, organ..."
+            className="pl-8"
+          />
+        </div>
+      </SidebarHeader>
+
+      <SidebarContent>
+        {pinned.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{pinned.map(renderEntry)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+        <SidebarGroup>
+          <SidebarGroupLabel>Recent</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {isLoading ? (
+              <p className="px-2 text-xs opacity-60">Loading history...</p>
+            ) : recent.length > 0 ? (
+              <SidebarMenu>{recent.map(renderEntry)}</SidebarMenu>
+            ) : (
+              <p className="px-2 text-xs opacity-60">
+                {query ? 'No analyses match your search' : 'Completed analyses appear here'}
+              </p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -1,308 +1,458 @@
-import { useState } from "react";
+import { useEffect, useImperativeHandle, useRef, useState } from "react";
 import { motion, AnimatePresence } from "motion/react";
+import { useForm } from "react-hook-form@7.55.0";
 import {
   X,
   Send,
   RotateCcw,
-  Lock,
   Loader2,
 } from "lucide-react";
+import { ClinicalInputForm } from "./ClinicalInputForm";
+import { ConsentForm } from "./ConsentForm";
+import { EngineSelector } from "./EngineSelector";
+import { RedactionPreview } from "./RedactionPreview";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerTitle,
+} from "./ui/drawer";
+import { Form } from "./ui/form";
+import {
+  DEFAULT_ENGINE_ORDER,
+  type AnalyzeRequest,
+  type ClinicalFindings,
+  type EngineHealthState,
+  type EngineId,
+  type RedactionSettings,
+} from "../api";
+import {
+  EMPTY_CLINICAL_FORM,
+  formatClinicalFindings,
+  toClinicalFindings,
+  toClinicalFormValues,
+  type ClinicalFormValues,
+} from "../clinical";
+import {
+  EMPTY_CONSENT_DRAFT,
+  formatConsentEngines,
+  toConsentRecord,
+  uncoveredEngines,
+  type ConsentDraft,
+  type ConsentRecord,
+} from "../consent";
+import { EMPTY_REDACTION_SETTINGS } from "../redaction";
+import { CLINICAL_DISCLAIMER } from "../report";
+import { SHORTCUTS, formatShortcut, useShortcuts } from "../shortcuts";
+import { toast } from "sonner@2.0.3";
+
+type InputMode = "text" | "structured";
+
+// What the command palette and keyboard shortcuts can do to the panel
+export interface InputPanelActions {
+  submit: () => void;
+  reset: () => void; // Clear the form and the result
+  focus: () => void;
+}
 
 interface InputPanelProps {
   show: boolean;
-  onAnalyze: (data: {
-    patientName: string;
-    doctorName: string;
-    description: string;
-  }) => void;
+  variant?: "sidebar" | "drawer"; // Bottom drawer on small screens
+  onClose?: () => void; // The drawer was dismissed
+  onAnalyze: (data: AnalyzeRequest, consent: ConsentRecord) => void;
   onClear: () => void;
+  onCancel: () => void;
+  restoredInput?: AnalyzeRequest | null; // Input of a history entry being reopened
+  engineHealth: EngineHealthState;
   isAnalyzing: boolean;
   hasResult: boolean;
   isDarkMode: boolean;
+  actionsRef?: React.Ref<InputPanelActions>;
 }
 
 export function InputPanel({
   show,
+  variant = "sidebar",
+  onClose,
   onAnalyze,
   onClear,
+  onCancel,
+  restoredInput,
+  engineHealth,
   isAnalyzing,
   hasResult,
   isDarkMode,
+  actionsRef,
 }: InputPanelProps) {
   const [patientName, setPatientName] = useState("");
   const [doctorName, setDoctorName] = useState("");
   const [description, setDescription] = useState("");
-  const [hasConsent, setHasConsent] = useState(false);
+  const [mode, setMode] = useState<InputMode>("text");
+  const [consentDraft, setConsentDraft] =
+    useState<ConsentDraft>(EMPTY_CONSENT_DRAFT);
+  // Recorded once, when consent is confirmed, so the analysis, its exports and
+  // the audit log all carry the same consent id
+  const [consent, setConsent] = useState<ConsentRecord | null>(null);
+  const [redaction, setRedaction] = useState<RedactionSettings>(
+    EMPTY_REDACTION_SETTINGS,
+  );
+  const [engines, setEngines] = useState<EngineId[]>([
+    ...DEFAULT_ENGINE_ORDER,
+  ]);
+  const [consensus, setConsensus] = useState(false);
+  const formRef = useRef<HTMLFormElement>(null);
+  const patientNameRef = useRef<HTMLInputElement>(null);
+  const clinicalForm = useForm<ClinicalFormValues>({
+    defaultValues: EMPTY_CLINICAL_FORM,
+    mode: "onBlur",
+  });
+
+  // Refill the form from a reopened history entry; consent must be given again
+  useEffect(() => {
+    if (!restoredInput) return;
+    setPatientName(restoredInput.patientName);
+    setDoctorName(restoredInput.doctorName);
+    setDescription(restoredInput.description);
+    setRedaction(restoredInput.redaction ?? EMPTY_REDACTION_SETTINGS);
+    setEngines([...(restoredInput.engines ?? DEFAULT_ENGINE_ORDER)]);
+    setConsensus(!!restoredInput.consensus);
+    if (restoredInput.clinical) {
+      clinicalForm.reset(toClinicalFormValues(restoredInput.clinical));
+      setMode("structured");
+    } else {
+      clinicalForm.reset(EMPTY_CLINICAL_FORM);
+      setMode("text");
+    }
+    setConsentDraft(EMPTY_CONSENT_DRAFT);
+    setConsent(null);
+  }, [restoredInput, clinicalForm]);
+
+  // The request as entered; App redacts it before it is sent
+  const toRequest = (clinical?: ClinicalFindings): AnalyzeRequest => ({
+    patientName,
+    doctorName,
+    description: clinical
+      ? formatClinicalFindings(clinical)
+      : description,
+    ...(clinical ? { clinical } : {}),
+    redaction,
+    engines,
+    ...(consensus ? { consensus: true } : {}),
+  });
+
+  // Editing the draft withdraws the recorded consent; confirming it records a new one
+  const handleConsentDraftChange = (draft: ConsentDraft) => {
+    setConsentDraft(draft);
+    setConsent(
+      draft.confirmedAt === null
+        ? null
+        : toConsentRecord(draft, { patientName, doctorName }),
+    );
+  };
+
+  // The recorded consent must cover every engine in the fallback order
+  const missingEngines = uncoveredEngines(consent, engines);
+  const submitProblem = !consent
+    ? "Record patient consent before analyzing"
+    : missingEngines.length > 0
+      ? `Consent does not cover ${formatConsentEngines(missingEngines)}`
+      : consensus && engines.length < 2
+        ? "Select at least two engines for a consensus"
+        : undefined;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!hasConsent) return;
+    if (!consent || submitProblem) return;
+
+    if (mode === "structured") {
+      void clinicalForm.handleSubmit((values) => {
+        onAnalyze(toRequest(toClinicalFindings(values)), consent);
+      })();
+      return;
+    }
 
-    onAnalyze({
-      patientName,
-      doctorName,
-      description,
-    });
+    onAnalyze(toRequest(), consent);
   };
 
   const handleClear = () => {
     setPatientName("");
     setDoctorName("");
     setDescription("");
-    setHasConsent(false);
+    clinicalForm.reset(EMPTY_CLINICAL_FORM);
+    setRedaction(EMPTY_REDACTION_SETTINGS);
+    setConsentDraft(EMPTY_CONSENT_DRAFT);
+    setConsent(null);
     onClear();
   };
 
-  return (
-    <AnimatePresence>
-      {show && (
-        <motion.aside
-          initial={{ x: 400, opacity: 0 }}
-          animate={{ x: 0, opacity: 1 }}
-          exit={{ x: 400, opacity: 0 }}
-          transition={{
-            type: "spring",
-            damping: 25,
-            stiffness: 200,
-          }}
-          className={`w-[420px] ${isDarkMode ? "bg-slate-900 border-slate-800" : "bg-white border-slate-200"} border-l flex flex-col`}
-        >
-          {/* Panel Header */}
-          <div
-            className={`p-6 border-b ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}
-          >
-            <div className="flex items-center justify-between mb-2">
-              <h2
-                className={`text-lg ${isDarkMode ? "text-white" : "text-slate-900"}`}
-              >
-                Patient Analysis Input
-              </h2>
-            </div>
-            <p
-              className={`text-sm ${isDarkMode ? "text-slate-400" : "text-slate-600"}`}
-            >
-              Enter patient information and symptoms for
-              AI-powered clinical assessment
-            </p>
-          </div>
+  // Submit as the Analyze button would, including the browser's required-field checks
+  const requestAnalyze = () => {
+    if (isAnalyzing) return;
+    if (submitProblem) {
+      toast.error(submitProblem);
+      return;
+    }
+    formRef.current?.requestSubmit();
+  };
 
-          {/* Form */}
-          <div className="flex-1 overflow-y-auto p-6">
-            <form onSubmit={handleSubmit} className="space-y-5">
-              <div>
-                <label
-                  className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
-                >
-                  Patient Name
-                </label>
-                <input
-                  type="text"
-                  value={patientName}
-                  onChange={(e) =>
-                    setPatientName(e.target.value)
-                  }
-                  placeholder="Enter patient name"
-                  className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all`}
-                  required
-                />
-              </div>
+  useImperativeHandle(actionsRef, () => ({
+    submit: requestAnalyze,
+    reset: handleClear,
+    focus: () => patientNameRef.current?.focus(),
+  }));
 
-              <div>
-                <label
-                  className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
-                >
-                  Attending Physician
-                </label>
-                <input
-                  type="text"
-                  value={doctorName}
-                  onChange={(e) =>
-                    setDoctorName(e.target.value)
-                  }
-                  placeholder="Dr. [Name]"
-                  className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all`}
-                  required
-                />
-              </div>
+  useShortcuts([[SHORTCUTS.runAnalysis, requestAnalyze]], show);
 
-              <div>
-                <label
-                  className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
-                >
-                  Clinical Description
-                </label>
-                <textarea
-                  value={description}
-                  onChange={(e) =>
-                    setDescription(e.target.value)
-                  }
-                  placeholder="Describe symptoms, vitals, medications, patient history..."
-                  rows={8}
-                  className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent resize-none transition-all`}
-                  required
-                />
-                <p
-                  className={`text-xs mt-2 ${isDarkMode ? "text-slate-500" : "text-slate-500"}`}
-                >
-                  Include relevant symptoms, medications, and
-                  clinical observations
-                </p>
-              </div>
+  // The drawer labels its dialog from the panel heading
+  const Title = variant === "drawer" ? DrawerTitle : "h2";
+  const Description = variant === "drawer" ? DrawerDescription : "p";
 
-              {/* Consent Checkbox */}
-              <div className="pt-2">
-                <label className="flex items-start gap-3 cursor-pointer group">
-                  <div className="relative flex items-center justify-center mt-0.5">
-                    <input
-                      type="checkbox"
-                      checked={hasConsent}
-                      onChange={(e) =>
-                        setHasConsent(e.target.checked)
-                      }
-                      className={`w-5 h-5 ${isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-300"} border-2 rounded appearance-none checked:bg-cyan-500 checked:border-cyan-500 cursor-pointer transition-all`}
-                    />
-                    {hasConsent && (
-                      <svg
-                        className="w-3 h-3 text-white absolute pointer-events-none"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={3}
-                          d="M5 13l4 4L19 7"
-                        />
-                      </svg>
-                    )}
-                  </div>
-                  <div className="flex-1">
-                    <span
-                      className={`text-sm ${isDarkMode ? "text-slate-300 group-hover:text-white" : "text-slate-700 group-hover:text-slate-900"} transition-colors`}
-                    >
-                      I consent to secure AI analysis of this
-                      clinical data
-                    </span>
-                    <div
-                      className={`flex items-center gap-1.5 mt-1 text-xs ${isDarkMode ? "text-slate-500" : "text-slate-500"}`}
-                    >
-                      <Lock className="w-3 h-3" />
-                      <span>
-                        HIPAA compliant • End-to-end encrypted
-                      </span>
-                    </div>
-                  </div>
-                </label>
-              </div>
+  const panel = (
+    <>
+      {/* Panel Header */}
+      <div
+        className={`p-6 border-b ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <Title
+            className={`text-lg font-normal ${isDarkMode ? "text-white" : "text-slate-900"}`}
+          >
+            Patient Analysis Input
+          </Title>
+        </div>
+        <Description
+          className={`text-sm ${isDarkMode ? "text-slate-400" : "text-slate-600"}`}
+        >
+          Enter patient information and symptoms for
+          AI-powered clinical assessment
+        </Description>
+      </div>
 
-              {/* Action Buttons */}
-              <div className="flex gap-3 pt-4">
-                <button
-                  type="button"
-                  onClick={handleClear}
-                  disabled={isAnalyzing}
-                  className={`flex-1 px-4 py-2.5 ${isDarkMode ? "bg-slate-800 hover:bg-slate-700 border-slate-700 text-white" : "bg-slate-100 hover:bg-slate-200 border-slate-300 text-slate-900"} border rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2`}
-                >
-                  <RotateCcw className="w-4 h-4" />
-                  Clear
-                </button>
-                <button
-                  type="submit"
-                  disabled={!hasConsent || isAnalyzing}
-                  className="flex-1 px-4 py-2.5 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
-                >
-                  {isAnalyzing ? (
-                    <>
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      Analyzing
-                    </>
-                  ) : (
-                    <>
-                      <Send className="w-4 h-4" />
-                      Analyze
-                    </>
-                  )}
-                </button>
-              </div>
+      {/* Form */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <form ref={formRef} onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label
+              className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+            >
+              Patient Name
+            </label>
+            <input
+              type="text"
+              ref={patientNameRef}
+              value={patientName}
+              onChange={(e) => {
+                setPatientName(e.target.value);
+                // A confirmed consent is for the patient named when it was given
+                setConsentDraft((draft) => ({ ...draft, confirmedAt: null }));
+                setConsent(null);
+              }}
+              placeholder="Enter patient name"
+              className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all`}
+              required
+            />
+          </div>
 
-              {/* AI Engine Info */}
-              <div
-                className={`pt-4 border-t ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}
-              >
-                <p
-                  className={`text-xs mb-3 ${isDarkMode ? "text-slate-500" : "text-slate-500"}`}
-                >
-                  Analysis Engines
-                </p>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-xs">
-                    <span
-                      className={
-                        isDarkMode
-                          ? "text-slate-400"
-                          : "text-slate-600"
-                      }
-                    >
-                      Google Gemini API
-                    </span>
-                    <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 rounded">
-                      Primary
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <span
-                      className={
-                        isDarkMode
-                          ? "text-slate-400"
-                          : "text-slate-600"
-                      }
-                    >
-                      Local Llama Model
-                    </span>
-                    <span
-                      className={`px-2 py-0.5 ${isDarkMode ? "bg-slate-700 text-slate-500" : "bg-slate-200 text-slate-600"} rounded`}
-                    >
-                      Fallback
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <span
-                      className={
-                        isDarkMode
-                          ? "text-slate-400"
-                          : "text-slate-600"
-                      }
-                    >
-                      Triton Server
-                    </span>
-                    <span
-                      className={`px-2 py-0.5 ${isDarkMode ? "bg-slate-700 text-slate-500" : "bg-slate-200 text-slate-600"} rounded`}
-                    >
-                      Fallback
-                    </span>
-                  </div>
-                </div>
-              </div>
-            </form>
+          <div>
+            <label
+              className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+            >
+              Attending Physician
+            </label>
+            <input
+              type="text"
+              value={doctorName}
+              onChange={(e) => {
+                setDoctorName(e.target.value);
+                // The consent record names the physician who recorded it
+                setConsentDraft((draft) => ({ ...draft, confirmedAt: null }));
+                setConsent(null);
+              }}
+              placeholder="Dr. [Name]"
+              className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all`}
+              required
+            />
           </div>
 
-          {/* Footer Disclaimer */}
           <div
-            className={`p-6 border-t ${isDarkMode ? "border-slate-800 bg-amber-500/5" : "border-slate-200 bg-amber-50"}`}
+            role="tablist"
+            aria-label="Input mode"
+            className={`grid grid-cols-2 gap-1 p-1 rounded-lg ${isDarkMode ? "bg-slate-800" : "bg-slate-100"}`}
           >
-            <div className="flex gap-3">
-              <span className="text-amber-500 text-xl">⚠️</span>
+            {(
+              [
+                ["text", "Free Text"],
+                ["structured", "Structured"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={mode === value}
+                onClick={() => setMode(value)}
+                className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  mode === value
+                    ? "bg-cyan-600 text-white"
+                    : isDarkMode
+                      ? "text-slate-400 hover:text-white"
+                      : "text-slate-600 hover:text-slate-900"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === "structured" ? (
+            <Form {...clinicalForm}>
+              <ClinicalInputForm
+                disabled={isAnalyzing}
+                isDarkMode={isDarkMode}
+              />
+            </Form>
+          ) : (
+            <div>
+              <label
+                className={`block text-sm mb-2 ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+              >
+                Clinical Description
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) =>
+                  setDescription(e.target.value)
+                }
+                placeholder="Describe symptoms, vitals, medications, patient history..."
+                rows={8}
+                className={`w-full px-4 py-2.5 ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent resize-none transition-all`}
+                required
+              />
               <p
-                className={`text-xs leading-relaxed ${isDarkMode ? "text-slate-400" : "text-slate-600"}`}
+                className={`text-xs mt-2 ${isDarkMode ? "text-slate-500" : "text-slate-500"}`}
               >
-                AI-generated analysis is for clinical decision
-                support only. Always verify findings with
-                professional medical judgment and additional
-                diagnostic procedures.
+                Include relevant symptoms, medications, and
+                clinical observations
               </p>
             </div>
+          )}
+
+          <RedactionPreview
+            request={toRequest(
+              mode === "structured"
+                ? toClinicalFindings(clinicalForm.watch())
+                : undefined,
+            )}
+            onChange={setRedaction}
+            disabled={isAnalyzing}
+            isDarkMode={isDarkMode}
+          />
+
+          <EngineSelector
+            order={engines}
+            onChange={setEngines}
+            consensus={consensus}
+            onConsensusChange={setConsensus}
+            health={engineHealth}
+            disabled={isAnalyzing}
+            isDarkMode={isDarkMode}
+          />
+
+          <ConsentForm
+            draft={consentDraft}
+            onChange={handleConsentDraftChange}
+            patientName={patientName}
+            requiredEngines={engines}
+            disabled={isAnalyzing}
+            isDarkMode={isDarkMode}
+          />
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4">
+            {isAnalyzing ? (
+              <button
+                type="button"
+                onClick={onCancel}
+                className={`flex-1 px-4 py-2.5 ${isDarkMode ? "bg-slate-800 hover:bg-slate-700 border-slate-700 text-white" : "bg-slate-100 hover:bg-slate-200 border-slate-300 text-slate-900"} border rounded-lg transition-colors flex items-center justify-center gap-2`}
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleClear}
+                className={`flex-1 px-4 py-2.5 ${isDarkMode ? "bg-slate-800 hover:bg-slate-700 border-slate-700 text-white" : "bg-slate-100 hover:bg-slate-200 border-slate-300 text-slate-900"} border rounded-lg transition-colors flex items-center justify-center gap-2`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                Clear
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!!submitProblem || isAnalyzing}
+              title={submitProblem ?? `Analyze (${formatShortcut(SHORTCUTS.runAnalysis)})`}
+              className="flex-1 px-4 py-2.5 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+            >
+              {isAnalyzing ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Analyzing
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4" />
+                  Analyze
+                </>
+              )}
+            </button>
           </div>
+        </form>
+      </div>
+
+      {/* Footer Disclaimer */}
+      <div
+        className={`p-6 border-t ${isDarkMode ? "border-slate-800 bg-amber-500/5" : "border-slate-200 bg-amber-50"}`}
+      >
+        <div className="flex gap-3">
+          <span className="text-amber-500 text-xl">⚠️</span>
+          <p
+            className={`text-xs leading-relaxed ${isDarkMode ? "text-slate-400" : "text-slate-600"}`}
+          >
+            {CLINICAL_DISCLAIMER}
+          </p>
+        </div>
+      </div>
+    </>
+  );
+
+  if (variant === "drawer") {
+    return (
+      <Drawer open={show} onOpenChange={(open) => !open && onClose?.()}>
+        <DrawerContent
+          className={`${isDarkMode ? "bg-slate-900 border-slate-800" : "bg-white border-slate-200"}`}
+        >
+          {panel}
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.aside
+          initial={{ x: 400, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: 400, opacity: 0 }}
+          transition={{
+            type: "spring",
+            damping: 25,
+            stiffness: 200,
+          }}
+          className={`w-[420px] ${isDarkMode ? "bg-slate-900 border-slate-800" : "bg-white border-slate-200"} border-l flex flex-col`}
+        >
+          {panel}
         </motion.aside>
       )}
     </AnimatePresence>
@@ -0,0 +1,149 @@
+import { useMemo } from 'react';
+import { ClipboardList, FileText, Stethoscope } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from './ui/sheet';
+import type { PartialAnalysisResult } from '../api';
+import {
+  ORGAN_REGISTRY,
+  getOrganDetail,
+  mentionsOrgan,
+  sentencesMentioning,
+  type OrganKey,
+} from '../organs';
+
+const SEVERITY_CLASSES = {
+  low: 'bg-emerald-500/20 text-emerald-300',
+  medium: 'bg-amber-500/20 text-amber-300',
+  high: 'bg-red-500/20 text-red-300',
+} as const;
+
+interface OrganDetailDrawerProps {
+  organKey: OrganKey | null; // Open while an organ is selected
+  result: PartialAnalysisResult;
+  severityLevels?: Partial<Record<OrganKey, 'low' | 'medium' | 'high'>>;
+  confidenceLevels?: Partial<Record<OrganKey, number>>;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+// Everything the analysis says about one organ: the full detail text, the
+// explanation sentences and the recommendations that mention it.
+export function OrganDetailDrawer({
+  organKey,
+  result,
+  severityLevels = {},
+  confidenceLevels = {},
+  onClose,
+  isDarkMode,
+}: OrganDetailDrawerProps) {
+  const organ = organKey ? ORGAN_REGISTRY[organKey] : null;
+
+  const findings = useMemo(() => {
+    if (!organ) return null;
+    return {
+      detail: getOrganDetail(result.organDetails, organ),
+      sentences: sentencesMentioning(result.explanation, organ.key),
+      recommendations: result.recommendations.filter((rec) => mentionsOrgan(rec, organ.key)),
+    };
+  }, [organ, result]);
+
+  const severity = organKey ? severityLevels[organKey] : undefined;
+  const confidence = organKey ? confidenceLevels[organKey] : undefined;
+  const mutedText = isDarkMode ? 'text-slate-400' : 'text-slate-600';
+  const bodyText = isDarkMode ? 'text-slate-200' : 'text-slate-800';
+  const sectionTitle = `flex items-center gap-2 text-xs uppercase tracking-wide mb-2 ${mutedText}`;
+
+  // Non-modal so the body and grid stay usable; picking another organ there
+  // switches the drawer instead of closing it
+  return (
+    <Sheet open={!!organ} onOpenChange={(open) => !open && onClose()} modal={false}>
+      <SheetContent
+        side="right"
+        onInteractOutside={(e) => {
+          if ((e.target as Element | null)?.closest?.('[data-organ], [data-organ-marker]')) {
+            e.preventDefault();
+          }
+        }}
+        className={`overflow-y-auto ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200 text-slate-900'}`}
+      >
+        {organ && findings && (
+          <>
+            <SheetHeader className="pb-0">
+              <div className="flex items-center gap-2">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: organ.color }} />
+                <SheetTitle className={isDarkMode ? 'text-white' : 'text-slate-900'}>
+                  {organ.label}
+                </SheetTitle>
+              </div>
+              <SheetDescription className={`flex flex-wrap items-center gap-2 text-xs ${mutedText}`}>
+                {severity && (
+                  <span className={`px-1.5 rounded font-semibold uppercase ${SEVERITY_CLASSES[severity]}`}>
+                    {severity}
+                  </span>
+                )}
+                {confidence !== undefined && <span>{Math.round(confidence)}% confidence</span>}
+                <span className="font-mono" title={organ.snomed.display}>
+                  SNOMED CT {organ.snomed.code}
+                </span>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 px-4 pb-6">
+              <section>
+                <h4 className={sectionTitle}>
+                  <Stethoscope className="w-3.5 h-3.5" />
+                  Finding
+                </h4>
+                <p className={`text-sm leading-relaxed ${bodyText}`}>
+                  {findings.detail ?? 'No organ-specific detail was returned.'}
+                </p>
+              </section>
+
+              <section>
+                <h4 className={sectionTitle}>
+                  <FileText className="w-3.5 h-3.5" />
+                  In the Explanation
+                </h4>
+                {findings.sentences.length > 0 ? (
+                  <ul className={`space-y-2 text-sm leading-relaxed ${bodyText}`}>
+                    {findings.sentences.map((sentence) => (
+                      <li key={sentence} className="border-l-2 pl-3" style={{ borderColor: organ.color }}>
+                        {sentence}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className={`text-sm ${mutedText}`}>The explanation does not mention this organ.</p>
+                )}
+              </section>
+
+              <section>
+                <h4 className={sectionTitle}>
+                  <ClipboardList className="w-3.5 h-3.5" />
+                  Related Recommendations
+                </h4>
+                {findings.recommendations.length > 0 ? (
+                  <ul className={`space-y-1.5 text-sm ${bodyText}`}>
+                    {findings.recommendations.map((rec) => (
+                      <li key={rec} className="flex gap-2">
+                        <span className="text-cyan-400">•</span>
+                        {rec}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className={`text-sm ${mutedText}`}>No recommendation mentions this organ.</p>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,109 +1,259 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'motion/react';
-
-// Organ definitions matching OrganSvg.tsx
-const ORGAN_DEFINITIONS = {
-  brain: { label: 'Brain', color: '#8b5cf6' },
-  heart: { label: 'Heart', color: '#ef4444' },
-  lungs: { label: 'Lungs', color: '#3b82f6' },
-  liver: { label: 'Liver', color: '#10b981' },
-  stomach: { label: 'Stomach', color: '#f59e0b' },
-  kidney: { label: 'Kidneys', color: '#ec4899' },
-  intestine: { label: 'Intestines', color: '#06b6d4' },
-  pancreas: { label: 'Pancreas', color: '#84cc16' },
-  sinuses: { label: 'Sinuses', color: '#a855f7' },
-  throat: { label: 'Throat', color: '#6366f1' },
-  bronchi: { label: 'Bronchi', color: '#0ea5e9' },
-  bladder: { label: 'Bladder', color: '#14b8a6' },
-} as const;
-
-type OrganKey = keyof typeof ORGAN_DEFINITIONS;
+import { Check, Pencil, RotateCcw } from 'lucide-react';
+import { SeverityIcon } from './SeverityIcon';
+import type {
+  OrganAnnotationChanges,
+  OrganProvenanceMap,
+  OrganSource,
+} from '../annotations';
+import { SEVERITIES, type OrganAnnotation } from '../api';
+import {
+  ORGANS,
+  getOrganDetail,
+  normalizeOrgans,
+  sentencesMentioning,
+  type BodyStructureCode,
+  type OrganKey,
+} from '../organs';
 
 interface OrganGridTableProps {
   highlightedOrgans: string[];
   organDetails?: Record<string, string>; // Organ-specific issue details
+  unrecognizedOrgans?: string[]; // Organ names the backend could not map
+  severityLevels?: Partial<Record<OrganKey, 'low' | 'medium' | 'high'>>; // Per-organ severity
+  confidenceLevels?: Partial<Record<OrganKey, number>>; // Per-organ confidence
   analysisResult?: {
     diagnosis?: string;
     explanation?: string;
     severity?: 'low' | 'medium' | 'high';
     confidence?: number;
   };
+  selectedOrgan?: OrganKey | null; // Organ selected on the body or in this table
+  onSelectOrgan?: (organKey: OrganKey) => void;
+  organProvenance?: OrganProvenanceMap; // Marks organs the clinician added, edited or removed
+  annotations?: Record<string, OrganAnnotation>; // Clinician annotations being edited
+  isAnnotating?: boolean;
+  onToggleAnnotating?: () => void; // Shows the edit toggle when set
+  onAnnotate?: (organKey: OrganKey, changes: OrganAnnotationChanges) => void;
+  onResetAnnotations?: (organKey?: OrganKey) => void;
   isDarkMode?: boolean;
   showGrid?: boolean; // Toggle to show/hide grid lines for debugging
   className?: string;
 }
 
-interface OrganRowData {
+export interface OrganRowData {
   organKey: OrganKey;
   label: string;
   color: string;
+  bodySite: BodyStructureCode; // SNOMED CT body structure
   isHighlighted: boolean;
+  severity?: 'low' | 'medium' | 'high';
+  confidence?: number;
   status?: string;
   details?: string;
+  source?: OrganSource; // Model finding or clinician annotation
+  aiSeverity?: 'low' | 'medium' | 'high'; // The model's level when the clinician changed it
+}
+
+export interface OrganRowsInput {
+  highlightedKeys: OrganKey[];
+  organDetails?: Record<string, string>;
+  severityLevels?: OrganGridTableProps['severityLevels'];
+  confidenceLevels?: OrganGridTableProps['confidenceLevels'];
+  analysisResult?: OrganGridTableProps['analysisResult'];
+  organProvenance?: OrganProvenanceMap;
+}
+
+// One row per registry organ with its status for the given analysis. Shared with the
+// comparison view so both render and diff organs the same way.
+export function buildOrganRows({
+  highlightedKeys,
+  organDetails = {},
+  severityLevels = {},
+  confidenceLevels = {},
+  analysisResult,
+  organProvenance = {},
+}: OrganRowsInput): OrganRowData[] {
+  return ORGANS.map((organ) => {
+    const organKey = organ.key;
+    const isHighlighted = highlightedKeys.includes(organKey);
+
+    // Determine status and details based on analysis
+    let severity: OrganRowData['severity'];
+    let confidence: number | undefined;
+    let status: string | undefined;
+    let details: string | undefined;
+
+    if (isHighlighted && analysisResult) {
+      // Each organ carries its own level; the overall severity is only a fallback
+      severity = severityLevels[organKey] ?? analysisResult.severity;
+      confidence = confidenceLevels[organKey];
+      status = severity ? `${severity.toUpperCase()} SEVERITY` : 'AFFECTED';
+
+      // Organ-specific issue from organDetails, else the first explanation
+      // sentence that mentions the organ
+      details =
+        getOrganDetail(organDetails, organ) ??
+        sentencesMentioning(analysisResult.explanation, organKey)[0];
+    }
+
+    const provenance = organProvenance[organKey];
+    return {
+      organKey,
+      label: organ.label,
+      color: organ.color,
+      bodySite: organ.snomed,
+      isHighlighted,
+      severity,
+      confidence,
+      status,
+      details,
+      source: provenance?.source,
+      aiSeverity: provenance?.aiSeverity !== severity ? provenance?.aiSeverity : undefined,
+    };
+  });
+}
+
+const SOURCE_BADGES: Partial<Record<OrganSource, string>> = {
+  edited: 'Edited',
+  clinician: 'Added by MD',
+  removed: 'Removed',
+};
+
+interface OrganAnnotationEditorProps {
+  row: OrganRowData;
+  annotation?: OrganAnnotation;
+  onAnnotate: (changes: OrganAnnotationChanges) => void;
+  onReset?: () => void;
+  isDarkMode: boolean;
+}
+
+// Inline controls for correcting one organ: include it, set its severity, write a note
+function OrganAnnotationEditor({
+  row,
+  annotation,
+  onAnnotate,
+  onReset,
+  isDarkMode,
+}: OrganAnnotationEditorProps) {
+  // Notes are committed on blur so typing doesn't create an edit per keystroke
+  const [note, setNote] = useState(annotation?.note ?? '');
+  useEffect(() => setNote(annotation?.note ?? ''), [annotation?.note]);
+
+  const mutedText = isDarkMode ? 'text-slate-400' : 'text-slate-600';
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-3">
+        <label className={`flex items-center gap-1.5 text-xs cursor-pointer ${mutedText}`}>
+          <input
+            type="checkbox"
+            checked={row.isHighlighted}
+            onChange={(e) => onAnnotate({ included: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Affected
+        </label>
+        {row.isHighlighted && (
+          <div className="flex gap-1" role="group" aria-label={`${row.label} severity`}>
+            {SEVERITIES.map((level) => (
+              <button
+                key={level}
+                onClick={() => onAnnotate({ severity: level })}
+                aria-pressed={row.severity === level}
+                className={`px-1.5 py-0.5 text-[0.65rem] uppercase rounded border transition-colors ${
+                  row.severity === level
+                    ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300'
+                    : `${isDarkMode ? 'border-slate-700 text-slate-400' : 'border-slate-300 text-slate-600'} hover:border-cyan-500`
+                }`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+        )}
+        {annotation && onReset && (
+          <button
+            onClick={onReset}
+            className={`ml-auto ${mutedText} hover:text-cyan-400`}
+            title="Restore the AI values"
+            aria-label={`Restore AI values for ${row.label}`}
+          >
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {row.isHighlighted && (
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => {
+            if (note.trim() !== (annotation?.note ?? '')) onAnnotate({ note });
+          }}
+          rows={2}
+          placeholder="Clinician note (replaces the AI detail)"
+          className={`w-full px-2 py-1 text-xs rounded border resize-none ${
+            isDarkMode
+              ? 'bg-slate-900 border-slate-700 text-white placeholder-slate-500'
+              : 'bg-white border-slate-300 text-slate-900 placeholder-slate-400'
+          } focus:outline-none focus:ring-1 focus:ring-cyan-500`}
+        />
+      )}
+    </div>
+  );
 }
 
 export function OrganGridTable({
   highlightedOrgans,
   organDetails = {},
+  unrecognizedOrgans = [],
+  severityLevels = {},
+  confidenceLevels = {},
   analysisResult,
+  selectedOrgan = null,
+  onSelectOrgan,
+  organProvenance,
+  annotations = {},
+  isAnnotating = false,
+  onToggleAnnotating,
+  onAnnotate,
+  onResetAnnotations,
   isDarkMode = false,
   showGrid = false,
   className = '',
 }: OrganGridTableProps) {
-  // Normalize highlighted organs for matching
-  const normalizedHighlights = useMemo(
-    () => highlightedOrgans.map((organ) => organ.toLowerCase()),
-    [highlightedOrgans]
-  );
+  const rowRefs = useRef<Partial<Record<OrganKey, HTMLDivElement | null>>>({});
 
-  // Create organ rows with status
-  const organRows = useMemo<OrganRowData[]>(() => {
-    return (Object.keys(ORGAN_DEFINITIONS) as OrganKey[]).map((organKey) => {
-      const organ = ORGAN_DEFINITIONS[organKey];
-      const isHighlighted = normalizedHighlights.some((name) => 
-        name.includes(organKey) || organKey.includes(name)
-      );
+  // Bring an organ selected on the body into view
+  useEffect(() => {
+    if (selectedOrgan) {
+      rowRefs.current[selectedOrgan]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [selectedOrgan]);
 
-      // Determine status and details based on analysis
-      let status: string | undefined;
-      let details: string | undefined;
+  // Resolve highlighted organ names to registry keys
+  const normalized = useMemo(() => normalizeOrgans(highlightedOrgans), [highlightedOrgans]);
 
-      if (isHighlighted && analysisResult) {
-        status = analysisResult.severity 
-          ? `${analysisResult.severity.toUpperCase()} SEVERITY`
-          : 'AFFECTED';
-        
-        // Get organ-specific issue from organDetails (preferred)
-        const organDetail = organDetails[organKey] || organDetails[organ.label.toLowerCase()];
-        if (organDetail) {
-          details = organDetail;
-        } else if (analysisResult.explanation) {
-          // Fallback: Extract organ-specific details from explanation if possible
-          const explanationLower = analysisResult.explanation.toLowerCase();
-          const organLabelLower = organ.label.toLowerCase();
-          if (explanationLower.includes(organLabelLower)) {
-            // Try to find a sentence mentioning this organ
-            const sentences = analysisResult.explanation.split(/[.!?]+/);
-            const relevantSentence = sentences.find(s => 
-              s.toLowerCase().includes(organLabelLower)
-            );
-            if (relevantSentence) {
-              details = relevantSentence.trim();
-            }
-          }
-        }
-      }
+  // Names neither the backend nor the registry could map to an organ
+  const unmatchedOrgans = useMemo(
+    () => Array.from(new Set([...unrecognizedOrgans, ...normalized.unrecognized])),
+    [unrecognizedOrgans, normalized]
+  );
 
-      return {
-        organKey,
-        label: organ.label,
-        color: organ.color,
-        isHighlighted,
-        status,
-        details,
-      };
-    });
-  }, [normalizedHighlights, analysisResult]);
+  // Create organ rows with status
+  const organRows = useMemo(
+    () =>
+      buildOrganRows({
+        highlightedKeys: normalized.keys,
+        organDetails,
+        severityLevels,
+        confidenceLevels,
+        analysisResult,
+        organProvenance,
+      }),
+    [normalized, organDetails, severityLevels, confidenceLevels, analysisResult, organProvenance]
+  );
 
   const getSeverityColor = (severity?: string) => {
     if (!severity) return '#64748b';
@@ -198,14 +348,16 @@ export function OrganGridTable({
             <div className="col-span-2">
               {row.status && (
                 <span
-                  className={`text-xs px-2 py-1 rounded ${
+                  className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded ${
                     isDarkMode ? 'bg-slate-700' : 'bg-slate-200'
                   }`}
                   style={{
-                    color: getSeverityColor(row.status),
+                    color: getSeverityColor(row.severity),
                   }}
                 >
+                  {row.severity && <SeverityIcon severity={row.severity} />}
                   {row.status}
+                  {row.confidence !== undefined && ` · ${Math.round(row.confidence)}%`}
                 </span>
               )}
             </div>
@@ -236,75 +388,197 @@ export function OrganGridTable({
           } shadow-xl`}
         >
           <div className="p-4 h-full flex flex-col">
-            <h3
-              className={`text-sm font-semibold mb-4 ${
-                isDarkMode ? 'text-white' : 'text-slate-900'
-              }`}
-            >
-              Organ Status Grid
-            </h3>
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <h3
+                className={`text-sm font-semibold ${
+                  isDarkMode ? 'text-white' : 'text-slate-900'
+                }`}
+              >
+                Organ Status Grid
+              </h3>
+              <div className="flex items-center gap-1">
+                {isAnnotating && onResetAnnotations && Object.keys(annotations).length > 0 && (
+                  <button
+                    onClick={() => onResetAnnotations()}
+                    className={`flex items-center gap-1 px-2 py-1 text-xs rounded ${
+                      isDarkMode ? 'text-slate-400 hover:text-white' : 'text-slate-600 hover:text-slate-900'
+                    }`}
+                    title="Discard all clinician edits"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Reset
+                  </button>
+                )}
+                {onToggleAnnotating && (
+                  <button
+                    onClick={onToggleAnnotating}
+                    aria-pressed={isAnnotating}
+                    className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+                      isAnnotating
+                        ? 'bg-cyan-600 text-white hover:bg-cyan-500'
+                        : isDarkMode
+                        ? 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                        : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+                    }`}
+                  >
+                    {isAnnotating ? <Check className="w-3 h-3" /> : <Pencil className="w-3 h-3" />}
+                    {isAnnotating ? 'Done' : 'Annotate'}
+                  </button>
+                )}
+              </div>
+            </div>
             <div className="space-y-1 flex-1 overflow-y-auto">
-              {organRows.map((row) => (
-                <div
-                  key={row.organKey}
-                  className={`flex items-start gap-3 p-2.5 rounded transition-all ${
-                    row.isHighlighted
-                      ? `${isDarkMode ? 'bg-slate-800/80' : 'bg-slate-100/80'} border-l-2`
-                      : `${isDarkMode ? 'bg-transparent' : 'bg-transparent'} border-l-2 border-transparent`
-                  }`}
-                  style={{
-                    borderLeftColor: row.isHighlighted ? row.color : 'transparent',
-                  }}
-                  data-organ={row.organKey}
-                  data-highlighted={row.isHighlighted}
-                >
+              {organRows.map((row) => {
+                const isSelectable = row.isHighlighted && !!onSelectOrgan && !isAnnotating;
+                const isSelected = row.organKey === selectedOrgan;
+                return (
                   <div
-                    className="w-2.5 h-2.5 rounded-full flex-shrink-0 mt-1"
+                    key={row.organKey}
+                    ref={(element) => {
+                      rowRefs.current[row.organKey] = element;
+                    }}
+                    className={`flex items-start gap-3 p-2.5 rounded transition-all ${
+                      row.isHighlighted
+                        ? `${isDarkMode ? 'bg-slate-800/80' : 'bg-slate-100/80'} border-l-2`
+                        : `${isDarkMode ? 'bg-transparent' : 'bg-transparent'} border-l-2 border-transparent`
+                    } ${isSelectable ? `cursor-pointer ${isDarkMode ? 'hover:bg-slate-700/80' : 'hover:bg-slate-200/80'}` : ''} ${
+                      isSelected ? 'ring-1 ring-cyan-500' : ''
+                    }`}
                     style={{
-                      backgroundColor: row.color,
-                      opacity: row.isHighlighted ? 1 : 0.3,
+                      borderLeftColor: row.isHighlighted ? row.color : 'transparent',
                     }}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span
-                        className={`text-xs font-medium ${
-                          row.isHighlighted
-                            ? isDarkMode
-                              ? 'text-white'
-                              : 'text-slate-900'
-                            : isDarkMode
-                            ? 'text-slate-500'
-                            : 'text-slate-400'
-                        }`}
-                      >
-                        {row.label}
-                      </span>
-                      {row.status && (
+                    data-organ={row.organKey}
+                    data-highlighted={row.isHighlighted}
+                    data-selected={isSelected}
+                    {...(isSelectable
+                      ? {
+                          role: 'button',
+                          tabIndex: 0,
+                          'aria-pressed': isSelected,
+                          onClick: () => onSelectOrgan(row.organKey),
+                          onKeyDown: (e: React.KeyboardEvent) => {
+                            if (e.key === 'Enter' || e.key === ' ') {
+                              e.preventDefault();
+                              onSelectOrgan(row.organKey);
+                            }
+                          },
+                        }
+                      : {})}
+                  >
+                    <div
+                      className="w-2.5 h-2.5 rounded-full flex-shrink-0 mt-1"
+                      style={{
+                        backgroundColor: row.color,
+                        opacity: row.isHighlighted ? 1 : 0.3,
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
                         <span
-                          className="text-xs px-1.5 py-0.5 rounded flex-shrink-0"
-                          style={{
-                            backgroundColor: `${getSeverityColor(row.status)}20`,
-                            color: getSeverityColor(row.status),
-                          }}
+                          className={`text-xs font-medium ${
+                            row.isHighlighted
+                              ? isDarkMode
+                                ? 'text-white'
+                                : 'text-slate-900'
+                              : isDarkMode
+                              ? 'text-slate-500'
+                              : 'text-slate-400'
+                          }`}
                         >
-                          {row.status.split(' ')[0]}
+                          <span className={row.source === 'removed' ? 'line-through' : undefined}>
+                            {row.label}
+                          </span>
                         </span>
+                        {row.source && SOURCE_BADGES[row.source] && (
+                          <span
+                            className="text-[0.6rem] px-1 rounded border border-dashed border-cyan-500/50 text-cyan-400 flex-shrink-0"
+                            title={
+                              row.aiSeverity
+                                ? `AI proposed ${row.aiSeverity.toUpperCase()} severity`
+                                : undefined
+                            }
+                          >
+                            {SOURCE_BADGES[row.source]}
+                          </span>
+                        )}
+                        {row.status && (
+                          <span
+                            className="inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded flex-shrink-0"
+                            style={{
+                              backgroundColor: `${getSeverityColor(row.severity)}20`,
+                              color: getSeverityColor(row.severity),
+                            }}
+                          >
+                            {row.severity && <SeverityIcon severity={row.severity} />}
+                            {row.status.split(' ')[0]}
+                          </span>
+                        )}
+                        {row.confidence !== undefined && (
+                          <span
+                            className={`text-xs flex-shrink-0 ${
+                              isDarkMode ? 'text-slate-500' : 'text-slate-400'
+                            }`}
+                          >
+                            {Math.round(row.confidence)}%
+                          </span>
+                        )}
+                      </div>
+                      {row.details && (
+                        <p
+                          className={`text-xs leading-relaxed ${
+                            isDarkMode ? 'text-slate-400' : 'text-slate-600'
+                          } line-clamp-2`}
+                        >
+                          {row.details}
+                        </p>
+                      )}
+                      {row.isHighlighted && (
+                        <p
+                          className={`text-[0.65rem] font-mono mt-0.5 ${
+                            isDarkMode ? 'text-slate-500' : 'text-slate-400'
+                          }`}
+                          title={row.bodySite.display}
+                        >
+                          SNOMED CT {row.bodySite.code}
+                        </p>
+                      )}
+                      {isAnnotating && onAnnotate && (
+                        <OrganAnnotationEditor
+                          row={row}
+                          annotation={annotations[row.organKey]}
+                          onAnnotate={(changes) => onAnnotate(row.organKey, changes)}
+                          onReset={onResetAnnotations && (() => onResetAnnotations(row.organKey))}
+                          isDarkMode={isDarkMode}
+                        />
                       )}
                     </div>
-                    {row.details && (
-                      <p
-                        className={`text-xs leading-relaxed ${
-                          isDarkMode ? 'text-slate-400' : 'text-slate-600'
-                        } line-clamp-2`}
-                      >
-                        {row.details}
-                      </p>
-                    )}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
+            {unmatchedOrgans.length > 0 && (
+              <div
+                className={`mt-3 pt-3 border-t ${
+                  isDarkMode ? 'border-slate-800' : 'border-slate-200'
+                }`}
+                data-unrecognized-organs
+              >
+                <p className="text-xs font-medium text-amber-400 mb-1.5">
+                  Unrecognized organs
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {unmatchedOrgans.map((name) => (
+                    <span
+                      key={name}
+                      className="text-xs px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20"
+                      title="Not shown on the body: no matching organ"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1,67 +1,64 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { motion } from 'motion/react';
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { motion, useReducedMotion } from 'motion/react';
 import RawBodySvg from './body-organs.svg?raw';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+import { SeverityIcon } from './SeverityIcon';
+import { connectorPoints, layoutLabels, type LabelSize } from '../layout';
+import type { OrganProvenanceMap, OrganSource } from '../annotations';
+import { isMinority, isUnanimous, type OrganAgreement, type OrganAgreementMap } from '../consensus';
+import {
+  BODY_ORGANS,
+  BODY_SVG_ORGANS,
+  BODY_VIEWS,
+  DEFAULT_BODY_VIEW,
+  DRAWN_REGION_ORGANS,
+  ORGAN_REGISTRY,
+  describeAffectedOrgans,
+  describeOrgan,
+  getOrganDetail,
+  isOrganInView,
+  normalizeOrgans,
+  organDistance,
+  organPaintOrder,
+  type BodyViewId,
+  type OrganKey,
+} from '../organs';
 
 const BODY_VIEWBOX = {
   width: 810,
   height: 1012.5,
 };
 
-const ORGAN_CLIP_IDS = {
-  brain: 'Brain',
-  heart: 'Heart',
-  lungs: 'Lungs',
-  liver: 'Liver',
-  stomach: 'Stomach',
-  kidney: 'Kidney',
-  intestine: 'Intestine',
-  pancreas: 'Pancreas',
-} as const;
-
-type OrganKey = keyof typeof ORGAN_CLIP_IDS;
-
-const ORGAN_LABELS: Record<OrganKey, string> = {
-  brain: 'Brain',
-  heart: 'Heart',
-  lungs: 'Lungs',
-  liver: 'Liver',
-  stomach: 'Stomach',
-  kidney: 'Kidneys',
-  intestine: 'Intestines',
-  pancreas: 'Pancreas',
-};
-
-const ORGAN_COLORS: Record<OrganKey, string> = {
-  brain: '#a855f7',
-  heart: '#ef4444',
-  lungs: '#3b82f6',
-  liver: '#92400e',
-  stomach: '#f97316',
-  kidney: '#b91c1c',
-  intestine: '#d946ef',
-  pancreas: '#f59e0b',
-};
+const SVG_NS = 'http://www.w3.org/2000/svg';
 
 // Grid configuration - invisible layout reference
 const GRID_CONFIG = {
-  // Left side columns
-  leftNameColumnX: 73, // Left organ name column
-  // Right side columns
-  rightNameColumnX: 27, // Right organ name column (mirrors right:73%)
-  // Vertical rows
-  rowHeight: 12.5, // 100% / 8 rows
-  startY: 6.25, // First row center
-  totalRows: 8,
-  cardAnchorOffset: 3.5, // Amount to move connector anchor upward (in %)
+  leftNameColumnX: 27, // Right edge of the left card column
+  rightNameColumnX: 73, // Left edge of the right card column
   separatorOpacity: 0.1,
 };
 
 const LABEL_LAYOUT = {
-  minVerticalGap: 4, // gap between cards after accounting for their height
-  cardHeight: 7, // approximate height in percentage space
+  minVerticalGap: 1.5, // gap between cards, in percentage space
+  cardHeight: 7, // height assumed until a card has been measured
+  cardWidth: 30, // width assumed until a card has been measured
   topPadding: 3,
   bottomPadding: 3,
   minWidth: 0,
+  measureTolerance: 0.1, // size changes smaller than this do not trigger a relayout
+};
+
+// Opacity of a highlighted organ drawn over another highlighted organ, so the
+// one behind it (kidneys behind intestines, pancreas behind stomach) shows through
+const SEE_THROUGH_OPACITY = 0.55;
+
+// Hatching of organs only some engines flagged. Organs fewer than half the
+// engines flagged are fainter as well.
+const HATCH = {
+  spacing: 12,
+  stripeWidth: 7,
+  partial: { stripes: 1, gaps: 0.3 },
+  minority: { stripes: 0.55, gaps: 0.1 },
 };
 
 const SEVERITY_COLORS = {
@@ -86,8 +83,98 @@ interface BodyOrganSvgProps {
   style?: React.CSSProperties;
   columnPositions?: ColumnPositionOverrides;
   severityLevels?: Partial<Record<OrganKey, SeverityLevel>>;
+  confidenceLevels?: Partial<Record<OrganKey, number>>; // Per-organ confidence (0-100)
+  selectedOrgan?: OrganKey | null;
+  onSelectOrgan?: (organKey: OrganKey) => void; // Makes affected organs and markers clickable
+  showAllOrgans?: boolean; // Annotation mode: unaffected organs show faintly and are clickable too
+  organProvenance?: OrganProvenanceMap; // Marks organs the clinician added or edited
+  view?: BodyViewId; // Front, back or a single system layer
+  organAgreement?: OrganAgreementMap; // Consensus results: organs only some engines flagged are hatched
+}
+
+const CLINICIAN_BADGES: Partial<Record<OrganSource, string>> = {
+  edited: '✎ Edited',
+  clinician: '✎ Added by MD',
+};
+
+// Whether two screen rectangles intersect
+const boxesOverlap = (a: DOMRect, b: DOMRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// Organ key of the artwork group an event happened in
+const organKeyFromEvent = (event: React.SyntheticEvent) =>
+  ((event.target as Element).closest?.('g[data-organ]')?.getAttribute('data-organ') ??
+    undefined) as OrganKey | undefined;
+
+// Tag each organ's artwork group with data-organ and draw ellipses for organs
+// that have no artwork, as siblings of their anchor organ's group.
+function prepareOrganGroups(svgElement: SVGSVGElement) {
+  BODY_SVG_ORGANS.forEach(({ key, clipId }) => {
+    svgElement.querySelector(`g[clip-path="url(#${clipId})"]`)?.setAttribute('data-organ', key);
+  });
+
+  DRAWN_REGION_ORGANS.forEach(({ key, color, region }) => {
+    const anchor = svgElement.querySelector<SVGGElement>(`g[data-organ="${region.anchor}"]`);
+    if (!anchor?.parentNode) return;
+
+    const box = anchor.getBBox();
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('data-organ', key);
+    group.setAttribute('data-drawn-region', 'true');
+
+    const ellipse = document.createElementNS(SVG_NS, 'ellipse');
+    ellipse.setAttribute('cx', String(box.x + box.width * region.cx));
+    ellipse.setAttribute('cy', String(box.y + box.height * region.cy));
+    ellipse.setAttribute('rx', String(box.width * region.rx));
+    ellipse.setAttribute('ry', String(box.height * region.ry));
+    ellipse.setAttribute('fill', color);
+    ellipse.setAttribute('fill-opacity', '0.55');
+    ellipse.setAttribute('stroke', color);
+    ellipse.setAttribute('stroke-width', '2');
+
+    group.appendChild(ellipse);
+    anchor.parentNode.appendChild(group);
+  });
+}
+
+// Add the masks that hatch an organ group: `maskId` and the fainter
+// `${maskId}-minority`. Sized generously in user space, since organ groups can
+// carry their own transforms.
+function addHatchMasks(svgElement: SVGSVGElement, maskId: string) {
+  const create = (name: string, attributes: Record<string, string | number>) => {
+    const element = document.createElementNS(SVG_NS, name);
+    Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+    return element;
+  };
+  const cover = { x: -10000, y: -10000, width: 20000, height: 20000 };
+
+  const pattern = create('pattern', {
+    id: `${maskId}-stripes`,
+    patternUnits: 'userSpaceOnUse',
+    width: HATCH.spacing,
+    height: HATCH.spacing,
+    patternTransform: 'rotate(45)',
+  });
+  pattern.appendChild(create('rect', { width: HATCH.stripeWidth, height: HATCH.spacing, fill: '#fff' }));
+
+  const defs = create('defs', {});
+  defs.appendChild(pattern);
+  [
+    { id: maskId, ...HATCH.partial },
+    { id: `${maskId}-minority`, ...HATCH.minority },
+  ].forEach(({ id, stripes, gaps }) => {
+    const mask = create('mask', { id, maskContentUnits: 'userSpaceOnUse' });
+    mask.appendChild(create('rect', { ...cover, fill: '#fff', 'fill-opacity': gaps }));
+    mask.appendChild(
+      create('rect', { ...cover, fill: `url(#${maskId}-stripes)`, 'fill-opacity': stripes })
+    );
+    defs.appendChild(mask);
+  });
+  svgElement.insertBefore(defs, svgElement.firstChild);
 }
 
+const describeAgreement = ({ votes, total }: OrganAgreement) => `${votes} of ${total} engines`;
+
 export function BodyOrganSvg({
   highlightedOrgans,
   organDetails = {},
@@ -96,22 +183,38 @@ export function BodyOrganSvg({
   style,
   columnPositions,
   severityLevels = {},
+  confidenceLevels = {},
+  selectedOrgan = null,
+  onSelectOrgan,
+  showAllOrgans = false,
+  organProvenance = {},
+  view = DEFAULT_BODY_VIEW,
+  organAgreement = {},
 }: BodyOrganSvgProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement | null>(null);
   const [svgReady, setSvgReady] = useState(false);
+  const [hoveredOrgan, setHoveredOrgan] = useState<OrganKey | null>(null);
+  const descriptionId = useId();
+  // useId's colons would have to be escaped inside url(#…)
+  const hatchMaskId = `${descriptionId.replace(/:/g, '')}-hatch`;
   const [markerPositions, setMarkerPositions] = useState<
     Partial<Record<OrganKey, { left: number; top: number }>>
   >({});
 
-  const normalizedHighlights = useMemo(
-    () => highlightedOrgans.map((organ) => organ.toLowerCase()),
+  const highlightedKeys = useMemo(
+    () => new Set(normalizeOrgans(highlightedOrgans).keys),
     [highlightedOrgans]
   );
 
+  const { mirrored } = BODY_VIEWS[view];
+
+  // Affected and part of the current view; organs outside a system layer get
+  // no highlight, marker or label
   const isOrganHighlighted = useCallback(
-    (organKey: OrganKey) => normalizedHighlights.some((name) => name.includes(organKey)),
-    [normalizedHighlights]
+    (organKey: OrganKey) =>
+      highlightedKeys.has(organKey) && isOrganInView(ORGAN_REGISTRY[organKey], view),
+    [highlightedKeys, view]
   );
 
   useEffect(() => {
@@ -124,6 +227,8 @@ export function BodyOrganSvg({
       svgElement.setAttribute('class', 'w-full h-auto');
       svgElement.setAttribute('preserveAspectRatio', 'xMidYMid meet');
       svgRef.current = svgElement as unknown as SVGSVGElement;
+      prepareOrganGroups(svgRef.current);
+      addHatchMasks(svgRef.current, hatchMaskId);
       setSvgReady(true);
     }
 
@@ -145,29 +250,151 @@ export function BodyOrganSvg({
     const viewBoxHeight = viewBox?.height || BODY_VIEWBOX.height;
 
     const positions: Partial<Record<OrganKey, { left: number; top: number }>> = {};
+    const boxes: Partial<Record<OrganKey, DOMRect>> = {};
+
+    // Nearest organs last, so they are drawn on top for this view
+    organPaintOrder(view).forEach((organKey) => {
+      const organGroup = svgElement.querySelector(`g[data-organ="${organKey}"]`);
+      organGroup?.parentNode?.appendChild(organGroup);
+    });
 
-    (Object.entries(ORGAN_CLIP_IDS) as [OrganKey, string][]).forEach(([organKey, clipId]) => {
+    BODY_ORGANS.forEach((organ) => {
+      const organKey = organ.key;
       const organGroup = svgElement.querySelector(
-        `g[clip-path="url(#${clipId})"]`
+        `g[data-organ="${organKey}"]`
       ) as SVGGElement | null;
 
       if (!organGroup) return;
 
+      const inView = isOrganInView(organ, view);
       const highlighted = isOrganHighlighted(organKey);
       organGroup.style.transition = 'opacity 0s ease, filter 0.3s ease';
-      organGroup.style.opacity = highlighted ? '1' : isDarkMode ? '0' : '0';
-      organGroup.style.filter = highlighted ? `drop-shadow(0 0 12px ${ORGAN_COLORS[organKey]})` : 'none';
-      organGroup.setAttribute('data-organ', organKey);
+      organGroup.style.opacity = highlighted ? '1' : showAllOrgans && inView ? '0.25' : '0';
+      // Hidden organs must not catch hovers and clicks meant for the ones around them
+      const clickable = highlighted || (showAllOrgans && inView);
+      organGroup.style.pointerEvents = clickable ? 'auto' : 'none';
+      organGroup.style.cursor = clickable && onSelectOrgan ? 'pointer' : '';
 
+      if (!inView) return;
       const bbox = organGroup.getBBox();
+      if (highlighted) boxes[organKey] = bbox;
+      const left = ((bbox.x + bbox.width / 2) / viewBoxWidth) * 100;
       positions[organKey] = {
-        left: ((bbox.x + bbox.width / 2) / viewBoxWidth) * 100,
+        // The figure is flipped in mirrored views, so its markers are too
+        left: mirrored ? 100 - left : left,
         top: ((bbox.y + bbox.height / 2) / viewBoxHeight) * 100,
       };
     });
 
+    (Object.keys(boxes) as OrganKey[]).forEach((organKey) => {
+      const distance = organDistance(ORGAN_REGISTRY[organKey], view);
+      const coversAnother = (Object.keys(boxes) as OrganKey[]).some(
+        (other) =>
+          organDistance(ORGAN_REGISTRY[other], view) > distance &&
+          boxesOverlap(boxes[organKey]!, boxes[other]!)
+      );
+      if (coversAnother) {
+        svgElement
+          .querySelector<SVGGElement>(`g[data-organ="${organKey}"]`)
+          ?.style.setProperty('opacity', String(SEE_THROUGH_OPACITY));
+      }
+    });
+
     setMarkerPositions(positions);
-  }, [highlightedOrgans, isDarkMode, isOrganHighlighted, svgReady]);
+  }, [
+    highlightedOrgans,
+    isDarkMode,
+    isOrganHighlighted,
+    svgReady,
+    onSelectOrgan,
+    showAllOrgans,
+    view,
+    mirrored,
+  ]);
+
+  // Glow and accessibility attributes. Every organ that can be clicked is also
+  // a tab stop, named with its severity and described by its finding; the
+  // hovered or focused organ glows so keyboard focus is visible. Kept apart
+  // from the effect above, which sets state, so new detail objects on each
+  // render do not trigger a relayout.
+  useEffect(() => {
+    if (!svgReady || !svgRef.current) return;
+
+    BODY_ORGANS.forEach((organ) => {
+      const organGroup = svgRef.current!.querySelector<SVGGElement>(`g[data-organ="${organ.key}"]`);
+      if (!organGroup) return;
+
+      const highlighted = isOrganHighlighted(organ.key);
+      const agreement = organAgreement[organ.key];
+      if (highlighted && agreement && !isUnanimous(agreement)) {
+        organGroup.setAttribute(
+          'mask',
+          `url(#${isMinority(agreement) ? `${hatchMaskId}-minority` : hatchMaskId})`
+        );
+      } else {
+        organGroup.removeAttribute('mask');
+      }
+      organGroup.style.filter = !highlighted
+        ? 'none'
+        : organ.key === selectedOrgan
+          ? `drop-shadow(0 0 6px #ffffff) drop-shadow(0 0 18px ${organ.color})`
+          : organ.key === hoveredOrgan
+            ? `drop-shadow(0 0 2px #ffffff) drop-shadow(0 0 12px ${organ.color})`
+            : `drop-shadow(0 0 12px ${organ.color})`;
+      if (!highlighted && !(showAllOrgans && isOrganInView(organ, view))) {
+        ['tabindex', 'role', 'aria-label', 'aria-pressed', 'aria-describedby'].forEach((name) =>
+          organGroup.removeAttribute(name)
+        );
+        organGroup.setAttribute('aria-hidden', 'true');
+        return;
+      }
+
+      organGroup.removeAttribute('aria-hidden');
+      organGroup.setAttribute('tabindex', '0');
+      organGroup.setAttribute('role', onSelectOrgan ? 'button' : 'img');
+      organGroup.setAttribute(
+        'aria-label',
+        highlighted
+          ? [
+              describeOrgan(organ.key, severityLevels[organ.key], confidenceLevels[organ.key]),
+              ...(agreement ? [`flagged by ${describeAgreement(agreement)}`] : []),
+            ].join(', ')
+          : `${organ.label}, not affected`
+      );
+      if (onSelectOrgan) organGroup.setAttribute('aria-pressed', String(organ.key === selectedOrgan));
+      else organGroup.removeAttribute('aria-pressed');
+      if (highlighted && getOrganDetail(organDetails, organ)) {
+        organGroup.setAttribute('aria-describedby', `${descriptionId}-${organ.key}`);
+      } else {
+        organGroup.removeAttribute('aria-describedby');
+      }
+    });
+  });
+
+  const selectableOrgan = (organKey: OrganKey | undefined) =>
+    organKey && onSelectOrgan && (showAllOrgans || isOrganHighlighted(organKey)) ? organKey : undefined;
+
+  const handleFigureClick = (event: React.MouseEvent) => {
+    const organKey = selectableOrgan(organKeyFromEvent(event));
+    if (organKey) onSelectOrgan?.(organKey);
+  };
+
+  const handleFigureKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    const organKey = selectableOrgan(organKeyFromEvent(event));
+    if (organKey) {
+      event.preventDefault();
+      onSelectOrgan?.(organKey);
+    }
+  };
+
+  // Pointer over or keyboard focus on an organ shows its tooltip and connector
+  const handleFigureHover = (event: React.SyntheticEvent) => {
+    const organKey = organKeyFromEvent(event);
+    setHoveredOrgan(organKey && isOrganHighlighted(organKey) ? organKey : null);
+  };
+
+  const affectedKeys = BODY_ORGANS.map(({ key }) => key).filter(isOrganHighlighted);
 
   return (
     <div
@@ -179,11 +406,40 @@ export function BodyOrganSvg({
     >
       <div
         ref={containerRef}
+        data-body-figure
+        data-body-view={view}
         className="w-full h-full"
-        style={{ width: '100%', height: '100%' }}
-        aria-label="Human body with organs"
+        style={{
+          width: '100%',
+          height: '100%',
+          transform: mirrored ? 'scaleX(-1)' : undefined,
+        }}
+        role="group"
+        aria-label={`${BODY_VIEWS[view].label} view of the human body with organs`}
+        aria-describedby={`${descriptionId}-summary`}
+        onClick={handleFigureClick}
+        onKeyDown={handleFigureKeyDown}
+        onMouseOver={handleFigureHover}
+        onMouseLeave={() => setHoveredOrgan(null)}
+        onFocus={handleFigureHover}
+        onBlur={() => setHoveredOrgan(null)}
       />
 
+      {/* Text alternative for the figure and the findings its organs are described by */}
+      <div hidden>
+        <p id={`${descriptionId}-summary`}>
+          {describeAffectedOrgans(affectedKeys, severityLevels, confidenceLevels)}
+        </p>
+        {affectedKeys.map((organKey) => {
+          const detail = getOrganDetail(organDetails, ORGAN_REGISTRY[organKey]);
+          return detail ? (
+            <p key={organKey} id={`${descriptionId}-${organKey}`}>
+              {detail}
+            </p>
+          ) : null;
+        })}
+      </div>
+
       <OrganMarkersContainer
         highlightedOrgans={highlightedOrgans}
         organDetails={organDetails}
@@ -191,6 +447,13 @@ export function BodyOrganSvg({
         isOrganHighlighted={isOrganHighlighted}
         columnPositions={columnPositions}
         severityLevels={severityLevels}
+        confidenceLevels={confidenceLevels}
+        selectedOrgan={selectedOrgan}
+        hoveredOrgan={hoveredOrgan}
+        onHoverOrgan={setHoveredOrgan}
+        onSelectOrgan={onSelectOrgan}
+        organProvenance={organProvenance}
+        organAgreement={organAgreement}
       />
     </div>
   );
@@ -203,6 +466,13 @@ interface OrganMarkersContainerProps {
   isOrganHighlighted: (organKey: OrganKey) => boolean;
   columnPositions?: ColumnPositionOverrides;
   severityLevels: Partial<Record<OrganKey, SeverityLevel>>;
+  confidenceLevels: Partial<Record<OrganKey, number>>;
+  selectedOrgan: OrganKey | null;
+  hoveredOrgan: OrganKey | null;
+  onHoverOrgan: (organKey: OrganKey | null) => void;
+  onSelectOrgan?: (organKey: OrganKey) => void;
+  organProvenance: OrganProvenanceMap;
+  organAgreement: OrganAgreementMap;
 }
 
 function OrganMarkersContainer({
@@ -212,91 +482,136 @@ function OrganMarkersContainer({
   isOrganHighlighted,
   columnPositions,
   severityLevels,
+  confidenceLevels,
+  selectedOrgan,
+  hoveredOrgan,
+  onHoverOrgan,
+  onSelectOrgan,
+  organProvenance,
+  organAgreement,
 }: OrganMarkersContainerProps) {
-  const gridPositions = useMemo(() => {
-    const highlighted = (Object.keys(ORGAN_CLIP_IDS) as OrganKey[])
-      .filter(isOrganHighlighted)
-      .map((organKey) => ({
-        organKey,
-        position: markerPositions[organKey],
-      }))
-      .filter(
-        (item): item is { organKey: OrganKey; position: { left: number; top: number } } =>
-          !!item.position
-      );
-
-    const halfHeight = LABEL_LAYOUT.cardHeight / 2;
-    const minCenter = LABEL_LAYOUT.topPadding + halfHeight;
-    const maxCenter = 100 - LABEL_LAYOUT.bottomPadding - halfHeight;
-    const spacing = LABEL_LAYOUT.cardHeight + LABEL_LAYOUT.minVerticalGap;
-
-    const clampCenter = (value: number) => Math.min(Math.max(value, minCenter), maxCenter);
-
-    const adjustSide = (items: typeof highlighted, columnX: number, isRightSide: boolean) => {
-      const sortedItems = items.sort((a, b) => a.position.top - b.position.top);
-      const centers: number[] = [];
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef(new Map<OrganKey, HTMLDivElement>());
+  const [cardSizes, setCardSizes] = useState<Partial<Record<OrganKey, LabelSize>>>({});
+  const [horizontalBounds, setHorizontalBounds] = useState<{ min: number; max: number }>();
+
+  const placedLabels = useMemo(
+    () =>
+      layoutLabels(
+        BODY_ORGANS.map(({ key }) => key)
+          .filter(isOrganHighlighted)
+          .flatMap((organKey) => {
+            const position = markerPositions[organKey];
+            return position
+              ? [{ id: organKey, anchor: { x: position.left, y: position.top }, size: cardSizes[organKey] }]
+              : [];
+          }),
+        {
+          leftColumnX: columnPositions?.left ?? GRID_CONFIG.leftNameColumnX,
+          rightColumnX: columnPositions?.right ?? GRID_CONFIG.rightNameColumnX,
+          top: LABEL_LAYOUT.topPadding,
+          bottom: 100 - LABEL_LAYOUT.bottomPadding,
+          gap: LABEL_LAYOUT.minVerticalGap,
+          defaultSize: { width: LABEL_LAYOUT.cardWidth, height: LABEL_LAYOUT.cardHeight },
+          horizontalBounds,
+        }
+      ),
+    [markerPositions, isOrganHighlighted, columnPositions, cardSizes, horizontalBounds]
+  );
 
-      sortedItems.forEach(({ position }, index) => {
-        const preferred = clampCenter(position.top);
-        const minAllowed = index === 0 ? minCenter : centers[index - 1] + spacing;
-        centers[index] = Math.max(preferred, minAllowed);
+  // Measure the rendered cards, as percentages of the figure, whenever the
+  // figure or a card changes size. Compact cards are not measured: the layout
+  // decides on compacting from the full size, and measuring the compacted card
+  // would undo that decision on the next pass.
+  const renderedKeys = placedLabels.map(({ id }) => id).join(',');
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const { clientWidth: width, clientHeight: height } = container;
+      if (!width || !height) return;
+
+      setCardSizes((previous) => {
+        let changed = false;
+        const next = { ...previous };
+        cardRefs.current.forEach((card, organKey) => {
+          if (card.dataset.compact === 'true') return;
+          const size = {
+            width: (card.offsetWidth / width) * 100,
+            height: (card.offsetHeight / height) * 100,
+          };
+          const current = previous[organKey];
+          if (
+            !current ||
+            Math.abs(current.width - size.width) > LABEL_LAYOUT.measureTolerance ||
+            Math.abs(current.height - size.height) > LABEL_LAYOUT.measureTolerance
+          ) {
+            next[organKey] = size;
+            changed = true;
+          }
+        });
+        return changed ? next : previous;
       });
 
-      if (centers.length > 0 && centers[centers.length - 1] > maxCenter) {
-        let overflow = centers[centers.length - 1] - maxCenter;
-        for (let i = centers.length - 1; i >= 0 && overflow > 0; i -= 1) {
-          const prevBound = i === 0 ? minCenter : centers[i - 1] + spacing;
-          const availableShift = centers[i] - prevBound;
-          if (availableShift <= 0) continue;
-          const shift = Math.min(availableShift, overflow);
-          centers[i] -= shift;
-          overflow -= shift;
-        }
-      }
-
-      return sortedItems.map(({ organKey, position }, index) => ({
-        organKey,
-        organPosition: position,
-        isRightSide,
-        columnX,
-        rowY: centers[index],
-      }));
+      // Keep cards inside the visualization they are drawn in
+      const stage = container.closest('[data-visualization-stage]')?.getBoundingClientRect();
+      const rect = container.getBoundingClientRect();
+      setHorizontalBounds((previous) => {
+        if (!stage || !rect.width) return undefined;
+        const bounds = {
+          min: ((stage.left - rect.left) / rect.width) * 100,
+          max: ((stage.right - rect.left) / rect.width) * 100,
+        };
+        return previous &&
+          Math.abs(previous.min - bounds.min) <= LABEL_LAYOUT.measureTolerance &&
+          Math.abs(previous.max - bounds.max) <= LABEL_LAYOUT.measureTolerance
+          ? previous
+          : bounds;
+      });
     };
 
-    const leftColumnX = columnPositions?.left ?? GRID_CONFIG.leftNameColumnX;
-    const rightColumnX = columnPositions?.right ?? GRID_CONFIG.rightNameColumnX;
-
-    const leftAssignments = adjustSide(
-      highlighted.filter((item) => item.position.left <= 50),
-      leftColumnX,
-      false
-    );
-    const rightAssignments = adjustSide(
-      highlighted.filter((item) => item.position.left > 50),
-      rightColumnX,
-      true
-    );
-
-    return [...leftAssignments, ...rightAssignments];
-  }, [markerPositions, isOrganHighlighted, columnPositions]);
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    cardRefs.current.forEach((card) => observer.observe(card));
+    measure();
+    return () => observer.disconnect();
+  }, [renderedKeys]);
 
   return (
-    <div className="pointer-events-none absolute inset-0">
-      {gridPositions.map(({ organKey, organPosition, isRightSide, columnX, rowY }) => {
-        const organDetail =
-          organDetails[organKey] || organDetails[ORGAN_LABELS[organKey].toLowerCase()];
+    // Markers and cards repeat what the focusable organs announce, so they are
+    // hidden from assistive technology and left out of the tab order
+    <div ref={containerRef} className="pointer-events-none absolute inset-0" aria-hidden="true">
+      {placedLabels.map((placed) => {
+        const { id: organKey, side, columnX, y, compact } = placed;
+        const organ = ORGAN_REGISTRY[organKey];
+        const organDetail = getOrganDetail(organDetails, organ);
         const severityKey = severityLevels[organKey];
-        const severityColor = severityKey ? SEVERITY_COLORS[severityKey] : ORGAN_COLORS[organKey];
+        const severityColor = severityKey ? SEVERITY_COLORS[severityKey] : organ.color;
         return (
           <OrganMarker
             key={organKey}
-            color={ORGAN_COLORS[organKey]}
+            color={organ.color}
             severityColor={severityColor}
-            label={ORGAN_LABELS[organKey]}
+            severity={severityKey}
+            confidence={confidenceLevels[organKey]}
+            label={organ.label}
             issue={organDetail}
-            organPosition={organPosition}
-            gridPosition={{ columnX, rowY }}
-            isRightSide={isRightSide}
+            organPosition={{ left: placed.anchor.x, top: placed.anchor.y }}
+            gridPosition={{ columnX, rowY: y }}
+            connector={connectorPoints(placed)}
+            isRightSide={side === 'right'}
+            compact={compact}
+            cardRef={(card) => {
+              if (card) cardRefs.current.set(organKey, card);
+              else cardRefs.current.delete(organKey);
+            }}
+            isSelected={organKey === selectedOrgan}
+            isHovered={organKey === hoveredOrgan}
+            onHoverChange={(hovered) => onHoverOrgan(hovered ? organKey : null)}
+            onSelect={onSelectOrgan && (() => onSelectOrgan(organKey))}
+            clinicianBadge={CLINICIAN_BADGES[organProvenance[organKey]?.source ?? 'ai']}
+            agreement={organAgreement[organKey]}
           />
         );
       })}
@@ -307,29 +622,59 @@ function OrganMarkersContainer({
 interface OrganMarkerProps {
   color: string;
   severityColor: string;
+  severity?: SeverityLevel; // This organ's own severity, shown on the card
+  confidence?: number;
   label: string;
   issue?: string;
   organPosition: { left: number; top: number };
-  gridPosition: { columnX: number; rowY: number };
+  gridPosition: { columnX: number; rowY: number }; // Card edge facing the figure, and card centre
+  connector: { x: number; y: number }[]; // Polyline from the card to the organ
   isRightSide: boolean;
+  compact?: boolean; // Tighter card when a column is crowded
+  isSelected: boolean;
+  isHovered: boolean; // Pointer is over the marker, its card or the organ artwork
+  onHoverChange: (hovered: boolean) => void;
+  onSelect?: () => void;
+  clinicianBadge?: string; // Set when the clinician added or edited the organ
+  agreement?: OrganAgreement; // Consensus results: how many engines flagged the organ
+  cardRef: (card: HTMLDivElement | null) => void; // Registers the card for measuring
 }
 
 const OrganMarker: React.FC<OrganMarkerProps> = ({
   color,
   severityColor,
+  severity,
+  confidence,
   label,
   issue,
   organPosition,
   gridPosition,
+  connector,
   isRightSide,
+  compact = false,
+  isSelected,
+  isHovered,
+  onHoverChange,
+  onSelect,
+  clinicianBadge,
+  agreement,
+  cardRef,
 }) => {
   const organX = organPosition.left;
   const organY = organPosition.top;
   const { columnX, rowY } = gridPosition;
-
-  const anchorX = columnX;
-  const connectorMidX = (organX + anchorX) / 2;
-  const pathCommand = `M ${anchorX} ${rowY} L ${connectorMidX} ${rowY} L ${organX} ${organY}`;
+  const reduceMotion = useReducedMotion();
+
+  const pathCommand = connector
+    .map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'} ${x} ${y}`)
+    .join(' ');
+  const hoverHandlers = {
+    onMouseEnter: () => onHoverChange(true),
+    onMouseLeave: () => onHoverChange(false),
+    onFocus: () => onHoverChange(true),
+    onBlur: () => onHoverChange(false),
+  };
+  const selectLabel = `Show ${label} details`;
   return (
     <>
       {/* Horizontal connecting line */}
@@ -352,9 +697,9 @@ const OrganMarker: React.FC<OrganMarkerProps> = ({
           strokeWidth="0.25"
           strokeDasharray="1,0.6"
           opacity={0.6}
-          initial={{ pathLength: 0, opacity: 0 }}
-          animate={{ pathLength: 1, opacity: 0.6 }}
-          transition={{ duration: 0.6, delay: 0.2, ease: "easeOut" }}
+          initial={reduceMotion ? false : { pathLength: 0, opacity: 0 }}
+          animate={{ pathLength: 1, opacity: isSelected || isHovered ? 1 : 0.6 }}
+          transition={reduceMotion ? { duration: 0 } : { duration: 0.6, delay: 0.2, ease: "easeOut" }}
         />
       </svg>
 
@@ -367,24 +712,48 @@ const OrganMarker: React.FC<OrganMarkerProps> = ({
           transform: 'translate(-50%, -50%)',
           zIndex: 2,
         }}
-        initial={{ opacity: 0, scale: 0.8 }}
+        initial={reduceMotion ? false : { opacity: 0, scale: 0.8 }}
         animate={{ opacity: 1, scale: 1 }}
         transition={{ duration: 0.4 }}
       >
-        <div className="relative h-9 w-9">
-          <motion.span
-            className="absolute inset-0 rounded-full"
-            style={{ backgroundColor: color, opacity: 0.2 }}
-            animate={{ scale: [1, 1.8, 1], opacity: [0.3, 0, 0.3] }}
-            transition={{ duration: 2.5, repeat: Infinity, ease: 'easeInOut' }}
-          />
-          <span
-            className="relative flex h-9 w-9 items-center justify-center rounded-full text-base text-white shadow-lg"
-            style={{ backgroundColor: color }}
+        <Tooltip open={isHovered && !isSelected}>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              className={`relative block h-9 w-9 rounded-full pointer-events-auto ${onSelect ? 'cursor-pointer' : 'cursor-default'}`}
+              onClick={onSelect}
+              data-organ-marker
+              aria-label={onSelect ? selectLabel : label}
+              aria-pressed={onSelect ? isSelected : undefined}
+              tabIndex={-1}
+              {...hoverHandlers}
+            >
+              {!reduceMotion && (
+                <motion.span
+                  className="absolute inset-0 rounded-full"
+                  style={{ backgroundColor: color, opacity: 0.2 }}
+                  animate={{ scale: [1, 1.8, 1], opacity: [0.3, 0, 0.3] }}
+                  transition={{ duration: 2.5, repeat: Infinity, ease: 'easeInOut' }}
+                />
+              )}
+              <span
+                className={`relative flex h-9 w-9 items-center justify-center rounded-full text-base text-white shadow-lg ${isSelected ? 'ring-2 ring-white' : ''}`}
+                style={{ backgroundColor: color }}
+              >
+                ⚠️
+              </span>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent
+            side={isRightSide ? 'left' : 'right'}
+            sideOffset={6}
+            className="max-w-64 bg-slate-900 text-slate-100 border border-slate-700"
           >
-            ⚠️
-          </span>
-        </div>
+            <p className="font-semibold">{label}</p>
+            {issue && <p className="mt-0.5 text-slate-300">{issue}</p>}
+            {onSelect && <p className="mt-1 text-[0.65rem] text-slate-400">Click for details</p>}
+          </TooltipContent>
+        </Tooltip>
       </motion.div>
 
       {/* Organ info card */}
@@ -392,33 +761,39 @@ const OrganMarker: React.FC<OrganMarkerProps> = ({
         className="absolute"
         style={{
           ...(isRightSide
-            ? { right: `${100 - columnX}%`, left: 'auto' }
-            : { left: `${columnX}%`, right: 'auto' }),
+            ? { left: `${columnX}%`, right: 'auto' }
+            : { right: `${100 - columnX}%`, left: 'auto' }),
           top: `${rowY}%`,
-          transform: isRightSide ? 'translate(0%, -50%)' : 'translate(-100%, -50%)',
+          transform: 'translate(0%, -50%)',
           zIndex: 3,
           minWidth: LABEL_LAYOUT.minWidth ? `${LABEL_LAYOUT.minWidth}%` : undefined,
           width: 'max-content',
         }}
-        initial={{ opacity: 0, x: isRightSide ? 40 : -40 }}
+        initial={reduceMotion ? false : { opacity: 0, x: isRightSide ? 40 : -40 }}
         animate={{ opacity: 1, x: 0 }}
         transition={{ duration: 0.5, delay: 0.3 }}
       >
         <div
-          className="rounded-xl border shadow-lg px-3 py-2 backdrop-blur-sm"
+          ref={cardRef}
+          data-compact={compact}
+          className={`rounded-xl border shadow-lg px-3 backdrop-blur-sm pointer-events-auto ${compact ? 'py-1' : 'py-2'} ${onSelect ? 'cursor-pointer' : ''}`}
+          onClick={onSelect}
+          data-organ-marker
+          {...hoverHandlers}
           style={{
             backgroundColor: 'rgba(15, 23, 42, 0.92)',
-            borderColor: `${color}aa`,
+            borderColor: isSelected ? '#ffffff' : `${color}aa`,
+            borderStyle: clinicianBadge ? 'dashed' : 'solid',
             boxShadow: `0 10px 25px ${color}20`,
             borderTop: `1px solid rgba(148, 163, 184, ${GRID_CONFIG.separatorOpacity})`,
           }}
         >
-          <div className="relative overflow-hidden rounded-md mb-1 h-7 flex items-center">
+          <div className={`relative overflow-hidden rounded-md mb-1 flex items-center ${compact ? 'h-5' : 'h-7'}`}>
             <motion.span
               className="absolute inset-0 opacity-50"
               style={{ backgroundColor: severityColor }}
-              animate={{ opacity: [0.25, 0.6, 0.25] }}
-              transition={{ duration: 2, repeat: Infinity, ease: 'easeInOut' }}
+              animate={reduceMotion ? { opacity: 0.4 } : { opacity: [0.25, 0.6, 0.25] }}
+              transition={reduceMotion ? { duration: 0 } : { duration: 2, repeat: Infinity, ease: 'easeInOut' }}
             />
             <div
               className="relative text-[0.8rem] font-semibold uppercase tracking-wide text-white px-2 flex-1"
@@ -426,13 +801,42 @@ const OrganMarker: React.FC<OrganMarkerProps> = ({
             >
               <span>{label}</span>
             </div>
+            {(severity || confidence !== undefined) && (
+              <span
+                className="relative mr-1 flex items-center gap-1 rounded px-1.5 text-[0.6rem] font-semibold uppercase tracking-wide text-white"
+                style={{ backgroundColor: `${severityColor}cc` }}
+              >
+                {severity && <SeverityIcon severity={severity} className="w-2.5 h-2.5" />}
+                {[severity, confidence !== undefined ? `${Math.round(confidence)}%` : null]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
+            )}
           </div>
+          {clinicianBadge && (
+            <p className="text-[0.6rem] font-semibold uppercase tracking-wide text-cyan-300">
+              {clinicianBadge}
+            </p>
+          )}
+          {agreement && (
+            <p
+              className={`text-[0.6rem] font-semibold uppercase tracking-wide ${
+                isUnanimous(agreement)
+                  ? 'text-emerald-300'
+                  : isMinority(agreement)
+                    ? 'text-slate-400'
+                    : 'text-amber-300'
+              }`}
+            >
+              {describeAgreement(agreement)}
+            </p>
+          )}
           {issue && (
             <p
-              className="text-[0.65rem] text-slate-200/80 leading-snug line-clamp-2"
+              className={`text-[0.65rem] text-slate-200/80 leading-snug ${compact ? 'line-clamp-1' : 'line-clamp-2'}`}
               style={{
                 display: '-webkit-box',
-                WebkitLineClamp: 2,
+                WebkitLineClamp: compact ? 1 : 2,
                 WebkitBoxOrient: 'vertical',
                 overflow: 'hidden',
               }}
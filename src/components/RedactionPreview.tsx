@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { EyeOff, Plus, ShieldCheck, X } from "lucide-react";
+import type { AnalyzeRequest, RedactionSettings } from "../api";
+import {
+  EMPTY_REDACTION_SETTINGS,
+  redactRequest,
+  redactionKey,
+  type RedactedSpan,
+} from "../redaction";
+
+interface RedactionPreviewProps {
+  request: AnalyzeRequest; // Current form contents, with the redaction settings
+  onChange: (settings: RedactionSettings) => void;
+  disabled?: boolean;
+  isDarkMode: boolean;
+}
+
+const withoutKey = (values: string[], value: string) =>
+  values.filter((other) => redactionKey(other) !== redactionKey(value));
+
+// What the backend will receive: the description with every detected
+// identifier shown as its placeholder. Clicking an identifier sends it as
+// written instead, and the clinician can add terms the detector missed.
+export function RedactionPreview({
+  request,
+  onChange,
+  disabled = false,
+  isDarkMode,
+}: RedactionPreviewProps) {
+  const [term, setTerm] = useState("");
+  const settings = request.redaction ?? EMPTY_REDACTION_SETTINGS;
+  const { request: redacted, spans } = redactRequest(request);
+  const replacedCount = spans.filter((span) => span.placeholder).length;
+
+  const toggleSpan = ({ text, placeholder }: RedactedSpan) =>
+    onChange({
+      ...settings,
+      allowed: placeholder
+        ? [...settings.allowed, text]
+        : withoutKey(settings.allowed, text),
+    });
+
+  const addTerm = () => {
+    const value = term.trim();
+    if (!value) return;
+    onChange({
+      allowed: withoutKey(settings.allowed, value),
+      added: [...withoutKey(settings.added, value), value],
+    });
+    setTerm("");
+  };
+
+  // The description cut into plain text and detected identifiers
+  const segments: (string | RedactedSpan)[] = [];
+  let cursor = 0;
+  spans.forEach((span) => {
+    if (span.start > cursor) segments.push(request.description.slice(cursor, span.start));
+    segments.push(span);
+    cursor = span.end;
+  });
+  if (cursor < request.description.length) segments.push(request.description.slice(cursor));
+
+  const mutedText = isDarkMode ? "text-slate-500" : "text-slate-500";
+
+  return (
+    <div
+      className={`rounded-lg border p-3 space-y-3 ${isDarkMode ? "border-slate-700 bg-slate-800/40" : "border-slate-200 bg-slate-50"}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p
+          className={`flex items-center gap-1.5 text-xs font-medium ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+        >
+          <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
+          Redaction Preview
+        </p>
+        <span className={`text-xs ${mutedText}`}>
+          {replacedCount} {replacedCount === 1 ? "identifier" : "identifiers"} replaced
+        </span>
+      </div>
+
+      <p className={`text-xs ${mutedText}`}>
+        Sent as patient <span className="font-mono">{redacted.patientName || "—"}</span>,
+        physician <span className="font-mono">{redacted.doctorName || "—"}</span>
+      </p>
+
+      {request.description.trim() ? (
+        <p
+          className={`max-h-40 overflow-y-auto whitespace-pre-wrap text-xs leading-relaxed ${isDarkMode ? "text-slate-300" : "text-slate-700"}`}
+          aria-label="Description as it will be sent"
+        >
+          {segments.map((segment, index) =>
+            typeof segment === "string" ? (
+              segment
+            ) : (
+              <button
+                key={`${segment.start}-${index}`}
+                type="button"
+                disabled={disabled}
+                onClick={() => toggleSpan(segment)}
+                aria-pressed={!!segment.placeholder}
+                title={
+                  segment.placeholder
+                    ? `${segment.text} (${segment.category}) — click to send as written`
+                    : `Sent as written — click to redact`
+                }
+                className={`mx-px rounded px-1 font-mono transition-colors ${
+                  segment.placeholder
+                    ? "bg-emerald-500/15 text-emerald-400 hover:bg-emerald-500/25"
+                    : "border border-dashed border-amber-500/60 text-amber-400 hover:bg-amber-500/10"
+                }`}
+              >
+                {segment.placeholder ?? segment.text}
+              </button>
+            ),
+          )}
+        </p>
+      ) : (
+        <p className={`text-xs ${mutedText}`}>Identifiers in the description will show here.</p>
+      )}
+
+      {settings.added.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {settings.added.map((value) => (
+            <span
+              key={value}
+              className={`flex items-center gap-1 rounded px-1.5 py-0.5 text-xs ${isDarkMode ? "bg-slate-700 text-slate-300" : "bg-slate-200 text-slate-700"}`}
+            >
+              <EyeOff className="w-3 h-3" />
+              {value}
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange({ ...settings, added: withoutKey(settings.added, value) })}
+                aria-label={`Stop redacting ${value}`}
+                className="hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={term}
+          disabled={disabled}
+          onChange={(e) => setTerm(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds the term instead of submitting the analysis
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addTerm();
+            }
+          }}
+          placeholder="Also redact…"
+          aria-label="Term to redact"
+          className={`flex-1 min-w-0 px-3 py-1.5 text-xs ${isDarkMode ? "bg-slate-800 border-slate-700 text-white placeholder-slate-500" : "bg-white border-slate-300 text-slate-900 placeholder-slate-400"} border rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+        />
+        <button
+          type="button"
+          disabled={disabled || !term.trim()}
+          onClick={addTerm}
+          className={`flex items-center gap-1 px-2.5 py-1.5 text-xs rounded-md disabled:opacity-50 ${isDarkMode ? "bg-slate-700 hover:bg-slate-600 text-white" : "bg-slate-200 hover:bg-slate-300 text-slate-900"}`}
+        >
+          <Plus className="w-3 h-3" />
+          Redact
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,39 @@
+import {
+  DEFAULT_ENGINE_ORDER,
+  ENGINES,
+  ENGINE_IDS,
+  type EngineHealth,
+  type EngineId,
+} from '../api';
+import { EngineStatusBadge } from './EngineStatusBadge';
+
 interface AnalysisResult {
   diagnosis: string;
   organs: string[];
   explanation: string;
   confidence?: number;
+  engine?: EngineId;
 }
 
 interface ResultsPanelProps {
   result: AnalysisResult;
   activeTab: 'summary' | 'engines';
+  engineHealth?: Partial<Record<EngineId, EngineHealth>>; // From useEngineHealth
+  engineOrder?: readonly EngineId[]; // Fallback order the analysis was sent with
 }
 
-export function ResultsPanel({ result, activeTab }: ResultsPanelProps) {
+const ENGINE_DESCRIPTIONS: Record<EngineId, string> = {
+  gemini: "Google's Gemini model for medical pattern detection and diagnosis assistance.",
+  llama: 'Local inference model for offline analysis; the text never leaves the site.',
+  triton: 'Self-hosted inference server for batch processing and advanced model deployment.',
+};
+
+export function ResultsPanel({
+  result,
+  activeTab,
+  engineHealth = {},
+  engineOrder = DEFAULT_ENGINE_ORDER,
+}: ResultsPanelProps) {
   if (activeTab === 'summary') {
     return (
       <div className="p-8 space-y-6">
@@ -68,47 +91,35 @@ export function ResultsPanel({ result, activeTab }: ResultsPanelProps) {
     );
   }
 
+  const rows = [...engineOrder, ...ENGINE_IDS.filter((engine) => !engineOrder.includes(engine))];
+
   return (
     <div className="p-8">
       <div className="space-y-4">
-        <div className="border border-gray-200 rounded-lg p-4">
-          <div className="flex items-center justify-between mb-2">
-            <h3 className="text-gray-800">Google Gemini API</h3>
-            <span className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs">
-              Active
-            </span>
-          </div>
-          <p className="text-gray-600 text-sm">
-            Primary analysis engine using Google's Gemini model for medical pattern
-            detection and diagnosis assistance.
-          </p>
-        </div>
-
-        <div className="border border-gray-200 rounded-lg p-4 opacity-60">
-          <div className="flex items-center justify-between mb-2">
-            <h3 className="text-gray-800">Local Llama Model</h3>
-            <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
-              Fallback
-            </span>
-          </div>
-          <p className="text-gray-600 text-sm">
-            Local inference model for offline analysis when external APIs are
-            unavailable.
-          </p>
-        </div>
-
-        <div className="border border-gray-200 rounded-lg p-4 opacity-60">
-          <div className="flex items-center justify-between mb-2">
-            <h3 className="text-gray-800">Triton Inference Server</h3>
-            <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
-              Fallback
-            </span>
-          </div>
-          <p className="text-gray-600 text-sm">
-            High-performance inference server for batch processing and advanced
-            model deployment.
-          </p>
-        </div>
+        {rows.map((engine) => {
+          const position = engineOrder.indexOf(engine);
+          return (
+            <div
+              key={engine}
+              className={`border border-gray-200 rounded-lg p-4 ${position === -1 ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-gray-800">{ENGINES[engine].label}</h3>
+                <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
+                  {result.engine === engine
+                    ? 'Answered'
+                    : position === 0
+                      ? 'Primary'
+                      : position > 0
+                        ? `Fallback ${position}`
+                        : 'Not used'}
+                </span>
+              </div>
+              <p className="text-gray-600 text-sm">{ENGINE_DESCRIPTIONS[engine]}</p>
+              <EngineStatusBadge health={engineHealth[engine]} className="mt-2 text-xs" />
+            </div>
+          );
+        })}
       </div>
     </div>
   );
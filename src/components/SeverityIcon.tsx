@@ -0,0 +1,22 @@
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+type SeverityLevel = 'low' | 'medium' | 'high';
+
+// Same icons as the overall severity badge, so a level is recognisable by shape
+// as well as by color
+const SEVERITY_ICONS = {
+  low: CheckCircle2,
+  medium: AlertCircle,
+  high: AlertTriangle,
+} as const;
+
+interface SeverityIconProps {
+  severity: SeverityLevel;
+  className?: string;
+}
+
+// Decorative: the level is always spelled out next to it
+export function SeverityIcon({ severity, className = 'w-3 h-3' }: SeverityIconProps) {
+  const Icon = SEVERITY_ICONS[severity];
+  return <Icon className={`shrink-0 ${className}`} aria-hidden="true" />;
+}
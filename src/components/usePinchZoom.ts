@@ -0,0 +1,113 @@
+import { useCallback, useRef, useState, type CSSProperties, type PointerEvent } from 'react';
+
+const ZOOM_LIMITS = { min: 1, max: 3 };
+const DOUBLE_TAP_MS = 300;
+
+interface Zoom {
+  scale: number;
+  x: number; // Pan in px, applied before scaling
+  y: number;
+}
+
+interface Gesture {
+  start: Zoom;
+  distance: number; // Between the two fingers when the pinch started; 0 for a one-finger pan
+  midpoint: { x: number; y: number };
+  size: { width: number; height: number };
+}
+
+const IDENTITY: Zoom = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Pinch to zoom, drag to pan while zoomed, double-tap to reset. Only touch
+// pointers are handled, so mouse and pen interaction is unchanged. Spread
+// `handlers` on a clipping container and `style` on the element inside it.
+export function usePinchZoom() {
+  const [zoom, setZoom] = useState<Zoom>(IDENTITY);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef(0);
+
+  const reset = useCallback(() => setZoom(IDENTITY), []);
+
+  // Restart the gesture from the fingers currently down, so lifting one finger
+  // of a pinch continues as a pan without a jump
+  const beginGesture = (element: HTMLElement) => {
+    const points = [...pointers.current.values()];
+    if (points.length === 0) {
+      gesture.current = null;
+      return;
+    }
+    const [a, b = a] = points;
+    gesture.current = {
+      start: zoomRef.current,
+      distance: points.length > 1 ? Math.hypot(b.x - a.x, b.y - a.y) : 0,
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      size: { width: element.offsetWidth, height: element.offsetHeight },
+    };
+  };
+
+  const onPointerDown = (event: PointerEvent<HTMLElement>) => {
+    if (event.pointerType !== 'touch') return;
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointers.current.size === 1) {
+      const now = event.timeStamp;
+      if (now - lastTap.current < DOUBLE_TAP_MS) reset();
+      lastTap.current = now;
+    }
+    beginGesture(event.currentTarget);
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLElement>) => {
+    if (!pointers.current.has(event.pointerId) || !gesture.current) return;
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const { start, distance, midpoint, size } = gesture.current;
+    const [a, b = a] = [...pointers.current.values()];
+    const scale =
+      distance > 0
+        ? clamp((start.scale * Math.hypot(b.x - a.x, b.y - a.y)) / distance, ZOOM_LIMITS.min, ZOOM_LIMITS.max)
+        : start.scale;
+    if (scale === 1) {
+      if (zoomRef.current !== IDENTITY) setZoom(IDENTITY);
+      return;
+    }
+
+    // Keep the zoomed content covering the container
+    const maxX = ((scale - 1) * size.width) / 2;
+    const maxY = ((scale - 1) * size.height) / 2;
+    setZoom({
+      scale,
+      x: clamp(start.x + (a.x + b.x) / 2 - midpoint.x, -maxX, maxX),
+      y: clamp(start.y + (a.y + b.y) / 2 - midpoint.y, -maxY, maxY),
+    });
+  };
+
+  const onPointerEnd = (event: PointerEvent<HTMLElement>) => {
+    if (!pointers.current.delete(event.pointerId)) return;
+    beginGesture(event.currentTarget);
+  };
+
+  const isZoomed = zoom.scale > 1;
+
+  return {
+    isZoomed,
+    reset,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: onPointerEnd,
+      onPointerCancel: onPointerEnd,
+    },
+    style: {
+      transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`,
+      transformOrigin: 'center center',
+    } as CSSProperties,
+    // Unzoomed, vertical swipes still scroll the page; zoomed, every touch pans
+    touchAction: isZoomed ? 'none' : 'pan-y',
+  };
+}
@@ -5,6 +5,21 @@ export const API_CONFIG = {
   // For production: your production Flask URL
   baseUrl: (typeof import.meta !== 'undefined' && import.meta.env?.VITE_API_URL) || 'http://localhost:5000',
   endpoints: {
-    analyze: '/api/analyze'
-  }
-};
\ No newline at end of file
+    analyze: '/api/analyze',
+    analyzeStream: '/api/analyze/stream',
+    engines: '/api/engines'
+  },
+  // How often the engine status panel re-checks the engines
+  enginePollMs: 30000,
+  // Stream results over Server-Sent Events instead of waiting for the full response
+  streaming: true,
+  // Abort a single request attempt after this many milliseconds
+  timeoutMs: 60000,
+  // Retry 429 and 5xx responses with exponential backoff and jitter
+  retry: {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    maxRetryAfterMs: 60000,
+  },
+};
@@ -0,0 +1,26 @@
+import type { PartialAnalysisResult } from '../api';
+import { isOrganKey, type OrganKey } from '../organs';
+
+// How many of the engines that answered flagged an organ
+export interface OrganAgreement {
+  votes: number;
+  total: number;
+}
+
+export type OrganAgreementMap = Partial<Record<OrganKey, OrganAgreement>>;
+
+export const isUnanimous = ({ votes, total }: OrganAgreement) => votes === total;
+
+// Fewer than half the engines flagged the organ
+export const isMinority = ({ votes, total }: OrganAgreement) => votes * 2 < total;
+
+// Agreement on every organ any engine flagged; empty for a single-engine result
+export function organAgreement(result: Pick<PartialAnalysisResult, 'consensus'>): OrganAgreementMap {
+  if (!result.consensus) return {};
+  const total = result.consensus.answers.filter((answer) => answer.result).length;
+  const agreement: OrganAgreementMap = {};
+  Object.entries(result.consensus.organVotes).forEach(([organKey, engines]) => {
+    if (isOrganKey(organKey)) agreement[organKey] = { votes: engines.length, total };
+  });
+  return agreement;
+}
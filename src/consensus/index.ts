@@ -0,0 +1,5 @@
+export { isMinority, isUnanimous, organAgreement } from './agreement';
+export type { OrganAgreement, OrganAgreementMap } from './agreement';
+export { isSameDiagnosis, mergeConsensus } from './merge';
+export { analyzeConsensus } from './run';
+export type { ConsensusOptions } from './run';
@@ -0,0 +1,126 @@
+import type { AnalysisResult, EngineAnswer, EngineId, Severity } from '../api';
+import { ORGAN_REGISTRY, getOrganDetail, normalizeOrgans, resolveOrganLevels, type OrganKey } from '../organs';
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+type Answered = EngineAnswer & { result: AnalysisResult };
+
+// Most common value; a tie goes to the value ranked highest
+function vote<T>(values: T[], rank: (value: T) => number): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries()).sort(
+    ([a, countA], [b, countB]) => countB - countA || rank(b) - rank(a)
+  )[0]?.[0];
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+const diagnosisKey = (diagnosis: string) => diagnosis.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Whether two engines gave the same diagnosis, ignoring case and spacing
+export const isSameDiagnosis = (a: string, b: string) => diagnosisKey(a) === diagnosisKey(b);
+
+// Merge the answers of several engines into one result.
+//
+// - Diagnosis: the one most engines gave, ties to the most confident engine,
+//   whose explanation and organ details lead.
+// - Organs: every organ any engine flagged, most votes first, so disagreement
+//   stays visible. `consensus.organVotes` holds who flagged each one.
+// - Severity, overall and per organ: majority vote, ties to the more severe.
+// - Confidence: the mean of the agreeing engines, scaled by the share of
+//   engines that agree, so disagreement lowers it.
+// - Recommendations: every engine's, leading engine first, without repeats.
+//
+// Failed engines do not vote. Throws when no engine answered.
+export function mergeConsensus(answers: EngineAnswer[]): AnalysisResult {
+  const answered = answers.filter((answer): answer is Answered => !!answer.result);
+  if (answered.length === 0) throw new Error('No engine answered');
+  const total = answered.length;
+
+  const diagnosisGroups = new Map<string, Answered[]>();
+  answered.forEach((answer) => {
+    const key = diagnosisKey(answer.result.diagnosis);
+    diagnosisGroups.set(key, [...(diagnosisGroups.get(key) ?? []), answer]);
+  });
+  const byConfidence = (a: Answered, b: Answered) =>
+    (b.result.confidence ?? -1) - (a.result.confidence ?? -1);
+  const agreeing = Array.from(diagnosisGroups.values())
+    .map((group) => group.slice().sort(byConfidence))
+    .sort((a, b) => b.length - a.length || byConfidence(a[0], b[0]))[0];
+  const lead = agreeing[0].result;
+  // Leading engine first, so its organ details and recommendations win
+  const ordered = [agreeing[0], ...answered.filter((answer) => answer !== agreeing[0])];
+
+  // Voting on registry keys, so "kidney" from one engine and "kidneys" from another agree
+  const organVotes: Record<string, EngineId[]> = {};
+  ordered.forEach(({ engine, result }) => {
+    normalizeOrgans(result.organs).keys.forEach((organKey) => {
+      organVotes[organKey] = [...(organVotes[organKey] ?? []), engine];
+    });
+  });
+  const organs = (Object.keys(organVotes) as OrganKey[]).sort(
+    (a, b) => organVotes[b].length - organVotes[a].length
+  );
+
+  const organSeverity: Record<string, Severity> = {};
+  const organConfidence: Record<string, number> = {};
+  const organDetails: Record<string, string> = {};
+  organs.forEach((organKey) => {
+    const voters = ordered.filter(({ engine }) => organVotes[organKey].includes(engine));
+    const severities = voters.map(
+      ({ result }) => resolveOrganLevels(result.organs, result.organSeverity, result.severity)[organKey]!
+    );
+    organSeverity[organKey] = vote(severities, (level) => SEVERITY_RANK[level])!;
+
+    const confidence = mean(
+      voters
+        .map(({ result }) => resolveOrganLevels(result.organs, result.organConfidence, result.confidence)[organKey])
+        .filter((value): value is number => value !== undefined)
+    );
+    if (confidence !== undefined) {
+      organConfidence[organKey] = Math.round((confidence * voters.length) / total);
+    }
+
+    const detail = voters
+      .map(({ result }) => getOrganDetail(result.organDetails, ORGAN_REGISTRY[organKey]))
+      .find(Boolean);
+    if (detail) organDetails[organKey] = detail;
+  });
+
+  const seenRecommendations = new Set<string>();
+  const recommendations = ordered
+    .flatMap(({ result }) => result.recommendations)
+    .filter((recommendation) => {
+      const key = diagnosisKey(recommendation);
+      if (seenRecommendations.has(key)) return false;
+      seenRecommendations.add(key);
+      return true;
+    });
+
+  const confidence = mean(
+    agreeing.map(({ result }) => result.confidence).filter((value): value is number => value !== undefined)
+  );
+
+  return {
+    diagnosis: lead.diagnosis,
+    organs,
+    unrecognizedOrgans: Array.from(
+      new Set(ordered.flatMap(({ result }) => result.unrecognizedOrgans ?? []))
+    ),
+    organDetails,
+    organSeverity,
+    organConfidence,
+    explanation: lead.explanation,
+    ...(confidence !== undefined
+      ? { confidence: Math.round((confidence * agreeing.length) / total) }
+      : {}),
+    severity: vote(
+      answered.map(({ result }) => result.severity),
+      (level) => SEVERITY_RANK[level]
+    )!,
+    recommendations,
+    consensus: { answers, organVotes, diagnosisVotes: agreeing.length },
+  };
+}
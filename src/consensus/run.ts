@@ -0,0 +1,42 @@
+import {
+  analyze,
+  CancelledError,
+  describeApiError,
+  type AnalyzeRequest,
+  type EngineAnswer,
+  type EngineId,
+  type RequestOptions,
+} from '../api';
+
+export interface ConsensusOptions extends RequestOptions {
+  onAnswer?: (answer: EngineAnswer) => void; // Each engine's answer or failure as it arrives
+}
+
+// Send the request to every engine at once, each on its own without fallback.
+// Resolves with every engine's answer once all have settled; a failed engine is
+// recorded, not thrown. Rejects when the request is cancelled or every engine failed.
+export async function analyzeConsensus(
+  request: AnalyzeRequest,
+  engines: readonly EngineId[],
+  { onAnswer, ...options }: ConsensusOptions = {}
+): Promise<EngineAnswer[]> {
+  const errors: unknown[] = [];
+  const answers = await Promise.all(
+    engines.map(async (engine): Promise<EngineAnswer> => {
+      let answer: EngineAnswer;
+      try {
+        answer = { engine, result: await analyze({ ...request, engines: [engine] }, options) };
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        errors.push(error);
+        const { title, description } = describeApiError(error);
+        answer = { engine, error: description ? `${title}: ${description}` : title };
+      }
+      onAnswer?.(answer);
+      return answer;
+    })
+  );
+
+  if (errors.length === engines.length) throw errors[0];
+  return answers;
+}
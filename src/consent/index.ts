@@ -0,0 +1,10 @@
+export {
+  EMPTY_CONSENT_DRAFT,
+  consentDraftProblem,
+  describeConsent,
+  formatConsentEngines,
+  toConsentRecord,
+  uncoveredEngines,
+} from './record';
+export { CONSENT_TEXTS, CURRENT_CONSENT_VERSION, consentText } from './text';
+export type { ConsentDraft, ConsentGrantor, ConsentRecord } from './types';
@@ -0,0 +1,66 @@
+import { ENGINES, type EngineId } from '../api';
+import { createUuid } from '../ids';
+import { CURRENT_CONSENT_VERSION } from './text';
+import type { ConsentDraft, ConsentRecord } from './types';
+
+export const EMPTY_CONSENT_DRAFT: ConsentDraft = {
+  grantor: 'patient',
+  representativeName: '',
+  relationship: '',
+  engines: [],
+  confirmedAt: null,
+};
+
+// Why the draft cannot be recorded yet, or undefined when it can
+export function consentDraftProblem(draft: ConsentDraft, patientName: string): string | undefined {
+  if (!patientName.trim()) return 'Enter the patient name before recording consent';
+  if (draft.grantor === 'representative' && !draft.representativeName.trim()) {
+    return "Enter the representative's name";
+  }
+  if (draft.engines.length === 0) return 'Select at least one engine the patient consented to';
+  return undefined;
+}
+
+// The record for a confirmed draft; null while consent has not been confirmed
+// or the draft is incomplete. Each call mints a new id, so call it once, when
+// consent is confirmed, and keep the record.
+export function toConsentRecord(
+  draft: ConsentDraft,
+  { patientName, doctorName }: { patientName: string; doctorName: string },
+  createId: () => string = createUuid
+): ConsentRecord | null {
+  if (draft.confirmedAt === null || consentDraftProblem(draft, patientName)) return null;
+  const isPatient = draft.grantor === 'patient';
+  return {
+    id: createId(),
+    patientName: patientName.trim(),
+    grantor: draft.grantor,
+    grantorName: isPatient ? patientName.trim() : draft.representativeName.trim(),
+    ...(!isPatient && draft.relationship.trim() ? { relationship: draft.relationship.trim() } : {}),
+    recordedBy: doctorName.trim(),
+    engines: [...draft.engines],
+    textVersion: CURRENT_CONSENT_VERSION,
+    grantedAt: draft.confirmedAt,
+  };
+}
+
+// Engines of `engines` the consent does not cover; all of them without a consent
+export const uncoveredEngines = (
+  consent: Pick<ConsentRecord, 'engines'> | null | undefined,
+  engines: readonly EngineId[]
+): EngineId[] => engines.filter((engine) => !consent?.engines.includes(engine));
+
+// "Google Gemini (cloud), Local Llama model (local)"
+export const formatConsentEngines = (engines: readonly EngineId[]) =>
+  engines.map((engine) => `${ENGINES[engine].label} (${ENGINES[engine].location})`).join(', ');
+
+// One-line summary for reports: who consented, for whom, when and to what
+export function describeConsent(consent: ConsentRecord): string {
+  const grantor =
+    consent.grantor === 'patient'
+      ? `${consent.grantorName} (patient)`
+      : `${consent.grantorName} (${consent.relationship || 'representative'} of ${consent.patientName})`;
+  return `Consent given by ${grantor}, recorded by ${consent.recordedBy || 'unknown'}, for ${formatConsentEngines(
+    consent.engines
+  )}; consent text v${consent.textVersion}.`;
+}
@@ -0,0 +1,14 @@
+// Consent statements by version. A published version must never change: a
+// consent record points at the wording the patient agreed to. Reword by adding
+// a version and moving CURRENT_CONSENT_VERSION to it.
+export const CONSENT_TEXTS: Record<string, string> = {
+  '1.0':
+    'I agree that my clinical information may be analyzed by the AI engines selected below to support my care. ' +
+    'Names, dates, contact details and record numbers are replaced with placeholders before the text is processed. ' +
+    'Cloud engines process the redacted text on external servers; local engines process it within this organization. ' +
+    'The results support, and do not replace, the judgement of my clinician. I may withdraw this consent at any time.',
+};
+
+export const CURRENT_CONSENT_VERSION = '1.0';
+
+export const consentText = (version: string): string | undefined => CONSENT_TEXTS[version];
@@ -0,0 +1,27 @@
+import type { EngineId } from '../api';
+
+// Who gave consent on the patient's behalf
+export type ConsentGrantor = 'patient' | 'representative';
+
+// Consent as captured for one analysis. Saved with the history entry and
+// included in PDF and FHIR exports.
+export interface ConsentRecord {
+  id: string;
+  patientName: string; // The patient the consent is for
+  grantor: ConsentGrantor;
+  grantorName: string; // The patient, or their representative
+  relationship?: string; // Representative's relationship to the patient
+  recordedBy: string; // Clinician who captured the consent
+  engines: EngineId[]; // Engines the patient agreed may process their data
+  textVersion: string; // Version of the consent statement that was shown
+  grantedAt: number; // epoch ms
+}
+
+// Consent being filled in on the input panel
+export interface ConsentDraft {
+  grantor: ConsentGrantor;
+  representativeName: string;
+  relationship: string;
+  engines: EngineId[];
+  confirmedAt: number | null; // When the clinician confirmed consent was given
+}
@@ -0,0 +1,288 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisResult, AnalyzeRequest } from '../api';
+import type { ConsentRecord } from '../consent';
+import { ICD10_CM, SNOMED_CT, type DiagnosisCode } from '../terminology';
+import {
+  CONSENT_POLICY_PREFIX,
+  ORGAN_CODE_SYSTEM,
+  organBodySite,
+  toFhirBundle,
+  toHumanName,
+  type FhirExportInput,
+} from './bundle';
+import type {
+  CarePlan,
+  Condition,
+  Consent,
+  DiagnosticReport,
+  Patient,
+  Practitioner,
+  Resource,
+} from './types';
+
+const ANALYZED_AT = Date.UTC(2024, 2, 1, 9, 30);
+
+const input: AnalyzeRequest = {
+  patientName: 'Jane Q Smith',
+  doctorName: 'Dr. Alan Grant',
+  description: 'Productive cough and chest tightness for five days',
+};
+
+const result: AnalysisResult = {
+  diagnosis: 'Community-acquired pneumonia',
+  organs: ['left lung', 'heart'],
+  organDetails: { lungs: 'Consolidation in the lower lobe' },
+  explanation: 'Focal crackles with fever suggest a bacterial pneumonia.',
+  confidence: 82,
+  severity: 'medium',
+  recommendations: ['Chest X-ray', 'Start empirical antibiotics'],
+};
+
+const consent: ConsentRecord = {
+  id: 'consent-1',
+  patientName: 'Jane Q Smith',
+  grantor: 'representative',
+  grantorName: 'John Smith',
+  relationship: 'spouse',
+  recordedBy: 'Dr. Alan Grant',
+  engines: ['gemini', 'llama'],
+  textVersion: '1.0',
+  grantedAt: ANALYZED_AT - 60_000,
+};
+
+const diagnosisCode: DiagnosisCode = {
+  system: ICD10_CM,
+  code: 'J18.9',
+  display: 'Pneumonia, unspecified organism',
+  status: 'confirmed',
+  confirmedAt: ANALYZED_AT,
+};
+
+const exportInput: FhirExportInput = {
+  input,
+  result,
+  analyzedAt: ANALYZED_AT,
+  severityLevels: { lungs: 'high', heart: 'low' },
+  diagnosisCode,
+  consent,
+};
+
+// Sequential ids, so references can be asserted exactly
+function sequentialIds() {
+  let next = 0;
+  return () => `id-${++next}`;
+}
+
+function resourcesOf(bundle: ReturnType<typeof toFhirBundle>) {
+  const find = <T extends Resource>(type: T['resourceType']) =>
+    bundle.entry.map((entry) => entry.resource).find((resource) => resource.resourceType === type) as
+      | T
+      | undefined;
+  return {
+    patient: find<Patient>('Patient')!,
+    practitioner: find<Practitioner>('Practitioner')!,
+    condition: find<Condition>('Condition')!,
+    report: find<DiagnosticReport>('DiagnosticReport')!,
+    carePlan: find<CarePlan>('CarePlan')!,
+    consent: find<Consent>('Consent'),
+  };
+}
+
+describe('toHumanName', () => {
+  it('splits family and given names and drops the title', () => {
+    expect(toHumanName('Dr. Jane Q Smith')).toEqual({
+      use: 'official',
+      text: 'Dr. Jane Q Smith',
+      family: 'Smith',
+      given: ['Jane', 'Q'],
+    });
+  });
+
+  it('keeps a single name as given only', () => {
+    expect(toHumanName('  Madonna ')).toEqual({ use: 'official', text: 'Madonna', given: ['Madonna'] });
+  });
+
+  it('returns undefined for a blank name', () => {
+    expect(toHumanName('   ')).toBeUndefined();
+  });
+});
+
+describe('organBodySite', () => {
+  it('codes the organ in SNOMED CT and the app organ system', () => {
+    expect(organBodySite('lungs')).toEqual({
+      coding: [
+        { system: SNOMED_CT, code: '39607008', display: 'Lung structure' },
+        { system: ORGAN_CODE_SYSTEM, code: 'lungs', display: 'Lungs' },
+      ],
+      text: 'Lungs',
+    });
+  });
+});
+
+describe('toFhirBundle', () => {
+  it('is a transaction bundle that POSTs every resource', () => {
+    const bundle = toFhirBundle(exportInput, sequentialIds());
+
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('transaction');
+    expect(bundle.entry.map((entry) => entry.resource.resourceType)).toEqual([
+      'Patient',
+      'Practitioner',
+      'Condition',
+      'DiagnosticReport',
+      'CarePlan',
+      'Consent',
+    ]);
+    bundle.entry.forEach((entry) => {
+      expect(entry.fullUrl).toBe(`urn:uuid:${entry.resource.id}`);
+      expect(entry.request).toEqual({ method: 'POST', url: entry.resource.resourceType });
+    });
+  });
+
+  it('gives every resource a unique id', () => {
+    const bundle = toFhirBundle(exportInput, sequentialIds());
+    const ids = [bundle.id, ...bundle.entry.map((entry) => entry.resource.id)];
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('links resources by their urn:uuid fullUrl', () => {
+    const bundle = toFhirBundle(exportInput, sequentialIds());
+    const { patient, practitioner, condition, report, carePlan, consent: consentResource } =
+      resourcesOf(bundle);
+    const fullUrls = new Set(bundle.entry.map((entry) => entry.fullUrl));
+    const patientUrl = `urn:uuid:${patient.id}`;
+    const practitionerUrl = `urn:uuid:${practitioner.id}`;
+
+    [condition.subject, report.subject, carePlan.subject, consentResource!.patient].forEach(
+      (reference) => expect(reference?.reference).toBe(patientUrl)
+    );
+    [condition.recorder, report.performer?.[0], carePlan.author].forEach((reference) =>
+      expect(reference?.reference).toBe(practitionerUrl)
+    );
+    expect(carePlan.addresses?.[0].reference).toBe(`urn:uuid:${condition.id}`);
+    [patientUrl, practitionerUrl, `urn:uuid:${condition.id}`].forEach((url) =>
+      expect(fullUrls).toContain(url)
+    );
+  });
+
+  it('names the patient and practitioner', () => {
+    const { patient, practitioner } = resourcesOf(toFhirBundle(exportInput, sequentialIds()));
+
+    expect(patient.name).toEqual([toHumanName('Jane Q Smith')]);
+    expect(practitioner.name).toEqual([toHumanName('Dr. Alan Grant')]);
+  });
+
+  it('leaves names out when none were entered', () => {
+    const bundle = toFhirBundle(
+      { ...exportInput, input: { ...input, patientName: '', doctorName: '' } },
+      sequentialIds()
+    );
+    const { patient, practitioner, condition } = resourcesOf(bundle);
+
+    expect(patient.name).toBeUndefined();
+    expect(practitioner.name).toBeUndefined();
+    expect(condition.subject.display).toBeUndefined();
+  });
+
+  it('fills the Condition required and coded fields', () => {
+    const { condition } = resourcesOf(toFhirBundle(exportInput, sequentialIds()));
+
+    expect(condition.subject.reference).toMatch(/^urn:uuid:/);
+    expect(condition.clinicalStatus?.coding?.[0].code).toBe('active');
+    expect(condition.severity?.coding?.[0]).toEqual({
+      system: SNOMED_CT,
+      code: '6736007',
+      display: 'Moderate',
+    });
+    expect(condition.code).toEqual({
+      coding: [
+        {
+          system: ICD10_CM,
+          code: 'J18.9',
+          display: 'Pneumonia, unspecified organism',
+          userSelected: true,
+        },
+      ],
+      text: 'Community-acquired pneumonia',
+    });
+    expect(condition.recordedDate).toBe(new Date(ANALYZED_AT).toISOString());
+    expect(condition.note?.map((note) => note.text)).toEqual([
+      result.explanation,
+      'AI confidence: 82%',
+      'Lungs: high severity',
+      'Heart: low severity',
+      `Clinical description: ${input.description}`,
+    ]);
+  });
+
+  it('codes body sites from the normalized organ names', () => {
+    const { condition } = resourcesOf(toFhirBundle(exportInput, sequentialIds()));
+
+    expect(condition.bodySite).toEqual([organBodySite('lungs'), organBodySite('heart')]);
+  });
+
+  it('keeps the Condition provisional whether or not a code was picked', () => {
+    const coded = resourcesOf(toFhirBundle(exportInput, sequentialIds())).condition;
+    const uncoded = resourcesOf(
+      toFhirBundle({ ...exportInput, diagnosisCode: null }, sequentialIds())
+    ).condition;
+
+    expect(coded.verificationStatus?.coding?.[0].code).toBe('provisional');
+    expect(uncoded.verificationStatus?.coding?.[0].code).toBe('provisional');
+    expect(uncoded.code).toEqual({ text: 'Community-acquired pneumonia' });
+  });
+
+  it('fills the DiagnosticReport required fields', () => {
+    const { report } = resourcesOf(toFhirBundle(exportInput, sequentialIds()));
+
+    expect(report.status).toBe('preliminary');
+    expect(report.code.text).toBeTruthy();
+    expect(report.conclusion).toBe('Community-acquired pneumonia');
+    expect(report.issued).toBe(new Date(ANALYZED_AT).toISOString());
+  });
+
+  it('turns each recommendation into a CarePlan activity', () => {
+    const { carePlan } = resourcesOf(toFhirBundle(exportInput, sequentialIds()));
+
+    expect(carePlan.status).toBe('draft');
+    expect(carePlan.intent).toBe('proposal');
+    expect(carePlan.subject.reference).toMatch(/^urn:uuid:/);
+    expect(carePlan.activity).toEqual([
+      { detail: { status: 'not-started', description: 'Chest X-ray' } },
+      { detail: { status: 'not-started', description: 'Start empirical antibiotics' } },
+    ]);
+  });
+
+  it('records consent with its grantor, policy and permitted engines', () => {
+    const consentResource = resourcesOf(toFhirBundle(exportInput, sequentialIds())).consent!;
+
+    expect(consentResource.status).toBe('active');
+    expect(consentResource.scope.coding?.[0].code).toBe('treatment');
+    expect(consentResource.category[0].coding?.[0].code).toBe('59284-0');
+    expect(consentResource.dateTime).toBe(new Date(consent.grantedAt).toISOString());
+    expect(consentResource.performer).toEqual([{ display: 'John Smith (spouse)' }]);
+    expect(consentResource.policy).toEqual([{ uri: `${CONSENT_POLICY_PREFIX}1.0` }]);
+    expect(consentResource.provision?.type).toBe('permit');
+    expect(consentResource.provision?.actor).toHaveLength(2);
+  });
+
+  it('names the patient as performer when they consented themselves', () => {
+    const bundle = toFhirBundle(
+      { ...exportInput, consent: { ...consent, grantor: 'patient', grantorName: 'Jane Q Smith' } },
+      sequentialIds()
+    );
+    const { patient, consent: consentResource } = resourcesOf(bundle);
+
+    expect(consentResource!.performer).toEqual([
+      { reference: `urn:uuid:${patient.id}`, display: 'Jane Q Smith' },
+    ]);
+  });
+
+  it('leaves Consent out for analyses without recorded consent', () => {
+    const bundle = toFhirBundle({ ...exportInput, consent: undefined }, sequentialIds());
+
+    expect(resourcesOf(bundle).consent).toBeUndefined();
+    expect(bundle.entry).toHaveLength(5);
+  });
+});
@@ -0,0 +1,249 @@
+import { ENGINES, type Severity } from '../api';
+import type { ConsentRecord } from '../consent';
+import { createUuid } from '../ids';
+import { ORGAN_REGISTRY, normalizeOrgans, type OrganKey } from '../organs';
+import { reportFileName, type ClinicalReport } from '../report';
+import { SNOMED_CT, type DiagnosisCode } from '../terminology';
+import type {
+  Bundle,
+  BundleEntry,
+  CarePlan,
+  CodeableConcept,
+  Condition,
+  Consent,
+  DiagnosticReport,
+  HumanName,
+  Patient,
+  Practitioner,
+  Reference,
+  Resource,
+} from './types';
+
+// Everything the exporter needs from an analysis; the same data as a PDF report
+export type FhirExportInput = Pick<
+  ClinicalReport,
+  'input' | 'result' | 'analyzedAt' | 'severityLevels' | 'diagnosisCode' | 'consent'
+>;
+
+// Policy URI of a consent statement version
+export const CONSENT_POLICY_PREFIX = 'urn:medical-analyzer:consent-text:';
+
+// Local code system for the app's organ keys
+export const ORGAN_CODE_SYSTEM = 'urn:medical-analyzer:organ';
+
+// SNOMED CT severity qualifiers used by Condition.severity
+const SEVERITY_CODES: Record<Severity, { code: string; display: string }> = {
+  low: { code: '255604002', display: 'Mild' },
+  medium: { code: '6736007', display: 'Moderate' },
+  high: { code: '24484000', display: 'Severe' },
+};
+
+const concept = (system: string, code: string, display?: string, text?: string): CodeableConcept => ({
+  coding: [{ system, code, ...(display ? { display } : {}) }],
+  ...(text ? { text } : {}),
+});
+
+// "Dr. Jane Q Smith" -> family Smith, given [Jane, Q]; the full name is kept in text
+export function toHumanName(fullName: string): HumanName | undefined {
+  const text = fullName.trim();
+  if (!text) return undefined;
+  const parts = text
+    .split(/\s+/)
+    .filter((part) => !/^(dr|mr|mrs|ms|prof)\.?$/i.test(part));
+  const family = parts.length > 1 ? parts[parts.length - 1] : undefined;
+  const given = parts.length > 1 ? parts.slice(0, -1) : parts;
+  return { use: 'official', text, ...(family ? { family } : {}), ...(given.length ? { given } : {}) };
+}
+
+// Condition.bodySite for an organ key: the SNOMED CT body structure plus the app's own key
+export function organBodySite(organKey: OrganKey): CodeableConcept {
+  const organ = ORGAN_REGISTRY[organKey];
+  return {
+    coding: [
+      { system: SNOMED_CT, code: organ.snomed.code, display: organ.snomed.display },
+      { system: ORGAN_CODE_SYSTEM, code: organ.key, display: organ.label },
+    ],
+    text: organ.label,
+  };
+}
+
+// Condition.code: the diagnosis text, coded only once a physician picked a code
+function diagnosisConcept(diagnosis: string, code?: DiagnosisCode | null): CodeableConcept {
+  return {
+    ...(code
+      ? { coding: [{ system: code.system, code: code.code, display: code.display, userSelected: true }] }
+      : {}),
+    text: diagnosis,
+  };
+}
+
+const urnFor = (resource: Resource) => `urn:uuid:${resource.id}`;
+
+// Consent to AI processing: the engines it covers are the permitted recipients
+function consentResource(consent: ConsentRecord, subject: Reference, id: string): Consent {
+  return {
+    resourceType: 'Consent',
+    id,
+    status: 'active',
+    scope: concept('http://terminology.hl7.org/CodeSystem/consentscope', 'treatment', 'Treatment'),
+    category: [concept('http://loinc.org', '59284-0', 'Patient Consent')],
+    patient: subject,
+    dateTime: new Date(consent.grantedAt).toISOString(),
+    performer: [
+      consent.grantor === 'patient'
+        ? subject
+        : { display: `${consent.grantorName} (${consent.relationship || 'representative'})` },
+    ],
+    policy: [{ uri: `${CONSENT_POLICY_PREFIX}${consent.textVersion}` }],
+    provision: {
+      type: 'permit',
+      actor: consent.engines.map((engine) => ({
+        role: concept(
+          'http://terminology.hl7.org/CodeSystem/v3-ParticipationType',
+          'IRCP',
+          'information recipient'
+        ),
+        reference: { display: `${ENGINES[engine].label} (${ENGINES[engine].location})` },
+      })),
+    },
+  };
+}
+
+const entryFor = (resource: Resource): BundleEntry => ({
+  fullUrl: urnFor(resource),
+  resource,
+  request: { method: 'POST', url: resource.resourceType },
+});
+
+// Convert an analysis into a FHIR R4 transaction Bundle. Resources reference each
+// other by urn:uuid so the receiving server assigns the real ids.
+export function toFhirBundle(
+  { input, result, analyzedAt, severityLevels, diagnosisCode, consent }: FhirExportInput,
+  createId: () => string = createUuid
+): Bundle {
+  const recorded = new Date(analyzedAt).toISOString();
+  const organKeys = normalizeOrgans(result.organs).keys;
+
+  const patientName = toHumanName(input.patientName);
+  const patient: Patient = {
+    resourceType: 'Patient',
+    id: createId(),
+    ...(patientName ? { name: [patientName] } : {}),
+  };
+
+  const practitionerName = toHumanName(input.doctorName);
+  const practitioner: Practitioner = {
+    resourceType: 'Practitioner',
+    id: createId(),
+    ...(practitionerName ? { name: [practitionerName] } : {}),
+  };
+
+  const subject = { reference: urnFor(patient), display: input.patientName || undefined };
+  const author = { reference: urnFor(practitioner), display: input.doctorName || undefined };
+
+  const condition: Condition = {
+    resourceType: 'Condition',
+    id: createId(),
+    clinicalStatus: concept(
+      'http://terminology.hl7.org/CodeSystem/condition-clinical',
+      'active',
+      'Active'
+    ),
+    // An AI-suggested diagnosis stays provisional. Picking an ICD-10 code only
+    // codes it; the app has no step where a physician confirms the diagnosis.
+    verificationStatus: concept(
+      'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+      'provisional',
+      'Provisional'
+    ),
+    category: [
+      concept(
+        'http://terminology.hl7.org/CodeSystem/condition-category',
+        'encounter-diagnosis',
+        'Encounter Diagnosis'
+      ),
+    ],
+    severity: concept(
+      SNOMED_CT,
+      SEVERITY_CODES[result.severity].code,
+      SEVERITY_CODES[result.severity].display
+    ),
+    code: diagnosisConcept(result.diagnosis, diagnosisCode),
+    bodySite: organKeys.map(organBodySite),
+    subject,
+    recordedDate: recorded,
+    recorder: author,
+    note: [
+      { text: result.explanation, time: recorded },
+      ...(result.confidence !== undefined
+        ? [{ text: `AI confidence: ${result.confidence}%`, time: recorded }]
+        : []),
+      ...organKeys
+        .filter((organKey) => severityLevels[organKey])
+        .map((organKey) => ({
+          text: `${ORGAN_REGISTRY[organKey].label}: ${severityLevels[organKey]} severity`,
+          time: recorded,
+        })),
+      ...(input.description.trim()
+        ? [{ text: `Clinical description: ${input.description.trim()}`, time: recorded }]
+        : []),
+    ],
+  };
+
+  const report: DiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    id: createId(),
+    status: 'preliminary',
+    category: [
+      concept('http://terminology.hl7.org/CodeSystem/v2-0074', 'OTH', 'Other'),
+    ],
+    code: { text: 'AI-assisted clinical analysis' },
+    subject,
+    effectiveDateTime: recorded,
+    issued: recorded,
+    performer: [author],
+    conclusion: result.diagnosis,
+    conclusionCode: [diagnosisConcept(result.diagnosis, diagnosisCode)],
+  };
+
+  const carePlan: CarePlan = {
+    resourceType: 'CarePlan',
+    id: createId(),
+    status: 'draft',
+    intent: 'proposal',
+    title: `Recommendations for ${result.diagnosis}`,
+    subject,
+    created: recorded,
+    author,
+    addresses: [{ reference: urnFor(condition), display: result.diagnosis }],
+    activity: result.recommendations.map((description) => ({
+      detail: { status: 'not-started', description },
+    })),
+  };
+
+  return {
+    resourceType: 'Bundle',
+    id: createId(),
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry: [
+      patient,
+      practitioner,
+      condition,
+      report,
+      carePlan,
+      ...(consent ? [consentResource(consent, subject, createId())] : []),
+    ].map(entryFor),
+  };
+}
+
+export function downloadFhirBundle(exportInput: FhirExportInput): void {
+  const bundle = toFhirBundle(exportInput);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = reportFileName(exportInput, 'fhir.json');
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,24 @@
+export {
+  CONSENT_POLICY_PREFIX,
+  ORGAN_CODE_SYSTEM,
+  downloadFhirBundle,
+  organBodySite,
+  toFhirBundle,
+  toHumanName,
+} from './bundle';
+export type { FhirExportInput } from './bundle';
+export type {
+  Bundle,
+  BundleEntry,
+  CarePlan,
+  CodeableConcept,
+  Coding,
+  Condition,
+  Consent,
+  DiagnosticReport,
+  HumanName,
+  Patient,
+  Practitioner,
+  Reference,
+  Resource,
+} from './types';
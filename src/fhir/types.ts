@@ -0,0 +1,129 @@
+// The subset of FHIR R4 resource shapes the exporter produces
+// https://hl7.org/fhir/R4/resourcelist.html
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+  userSelected?: boolean; // Chosen directly by the clinician
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface HumanName {
+  use?: 'usual' | 'official';
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface Annotation {
+  text: string;
+  time?: string;
+}
+
+export interface Patient {
+  resourceType: 'Patient';
+  id: string;
+  name?: HumanName[];
+}
+
+export interface Practitioner {
+  resourceType: 'Practitioner';
+  id: string;
+  name?: HumanName[];
+}
+
+export interface Condition {
+  resourceType: 'Condition';
+  id: string;
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  severity?: CodeableConcept;
+  code?: CodeableConcept;
+  bodySite?: CodeableConcept[];
+  subject: Reference;
+  recordedDate?: string;
+  recorder?: Reference;
+  note?: Annotation[];
+}
+
+export interface DiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id: string;
+  status: 'registered' | 'partial' | 'preliminary' | 'final' | 'amended';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  issued?: string;
+  performer?: Reference[];
+  conclusion?: string;
+  conclusionCode?: CodeableConcept[];
+}
+
+export interface CarePlanActivity {
+  detail: {
+    status: 'not-started' | 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+    description?: string;
+  };
+}
+
+export interface CarePlan {
+  resourceType: 'CarePlan';
+  id: string;
+  status: 'draft' | 'active' | 'completed' | 'revoked';
+  intent: 'proposal' | 'plan' | 'order' | 'option';
+  title?: string;
+  subject: Reference;
+  created?: string;
+  author?: Reference;
+  addresses?: Reference[];
+  activity?: CarePlanActivity[];
+}
+
+export interface ConsentProvisionActor {
+  role: CodeableConcept;
+  reference: Reference;
+}
+
+export interface Consent {
+  resourceType: 'Consent';
+  id: string;
+  status: 'draft' | 'proposed' | 'active' | 'rejected' | 'inactive' | 'entered-in-error';
+  scope: CodeableConcept;
+  category: CodeableConcept[];
+  patient?: Reference;
+  dateTime?: string;
+  performer?: Reference[]; // Who agreed: the patient or their representative
+  policy?: { uri?: string }[];
+  provision?: {
+    type?: 'deny' | 'permit';
+    actor?: ConsentProvisionActor[];
+  };
+}
+
+export type Resource = Patient | Practitioner | Condition | DiagnosticReport | CarePlan | Consent;
+
+export interface BundleEntry {
+  fullUrl: string;
+  resource: Resource;
+  request: { method: 'POST'; url: Resource['resourceType'] };
+}
+
+export interface Bundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'transaction';
+  timestamp: string;
+  entry: BundleEntry[];
+}
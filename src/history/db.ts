@@ -0,0 +1,66 @@
+// Minimal promise wrapper around the IndexedDB database that stores analysis history
+
+const DB_NAME = 'medical-analyzer';
+const DB_VERSION = 1;
+
+export const HISTORY_STORE = 'history';
+
+// IndexedDB is unavailable (private mode, old browser) or a request failed
+export class HistoryStorageError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'HistoryStorageError';
+    this.cause = cause;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openHistoryDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new HistoryStorageError('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(new HistoryStorageError('Could not open the history database', request.error));
+  });
+
+  // Let a later call retry instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// Run one request against a store and resolve with its result once the transaction commits
+export async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openHistoryDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = transaction.onerror = () =>
+      reject(new HistoryStorageError('History database request failed', transaction.error));
+  });
+}
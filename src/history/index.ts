@@ -0,0 +1,11 @@
+export { HistoryStorageError, openHistoryDb } from './db';
+export {
+  addHistoryEntry,
+  compareHistoryEntries,
+  deleteHistoryEntry,
+  listHistory,
+  matchesHistoryQuery,
+  updateHistoryEntry,
+} from './store';
+export type { HistoryEntry, HistoryEntryChanges } from './types';
+export { useHistory } from './useHistory';
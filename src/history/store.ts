@@ -0,0 +1,84 @@
+import type { AnalysisResult, AnalyzeRequest } from '../api';
+import type { ConsentRecord } from '../consent';
+import { createUuid } from '../ids';
+import { HISTORY_STORE, HistoryStorageError, openHistoryDb, runRequest } from './db';
+import type { HistoryEntry, HistoryEntryChanges } from './types';
+
+// Pinned entries first, then newest first
+export const compareHistoryEntries = (a: HistoryEntry, b: HistoryEntry) =>
+  Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt;
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await runRequest<HistoryEntry[]>(HISTORY_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return entries.sort(compareHistoryEntries);
+}
+
+export async function addHistoryEntry(
+  input: AnalyzeRequest,
+  result: AnalysisResult,
+  consent?: ConsentRecord,
+  id: string = createUuid()
+): Promise<HistoryEntry> {
+  const now = Date.now();
+  const entry: HistoryEntry = {
+    id,
+    input,
+    result,
+    ...(consent ? { consent } : {}),
+    createdAt: now,
+    updatedAt: now,
+    pinned: false,
+  };
+  await runRequest(HISTORY_STORE, 'readwrite', (store) => store.add(entry));
+  return entry;
+}
+
+// Merge `changes` into the stored entry within one transaction, so whatever
+// changed since the caller read the entry is kept
+export async function updateHistoryEntry(
+  id: string,
+  changes: HistoryEntryChanges
+): Promise<HistoryEntry> {
+  const db = await openHistoryDb();
+
+  return new Promise<HistoryEntry>((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    let updated: HistoryEntry | undefined;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const stored = request.result as HistoryEntry | undefined;
+      if (!stored) return;
+      updated = { ...stored, ...changes, updatedAt: Date.now() };
+      store.put(updated);
+    };
+    transaction.oncomplete = () =>
+      updated ? resolve(updated) : reject(new HistoryStorageError('History entry no longer exists'));
+    transaction.onabort = transaction.onerror = () =>
+      reject(new HistoryStorageError('History database request failed', transaction.error));
+  });
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await runRequest(HISTORY_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+// Case-insensitive match against patient, physician, diagnosis, notes and organs
+export function matchesHistoryQuery(entry: HistoryEntry, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [
+    entry.input.patientName,
+    entry.input.doctorName,
+    entry.input.description,
+    entry.result.diagnosis,
+    ...entry.result.organs,
+  ]
+    .join(' ')
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+}
@@ -0,0 +1,18 @@
+import type { AnalysisResult, AnalyzeRequest } from '../api';
+import type { ConsentRecord } from '../consent';
+import type { DiagnosisCode } from '../terminology';
+
+// One saved analysis: the submitted input and the result it produced
+export interface HistoryEntry {
+  id: string;
+  input: AnalyzeRequest;
+  result: AnalysisResult;
+  diagnosisCode?: DiagnosisCode | null; // ICD-10 code the physician confirmed
+  consent?: ConsentRecord; // Consent the analysis ran under; unset for entries saved before consent was recorded
+  createdAt: number; // epoch ms when the analysis completed
+  updatedAt: number; // epoch ms of the last change
+  pinned: boolean;
+}
+
+// Fields that can change after an entry is saved; `result` only gains clinician annotations
+export type HistoryEntryChanges = Partial<Pick<HistoryEntry, 'pinned' | 'diagnosisCode' | 'result'>>;
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AnalysisResult, AnalyzeRequest } from '../api';
+import type { ConsentRecord } from '../consent';
+import { createUuid } from '../ids';
+import {
+  addHistoryEntry,
+  compareHistoryEntries,
+  deleteHistoryEntry,
+  listHistory,
+  updateHistoryEntry,
+} from './store';
+import type { HistoryEntry, HistoryEntryChanges } from './types';
+
+// Saved analyses, kept in sync with IndexedDB. Failures reject so the caller can report them.
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  // Last write to each entry. Writes to one entry run in order, so a change made
+  // while the entry is still being saved waits for the save instead of being lost.
+  const pendingWrites = useRef(new Map<string, Promise<unknown>>());
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory()
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const enqueue = useCallback(<T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const previous = pendingWrites.current.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    pendingWrites.current.set(id, next);
+    const settle = () => {
+      if (pendingWrites.current.get(id) === next) pendingWrites.current.delete(id);
+    };
+    next.then(settle, settle);
+    return next;
+  }, []);
+
+  // The id is known at once, so changes can be addressed to the entry before it is stored
+  const save = useCallback(
+    (input: AnalyzeRequest, result: AnalysisResult, consent?: ConsentRecord) => {
+      const id = createUuid();
+      const saved = enqueue(id, async () => {
+        const entry = await addHistoryEntry(input, result, consent, id);
+        setEntries((current) => [entry, ...current].sort(compareHistoryEntries));
+        return entry;
+      });
+      return { id, saved };
+    },
+    [enqueue]
+  );
+
+  const update = useCallback(
+    (id: string, changes: HistoryEntryChanges) =>
+      enqueue(id, async () => {
+        const updated = await updateHistoryEntry(id, changes);
+        setEntries((current) =>
+          current.map((item) => (item.id === updated.id ? updated : item)).sort(compareHistoryEntries)
+        );
+        return updated;
+      }),
+    [enqueue]
+  );
+
+  const remove = useCallback(
+    (id: string) =>
+      enqueue(id, async () => {
+        await deleteHistoryEntry(id);
+        setEntries((current) => current.filter((item) => item.id !== id));
+      }),
+    [enqueue]
+  );
+
+  return { entries, isLoading, loadError, save, update, remove };
+}
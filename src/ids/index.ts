@@ -0,0 +1 @@
+export { createUuid } from './uuid';
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createUuid } from './uuid';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('createUuid', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses crypto.randomUUID where the origin provides it', () => {
+    const randomUUID = vi.spyOn(crypto, 'randomUUID');
+
+    expect(createUuid()).toMatch(UUID_V4);
+    expect(randomUUID).toHaveBeenCalledOnce();
+    randomUUID.mockRestore();
+  });
+
+  it('builds a v4 UUID from getRandomValues on insecure origins', () => {
+    const { getRandomValues } = crypto;
+    // Plain http: crypto has getRandomValues but no randomUUID
+    vi.stubGlobal('crypto', {
+      getRandomValues: getRandomValues.bind(crypto),
+      randomUUID: undefined,
+    });
+
+    const ids = Array.from({ length: 20 }, () => createUuid());
+
+    ids.forEach((id) => expect(id).toMatch(UUID_V4));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,9 @@
+export { connectorPoints, countCrossings, layoutLabels } from './labels';
+export type {
+  LabelInput,
+  LabelLayoutOptions,
+  LabelSide,
+  LabelSize,
+  PlacedLabel,
+  Point,
+} from './types';
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { connectorPoints, countCrossings, layoutLabels } from './labels';
+import type { LabelInput, LabelLayoutOptions, PlacedLabel } from './types';
+
+const OPTIONS: LabelLayoutOptions = {
+  leftColumnX: 20,
+  rightColumnX: 80,
+  top: 3,
+  bottom: 97,
+  gap: 1.5,
+  defaultSize: { width: 18, height: 7 },
+};
+
+const EPSILON = 1e-6;
+
+const label = (id: string, x: number, y: number): LabelInput => ({ id, anchor: { x, y } });
+
+const top = (placed: PlacedLabel) => placed.y - placed.size.height / 2;
+const bottom = (placed: PlacedLabel) => placed.y + placed.size.height / 2;
+
+const column = (placed: PlacedLabel[], side: PlacedLabel['side']) =>
+  placed.filter((item) => item.side === side).sort((a, b) => a.y - b.y);
+
+// Cards in a column are stacked in order with at least `gap` between them
+function expectNoOverlap(placed: PlacedLabel[], gap = OPTIONS.gap) {
+  (['left', 'right'] as const).forEach((side) => {
+    const cards = column(placed, side);
+    cards.slice(1).forEach((card, index) => {
+      expect(top(card) - bottom(cards[index])).toBeGreaterThanOrEqual(gap - EPSILON);
+    });
+  });
+}
+
+// Each side stacked from the top in input order, as if there were no layout
+function naiveLayout(labels: LabelInput[], options: LabelLayoutOptions): PlacedLabel[] {
+  const midline = options.midline ?? 50;
+  const next = { left: options.top, right: options.top };
+  return labels.map((item) => {
+    const side = item.anchor.x <= midline ? 'left' : 'right';
+    const size = item.size ?? options.defaultSize;
+    const y = next[side] + size.height / 2;
+    next[side] += size.height + options.gap;
+    return {
+      id: item.id,
+      anchor: item.anchor,
+      side,
+      columnX: side === 'left' ? options.leftColumnX : options.rightColumnX,
+      y,
+      size,
+      compact: false,
+    };
+  });
+}
+
+describe('connectorPoints', () => {
+  it('runs level out of the card, then to the anchor from halfway across', () => {
+    const [placed] = layoutLabels([label('heart', 40, 30)], OPTIONS);
+
+    expect(connectorPoints(placed)).toEqual([
+      { x: 20, y: 30 },
+      { x: 30, y: 30 },
+      { x: 40, y: 30 },
+    ]);
+  });
+});
+
+describe('countCrossings', () => {
+  const placed = (id: string, anchorY: number, y: number): PlacedLabel => ({
+    id,
+    anchor: { x: 40, y: anchorY },
+    side: 'left',
+    columnX: 20,
+    y,
+    size: OPTIONS.defaultSize,
+    compact: false,
+  });
+
+  it('counts connectors whose cards are in the opposite order of their anchors', () => {
+    expect(countCrossings([placed('a', 20, 60), placed('b', 60, 20)])).toBe(1);
+  });
+
+  it('does not count connectors in the same order as their anchors', () => {
+    expect(countCrossings([placed('a', 20, 10), placed('b', 60, 70)])).toBe(0);
+  });
+});
+
+describe('layoutLabels', () => {
+  it('places a lone card level with its anchor on the anchor side', () => {
+    const [left, right] = layoutLabels([label('liver', 35, 50), label('heart', 60, 40)], OPTIONS);
+
+    expect(left).toMatchObject({ id: 'liver', side: 'left', columnX: 20, y: 50, compact: false });
+    expect(right).toMatchObject({ id: 'heart', side: 'right', columnX: 80, y: 40, compact: false });
+  });
+
+  it('merges cards that would overlap into a block centred on their anchors', () => {
+    const placed = layoutLabels([label('b', 30, 41), label('a', 30, 40), label('c', 30, 42)], OPTIONS);
+
+    expect(column(placed, 'left').map((item) => item.id)).toEqual(['a', 'b', 'c']);
+    expectNoOverlap(placed);
+    // The block sits at the mean of the starts its cards want, so the middle
+    // card stays level with its anchor
+    expect(placed.find((item) => item.id === 'b')!.y).toBeCloseTo(41);
+  });
+
+  it('keeps merged blocks inside the column', () => {
+    const placed = layoutLabels(
+      [label('a', 30, 1), label('b', 30, 2), label('c', 30, 98), label('d', 30, 99)],
+      OPTIONS
+    );
+
+    expectNoOverlap(placed);
+    placed.forEach((item) => {
+      expect(top(item)).toBeGreaterThanOrEqual(OPTIONS.top - EPSILON);
+      expect(bottom(item)).toBeLessThanOrEqual(OPTIONS.bottom + EPSILON);
+    });
+  });
+
+  it('has no more crossings than stacking the cards in input order', () => {
+    const labels = [
+      label('bladder', 50, 85),
+      label('brain', 48, 8),
+      label('kidney', 38, 60),
+      label('lungs', 42, 32),
+      label('liver', 40, 48),
+      label('heart', 55, 36),
+      label('stomach', 58, 50),
+      label('pancreas', 56, 55),
+    ];
+    const naive = countCrossings(naiveLayout(labels, OPTIONS));
+    const placed = layoutLabels(labels, OPTIONS);
+
+    expect(naive).toBeGreaterThan(0);
+    expect(countCrossings(placed)).toBeLessThanOrEqual(naive);
+    expect(countCrossings(placed)).toBe(0);
+  });
+
+  it('hands cards to the other side when one column would overflow', () => {
+    // Twelve cards need 100.5 units; one column has 94
+    const labels = Array.from({ length: 12 }, (_, index) =>
+      label(`organ-${String(index).padStart(2, '0')}`, 30 + index, 5 + index * 8)
+    );
+    const placed = layoutLabels(labels, OPTIONS);
+    const right = column(placed, 'right');
+
+    expect(right.length).toBeGreaterThan(0);
+    expect(column(placed, 'left').length).toBeGreaterThan(right.length);
+    // The cards nearest the midline move first
+    expect(right.map((item) => item.id)).toContain('organ-11');
+    expect(placed.every((item) => !item.compact)).toBe(true);
+    expectNoOverlap(placed);
+  });
+
+  it('closes the gaps of a column that cannot fit every card', () => {
+    const labels = Array.from({ length: 30 }, (_, index) =>
+      label(`organ-${String(index).padStart(2, '0')}`, index % 2 ? 30 : 70, 3 + index * 3)
+    );
+    const placed = layoutLabels(labels, OPTIONS);
+
+    expect(placed).toHaveLength(30);
+    expect(placed.every((item) => item.compact)).toBe(true);
+    placed.forEach((item) => {
+      expect(top(item)).toBeGreaterThanOrEqual(OPTIONS.top - EPSILON);
+      expect(bottom(item)).toBeLessThanOrEqual(OPTIONS.bottom + EPSILON);
+    });
+    // Fifteen 7-unit cards in a 94-unit column overlap evenly
+    (['left', 'right'] as const).forEach((side) => {
+      const cards = column(placed, side);
+      cards.slice(1).forEach((card, index) => {
+        expect(card.y - cards[index].y).toBeCloseTo((94 - 7) / (cards.length - 1));
+      });
+    });
+  });
+
+  it('slides the columns inward to keep cards inside narrow bounds', () => {
+    const placed = layoutLabels([label('liver', 35, 50), label('heart', 60, 40)], {
+      ...OPTIONS,
+      horizontalBounds: { min: 5, max: 90 },
+    });
+    const left = placed.find((item) => item.side === 'left')!;
+    const right = placed.find((item) => item.side === 'right')!;
+
+    expect(left.columnX).toBe(23);
+    expect(left.columnX - left.size.width).toBeGreaterThanOrEqual(5);
+    expect(right.columnX).toBe(72);
+    expect(right.columnX + right.size.width).toBeLessThanOrEqual(90);
+  });
+
+  it('uses measured card sizes over the default', () => {
+    const placed = layoutLabels(
+      [
+        { id: 'a', anchor: { x: 30, y: 40 }, size: { width: 25, height: 12 } },
+        { id: 'b', anchor: { x: 30, y: 42 } },
+      ],
+      OPTIONS
+    );
+
+    expect(placed.find((item) => item.id === 'a')!.size).toEqual({ width: 25, height: 12 });
+    expectNoOverlap(placed);
+  });
+
+  it('gives the same layout for the same input', () => {
+    const labels = () => [
+      label('kidney', 38, 60),
+      label('lungs', 42, 32),
+      label('heart', 55, 36),
+      label('liver', 40, 32),
+      label('stomach', 58, 50),
+    ];
+
+    expect(layoutLabels(labels(), OPTIONS)).toEqual(layoutLabels(labels(), OPTIONS));
+  });
+});
@@ -0,0 +1,236 @@
+import type { LabelInput, LabelLayoutOptions, LabelSide, PlacedLabel, Point } from './types';
+
+const EPSILON = 1e-6;
+
+const sizeOf = (label: LabelInput, options: LabelLayoutOptions) => label.size ?? options.defaultSize;
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Top to bottom by anchor; ties by id so the same input always gives the same layout
+const byAnchorY = (a: LabelInput, b: LabelInput) => a.anchor.y - b.anchor.y || compareIds(a.id, b.id);
+
+// Height of a column of cards stacked at the configured gap
+const stackHeight = (labels: readonly LabelInput[], options: LabelLayoutOptions) =>
+  labels.reduce(
+    (total, label, index) => total + sizeOf(label, options).height + (index > 0 ? options.gap : 0),
+    0
+  );
+
+// Connector from a card to its anchor: level out of the card, then straight to
+// the anchor from halfway across
+export const connectorPoints = (label: PlacedLabel): Point[] => {
+  const midX = (label.columnX + label.anchor.x) / 2;
+  return [
+    { x: label.columnX, y: label.y },
+    { x: midX, y: label.y },
+    label.anchor,
+  ];
+};
+
+const orientation = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Proper crossing only; segments that merely touch do not count
+const segmentsCross = (p1: Point, p2: Point, q1: Point, q2: Point) => {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  return d1 * d2 < -EPSILON && d3 * d4 < -EPSILON;
+};
+
+// Number of places where two connectors cross
+export function countCrossings(labels: readonly PlacedLabel[]): number {
+  const segments = labels.map((label) => {
+    const points = connectorPoints(label);
+    return points.slice(1).map((point, index) => [points[index], point] as const);
+  });
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i += 1) {
+    for (let j = i + 1; j < segments.length; j += 1) {
+      segments[i].forEach(([p1, p2]) =>
+        segments[j].forEach(([q1, q2]) => {
+          if (segmentsCross(p1, p2, q1, q2)) crossings += 1;
+        })
+      );
+    }
+  }
+  return crossings;
+}
+
+interface Block {
+  start: number; // Top edge of the first card
+  height: number;
+  wanted: number; // Sum of the block starts each member would prefer
+  count: number;
+}
+
+// Stack one column. Each card wants its centre level with its anchor; cards
+// that would overlap are merged into a block placed at the mean of the starts
+// its members want, which keeps their total displacement minimal.
+function placeColumn<Id extends string>(
+  labels: readonly LabelInput<Id>[],
+  side: LabelSide,
+  options: LabelLayoutOptions
+): PlacedLabel<Id>[] {
+  const sorted = [...labels].sort(byAnchorY);
+  const heights = sorted.map((label) => sizeOf(label, options).height);
+  const available = options.bottom - options.top;
+  const compact = stackHeight(sorted, options) > available + EPSILON;
+  // A column that does not fit closes its gaps, and overlaps evenly when the
+  // cards alone are taller than the column
+  const cardsHeight = heights.reduce((total, height) => total + height, 0);
+  const gap = !compact
+    ? options.gap
+    : sorted.length > 1
+      ? (available - cardsHeight) / (sorted.length - 1)
+      : 0;
+
+  const clampStart = (start: number, height: number) =>
+    Math.min(Math.max(start, options.top), Math.max(options.top, options.bottom - height));
+
+  const blocks: Block[] = [];
+  sorted.forEach((label, index) => {
+    const wanted = label.anchor.y - heights[index] / 2;
+    blocks.push({ start: clampStart(wanted, heights[index]), height: heights[index], wanted, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.start + previous.height + gap <= last.start + EPSILON) break;
+      const shift = previous.height + gap;
+      const merged: Block = {
+        height: shift + last.height,
+        wanted: previous.wanted + last.wanted - last.count * shift,
+        count: previous.count + last.count,
+        start: 0,
+      };
+      merged.start = clampStart(merged.wanted / merged.count, merged.height);
+      blocks.splice(blocks.length - 2, 2, merged);
+    }
+  });
+
+  const centers: number[] = [];
+  blocks.forEach((block) => {
+    let top = block.start;
+    for (let i = 0; i < block.count; i += 1) {
+      const height = heights[centers.length];
+      centers.push(top + height / 2);
+      top += height + gap;
+    }
+  });
+
+  const { horizontalBounds } = options;
+  return sorted.map((label, index) => {
+    const size = sizeOf(label, options);
+    // Slide the column towards the figure where a card would leave the visible area
+    const columnX =
+      side === 'left'
+        ? Math.max(options.leftColumnX, (horizontalBounds?.min ?? -Infinity) + size.width)
+        : Math.min(options.rightColumnX, (horizontalBounds?.max ?? Infinity) - size.width);
+    return { id: label.id, anchor: label.anchor, side, columnX, y: centers[index], size, compact };
+  });
+}
+
+interface Candidate<Id extends string> {
+  left: LabelInput<Id>[];
+  right: LabelInput<Id>[];
+  placed: PlacedLabel<Id>[];
+  overflow: number; // Column height beyond the available space, summed over both sides
+  crossings: number;
+  length: number; // Total connector length
+}
+
+function evaluate<Id extends string>(
+  left: LabelInput<Id>[],
+  right: LabelInput<Id>[],
+  options: LabelLayoutOptions
+): Candidate<Id> {
+  const available = options.bottom - options.top;
+  const placed = [
+    ...placeColumn(left, 'left', options),
+    ...placeColumn(right, 'right', options),
+  ];
+  return {
+    left,
+    right,
+    placed,
+    overflow:
+      Math.max(0, stackHeight(left, options) - available) +
+      Math.max(0, stackHeight(right, options) - available),
+    crossings: countCrossings(placed),
+    length: placed.reduce((total, label) => {
+      const points = connectorPoints(label);
+      return (
+        total +
+        points
+          .slice(1)
+          .reduce((sum, point, index) => sum + Math.hypot(point.x - points[index].x, point.y - points[index].y), 0)
+      );
+    }, 0),
+  };
+}
+
+// Fewer overflowing cards first, then fewer crossings, then shorter connectors
+const isBetter = (a: Candidate<string>, b: Candidate<string>) => {
+  if (Math.abs(a.overflow - b.overflow) > EPSILON) return a.overflow < b.overflow;
+  if (a.crossings !== b.crossings) return a.crossings < b.crossings;
+  return a.length < b.length - EPSILON;
+};
+
+// Lay out info cards in a column either side of a figure, each connected to
+// its anchor. Cards start on the side of the midline their anchor is on; a
+// column taller than the figure hands the cards nearest the midline to the
+// other side, then single moves and swaps between the sides are kept while
+// they reduce overflow, connector crossings or connector length. The result
+// depends only on the input, so equal inputs give equal layouts.
+export function layoutLabels<Id extends string>(
+  labels: readonly LabelInput<Id>[],
+  options: LabelLayoutOptions
+): PlacedLabel<Id>[] {
+  const midline = options.midline ?? 50;
+  const available = options.bottom - options.top;
+  const left = labels.filter((label) => label.anchor.x <= midline);
+  const right = labels.filter((label) => label.anchor.x > midline);
+
+  const rebalance = (from: LabelInput<Id>[], to: LabelInput<Id>[]) => {
+    const nearestFirst = [...from].sort(
+      (a, b) => Math.abs(a.anchor.x - midline) - Math.abs(b.anchor.x - midline) || compareIds(a.id, b.id)
+    );
+    for (const label of nearestFirst) {
+      const fromHeight = stackHeight(from, options);
+      if (fromHeight <= available) return;
+      const moved = sizeOf(label, options).height + options.gap;
+      if (Math.max(fromHeight - moved, stackHeight(to, options) + moved) >= fromHeight) return;
+      from.splice(from.indexOf(label), 1);
+      to.push(label);
+    }
+  };
+  rebalance(left, right);
+  rebalance(right, left);
+
+  type Split = [LabelInput<Id>[], LabelInput<Id>[]];
+  let best = evaluate(left, right, options);
+  const without = (list: LabelInput<Id>[], label: LabelInput<Id>) => list.filter((item) => item !== label);
+
+  // Bounded local search: every accepted step strictly improves the layout
+  for (let step = 0; step < labels.length * 2; step += 1) {
+    const { left: currentLeft, right: currentRight } = best;
+    const moves: Split[] = [
+      ...currentLeft.map((label): Split => [without(currentLeft, label), [...currentRight, label]]),
+      ...currentRight.map((label): Split => [[...currentLeft, label], without(currentRight, label)]),
+      ...currentLeft.flatMap((leftLabel) =>
+        currentRight.map((rightLabel): Split => [
+          [...without(currentLeft, leftLabel), rightLabel],
+          [...without(currentRight, rightLabel), leftLabel],
+        ])
+      ),
+    ];
+
+    const improvement = moves
+      .map(([nextLeft, nextRight]) => evaluate(nextLeft, nextRight, options))
+      .find((candidate) => isBetter(candidate, best));
+    if (!improvement) break;
+    best = improvement;
+  }
+
+  return best.placed;
+}
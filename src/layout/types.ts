@@ -0,0 +1,41 @@
+// All coordinates are percentages of the figure the labels annotate, so a
+// layout holds at any rendered size. Values outside 0-100 are outside the figure.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LabelSize {
+  width: number;
+  height: number;
+}
+
+export type LabelSide = 'left' | 'right';
+
+export interface LabelInput<Id extends string = string> {
+  id: Id;
+  anchor: Point; // The point on the figure the label's connector ends at
+  size?: LabelSize; // Measured card size; options.defaultSize until measured
+}
+
+export interface LabelLayoutOptions {
+  leftColumnX: number; // Right edge of cards in the left column
+  rightColumnX: number; // Left edge of cards in the right column
+  top: number; // Highest a card's top edge may go
+  bottom: number; // Lowest a card's bottom edge may go
+  gap: number; // Vertical space between cards in a column
+  defaultSize: LabelSize;
+  midline?: number; // Anchors left of this start in the left column; 50 when unset
+  horizontalBounds?: { min: number; max: number }; // Visible area; cards are kept inside it
+}
+
+export interface PlacedLabel<Id extends string = string> {
+  id: Id;
+  anchor: Point;
+  side: LabelSide;
+  columnX: number; // Edge of the card facing the figure, where the connector starts
+  y: number; // Card centre
+  size: LabelSize;
+  compact: boolean; // The column could not fit every card at full size
+}
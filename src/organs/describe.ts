@@ -0,0 +1,31 @@
+import { ORGAN_REGISTRY, type OrganKey } from './registry';
+
+type OrganLevel = 'low' | 'medium' | 'high';
+
+// Screen reader text for one affected organ, e.g. "Lungs, high severity, 85% confidence"
+export function describeOrgan(
+  organKey: OrganKey,
+  severity?: OrganLevel,
+  confidence?: number
+): string {
+  return [
+    ORGAN_REGISTRY[organKey].label,
+    severity && `${severity} severity`,
+    confidence !== undefined && `${Math.round(confidence)}% confidence`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+// Text alternative for the body figure: every affected organ with its levels
+export function describeAffectedOrgans(
+  organKeys: readonly OrganKey[],
+  severityLevels: Partial<Record<OrganKey, OrganLevel>> = {},
+  confidenceLevels: Partial<Record<OrganKey, number>> = {}
+): string {
+  if (organKeys.length === 0) return 'No affected organs.';
+  const organs = organKeys.map((organKey) =>
+    describeOrgan(organKey, severityLevels[organKey], confidenceLevels[organKey])
+  );
+  return `${organKeys.length} affected ${organKeys.length === 1 ? 'organ' : 'organs'}: ${organs.join('; ')}.`;
+}
@@ -0,0 +1,40 @@
+export {
+  BODY_ORGANS,
+  BODY_SVG_ORGANS,
+  DRAWN_REGION_ORGANS,
+  ORGANS,
+  ORGAN_KEYS,
+  ORGAN_REGISTRY,
+  isOrganKey,
+  lookupOrgan,
+} from './registry';
+export type {
+  AnatomicalSystem,
+  BodySide,
+  BodyStructureCode,
+  DrawnRegion,
+  OrganDefinition,
+  OrganDepth,
+  OrganKey,
+} from './registry';
+export {
+  getOrganDetail,
+  getOrganValue,
+  normalizeOrganRecord,
+  normalizeOrgans,
+  resolveOrganLevels,
+  resolveOrganName,
+} from './normalize';
+export type { NormalizedOrgans } from './normalize';
+export { mentionsOrgan, sentencesMentioning } from './mentions';
+export { describeAffectedOrgans, describeOrgan } from './describe';
+export {
+  BODY_VIEWS,
+  BODY_VIEW_IDS,
+  DEFAULT_BODY_VIEW,
+  isBodyViewId,
+  isOrganInView,
+  organDistance,
+  organPaintOrder,
+} from './views';
+export type { BodyView, BodyViewId } from './views';
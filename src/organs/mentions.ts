@@ -0,0 +1,15 @@
+import { resolveOrganName } from './normalize';
+import type { OrganKey } from './registry';
+
+// Whether free text names the organ by key, label or synonym, as whole words
+export const mentionsOrgan = (text: string, organKey: OrganKey): boolean =>
+  resolveOrganName(text).includes(organKey);
+
+// Sentences of `text` that mention the organ, in order
+export function sentencesMentioning(text: string | undefined, organKey: OrganKey): string[] {
+  if (!text) return [];
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence && mentionsOrgan(sentence, organKey));
+}
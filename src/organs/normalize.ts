@@ -0,0 +1,114 @@
+import { lookupOrgan, type OrganDefinition, type OrganKey } from './registry';
+
+// Words that qualify an organ without changing which one it is
+const QUALIFIERS = new Set(['the', 'left', 'right', 'bilateral', 'both', 'upper', 'lower', 'of']);
+
+const MAX_PHRASE_WORDS = 3;
+
+const lookupPhrase = (phrase: string): OrganKey | undefined =>
+  (lookupOrgan(phrase) ?? (phrase.endsWith('s') ? lookupOrgan(phrase.slice(0, -1)) : undefined))
+    ?.key;
+
+// Resolve a free-text organ name from the model to canonical registry keys.
+// Matching is on whole words against the registry's keys, labels and synonyms,
+// longest phrase first, so "small bowel" maps to intestine, "heart and lungs"
+// to both, and "heartburn" or "gallbladder" to nothing.
+export function resolveOrganName(name: string): OrganKey[] {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!cleaned) return [];
+
+  const exact = lookupPhrase(cleaned);
+  if (exact) return [exact];
+
+  const words = cleaned.split(' ').filter((word) => !QUALIFIERS.has(word));
+  const keys: OrganKey[] = [];
+  let index = 0;
+  while (index < words.length) {
+    let matched = 0;
+    for (let size = Math.min(MAX_PHRASE_WORDS, words.length - index); size > 0; size -= 1) {
+      const key = lookupPhrase(words.slice(index, index + size).join(' '));
+      if (key) {
+        if (!keys.includes(key)) keys.push(key);
+        matched = size;
+        break;
+      }
+    }
+    index += matched || 1;
+  }
+  return keys;
+}
+
+export interface NormalizedOrgans {
+  keys: OrganKey[]; // canonical keys in first-seen order, de-duplicated
+  unrecognized: string[]; // input names that matched no registry organ
+}
+
+export function normalizeOrgans(names: readonly string[]): NormalizedOrgans {
+  const keys: OrganKey[] = [];
+  const unrecognized: string[] = [];
+
+  names.forEach((name) => {
+    const resolved = resolveOrganName(name);
+    if (resolved.length === 0) {
+      if (name.trim() && !unrecognized.includes(name.trim())) unrecognized.push(name.trim());
+      return;
+    }
+    resolved.forEach((key) => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+
+  return { keys, unrecognized };
+}
+
+// Value an organ-keyed record holds for an organ, whichever name the backend keyed it by
+export function getOrganValue<T>(
+  record: Record<string, T> | undefined,
+  organ: OrganDefinition
+): T | undefined {
+  if (!record) return undefined;
+  if (record[organ.key] !== undefined) return record[organ.key];
+  return Object.entries(record).find(([name]) => resolveOrganName(name).includes(organ.key))?.[1];
+}
+
+// Detail text for an organ, whichever name the backend keyed it by
+export function getOrganDetail(
+  organDetails: Record<string, string> | undefined,
+  organ: OrganDefinition
+): string | undefined {
+  return getOrganValue(organDetails, organ) || undefined;
+}
+
+// Re-key an organ-keyed record by canonical organ key; unmapped names are dropped
+export function normalizeOrganRecord<T>(
+  record: Record<string, T> | undefined
+): Partial<Record<OrganKey, T>> {
+  const normalized: Partial<Record<OrganKey, T>> = {};
+  Object.entries(record ?? {}).forEach(([name, value]) => {
+    resolveOrganName(name).forEach((key) => {
+      if (normalized[key] === undefined) normalized[key] = value;
+    });
+  });
+  return normalized;
+}
+
+// Value of each named organ from an organ-keyed record, using `fallback` for organs
+// the record does not cover (e.g. the overall severity when no per-organ level exists)
+export function resolveOrganLevels<T>(
+  names: readonly string[],
+  record: Record<string, T> | undefined,
+  fallback?: T
+): Partial<Record<OrganKey, T>> {
+  const normalized = normalizeOrganRecord(record);
+  const levels: Partial<Record<OrganKey, T>> = {};
+  normalizeOrgans(names).keys.forEach((key) => {
+    const value = normalized[key] ?? fallback;
+    if (value !== undefined) levels[key] = value;
+  });
+  return levels;
+}
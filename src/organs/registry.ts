@@ -0,0 +1,248 @@
+// Single source of truth for every organ the app knows about. The body SVG,
+// the organ grid and the diagnosis overlay all read from here, so adding an
+// organ is one entry below, with either a clip-path in body-organs.svg or a
+// drawn region.
+
+export const ORGAN_KEYS = [
+  'brain',
+  'sinuses',
+  'throat',
+  'lungs',
+  'bronchi',
+  'heart',
+  'liver',
+  'stomach',
+  'pancreas',
+  'kidney',
+  'intestine',
+  'bladder',
+] as const;
+
+export type OrganKey = (typeof ORGAN_KEYS)[number];
+
+export type AnatomicalSystem =
+  | 'nervous'
+  | 'respiratory'
+  | 'cardiovascular'
+  | 'digestive'
+  | 'urinary';
+
+// Side of the patient's body the organ sits on (anatomical, not screen side)
+export type BodySide = 'left' | 'right' | 'midline' | 'bilateral';
+
+// How far the organ sits from the front of the body; decides which organ is
+// drawn on top where two overlap in the front and back views
+export type OrganDepth = 'anterior' | 'middle' | 'posterior';
+
+// Ellipse drawn over the body for organs without their own artwork, placed
+// relative to the bounding box of an organ that has artwork. Centre and radii
+// are fractions of that box, so the shape follows the artwork if it changes.
+export interface DrawnRegion {
+  anchor: OrganKey;
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+}
+
+// SNOMED CT body structure concept for the organ, used as the coded body site in exports
+export interface BodyStructureCode {
+  code: string;
+  display: string;
+}
+
+export interface OrganDefinition {
+  key: OrganKey;
+  label: string;
+  synonyms: readonly string[]; // alternative names the model may return, matched as whole words
+  system: AnatomicalSystem;
+  color: string;
+  clipId?: string; // clip-path id of the organ group in body-organs.svg
+  region?: DrawnRegion; // drawn shape when the organ has no clip-path group
+  side: BodySide;
+  depth: OrganDepth;
+  snomed: BodyStructureCode;
+}
+
+export const ORGAN_REGISTRY: Record<OrganKey, OrganDefinition> = {
+  brain: {
+    key: 'brain',
+    label: 'Brain',
+    synonyms: ['cerebral', 'cerebrum', 'cerebellum', 'brainstem', 'brain stem', 'neurological'],
+    system: 'nervous',
+    color: '#a855f7',
+    clipId: 'Brain',
+    side: 'midline',
+    depth: 'middle',
+    snomed: { code: '12738006', display: 'Brain structure' },
+  },
+  sinuses: {
+    key: 'sinuses',
+    label: 'Sinuses',
+    synonyms: ['sinus', 'paranasal sinuses', 'paranasal sinus', 'nasal sinuses', 'sinonasal'],
+    system: 'respiratory',
+    color: '#8b5cf6',
+    region: { anchor: 'brain', cx: 0.5, cy: 1.12, rx: 0.2, ry: 0.1 },
+    side: 'midline',
+    depth: 'anterior',
+    snomed: { code: '2095001', display: 'Accessory sinus structure' },
+  },
+  throat: {
+    key: 'throat',
+    label: 'Throat',
+    synonyms: ['pharynx', 'pharyngeal', 'larynx', 'laryngeal', 'tonsils', 'tonsil'],
+    system: 'respiratory',
+    color: '#6366f1',
+    region: { anchor: 'lungs', cx: 0.5, cy: -0.16, rx: 0.06, ry: 0.11 },
+    side: 'midline',
+    depth: 'middle',
+    snomed: { code: '54066008', display: 'Pharyngeal structure' },
+  },
+  lungs: {
+    key: 'lungs',
+    label: 'Lungs',
+    synonyms: ['lung', 'pulmonary', 'pleura', 'pleural', 'alveoli'],
+    system: 'respiratory',
+    color: '#3b82f6',
+    clipId: 'Lungs',
+    side: 'bilateral',
+    depth: 'middle',
+    snomed: { code: '39607008', display: 'Lung structure' },
+  },
+  bronchi: {
+    key: 'bronchi',
+    label: 'Bronchi',
+    synonyms: ['bronchus', 'bronchial', 'bronchioles', 'bronchiole', 'airways', 'airway'],
+    system: 'respiratory',
+    color: '#0ea5e9',
+    region: { anchor: 'lungs', cx: 0.5, cy: 0.24, rx: 0.14, ry: 0.1 },
+    side: 'bilateral',
+    depth: 'middle',
+    snomed: { code: '955009', display: 'Bronchial structure' },
+  },
+  heart: {
+    key: 'heart',
+    label: 'Heart',
+    synonyms: ['cardiac', 'myocardium', 'myocardial', 'pericardium', 'coronary'],
+    system: 'cardiovascular',
+    color: '#ef4444',
+    clipId: 'Heart',
+    side: 'left',
+    depth: 'anterior',
+    snomed: { code: '80891009', display: 'Heart structure' },
+  },
+  liver: {
+    key: 'liver',
+    label: 'Liver',
+    synonyms: ['hepatic', 'hepatocellular'],
+    system: 'digestive',
+    color: '#92400e',
+    clipId: 'Liver',
+    side: 'right',
+    depth: 'anterior',
+    snomed: { code: '10200004', display: 'Liver structure' },
+  },
+  stomach: {
+    key: 'stomach',
+    label: 'Stomach',
+    synonyms: ['gastric'],
+    system: 'digestive',
+    color: '#f97316',
+    clipId: 'Stomach',
+    side: 'left',
+    depth: 'anterior',
+    snomed: { code: '69695003', display: 'Stomach structure' },
+  },
+  pancreas: {
+    key: 'pancreas',
+    label: 'Pancreas',
+    synonyms: ['pancreatic'],
+    system: 'digestive',
+    color: '#f59e0b',
+    clipId: 'Pancreas',
+    side: 'left',
+    depth: 'posterior',
+    snomed: { code: '15776009', display: 'Pancreatic structure' },
+  },
+  kidney: {
+    key: 'kidney',
+    label: 'Kidneys',
+    synonyms: ['kidneys', 'renal', 'nephric'],
+    system: 'urinary',
+    color: '#b91c1c',
+    clipId: 'Kidney',
+    side: 'bilateral',
+    depth: 'posterior',
+    snomed: { code: '64033007', display: 'Kidney structure' },
+  },
+  intestine: {
+    key: 'intestine',
+    label: 'Intestines',
+    synonyms: [
+      'intestines',
+      'intestinal',
+      'bowel',
+      'bowels',
+      'small bowel',
+      'large bowel',
+      'small intestine',
+      'large intestine',
+      'colon',
+      'colonic',
+      'duodenum',
+      'ileum',
+      'jejunum',
+      'gut',
+    ],
+    system: 'digestive',
+    color: '#d946ef',
+    clipId: 'Intestine',
+    side: 'midline',
+    depth: 'anterior',
+    snomed: { code: '113276009', display: 'Intestinal structure' },
+  },
+  bladder: {
+    key: 'bladder',
+    label: 'Bladder',
+    synonyms: ['urinary bladder', 'vesical'],
+    system: 'urinary',
+    color: '#14b8a6',
+    region: { anchor: 'intestine', cx: 0.5, cy: 1.1, rx: 0.16, ry: 0.09 },
+    side: 'midline',
+    depth: 'anterior',
+    snomed: { code: '89837001', display: 'Urinary bladder structure' },
+  },
+};
+
+// Registry entries in display order
+export const ORGANS: readonly OrganDefinition[] = ORGAN_KEYS.map((key) => ORGAN_REGISTRY[key]);
+
+// Organs that have a region in body-organs.svg
+export const BODY_SVG_ORGANS = ORGANS.filter(
+  (organ): organ is OrganDefinition & { clipId: string } => !!organ.clipId
+);
+
+// Organs shown on the body, either as artwork or as a drawn region
+export const BODY_ORGANS = ORGANS.filter((organ) => !!organ.clipId || !!organ.region);
+
+// Organs without artwork that are drawn over the body instead
+export const DRAWN_REGION_ORGANS = ORGANS.filter(
+  (organ): organ is OrganDefinition & { region: DrawnRegion } => !organ.clipId && !!organ.region
+);
+
+export const isOrganKey = (value: string): value is OrganKey =>
+  Object.prototype.hasOwnProperty.call(ORGAN_REGISTRY, value);
+
+const ORGAN_NAME_INDEX = new Map<string, OrganKey>(
+  ORGANS.flatMap((organ) =>
+    [organ.key, organ.label, ...organ.synonyms].map(
+      (name) => [name.toLowerCase(), organ.key] as [string, OrganKey]
+    )
+  )
+);
+
+// Exact (case-insensitive) lookup by key, label or synonym
+export const lookupOrgan = (name: string): OrganDefinition | undefined => {
+  const key = ORGAN_NAME_INDEX.get(name.trim().toLowerCase());
+  return key ? ORGAN_REGISTRY[key] : undefined;
+};
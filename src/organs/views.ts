@@ -0,0 +1,52 @@
+import { BODY_ORGANS, type AnatomicalSystem, type OrganDefinition, type OrganDepth, type OrganKey } from './registry';
+
+// Ways of looking at the body: from the front, from the back, or one
+// anatomical system on its own
+export type BodyViewId = 'anterior' | 'posterior' | AnatomicalSystem;
+
+export interface BodyView {
+  id: BodyViewId;
+  label: string;
+  // Seen from behind: the figure is flipped horizontally, so the patient's
+  // left side is on the left of the screen
+  mirrored: boolean;
+  system?: AnatomicalSystem; // Layers show only this system's organs
+}
+
+export const BODY_VIEWS: Record<BodyViewId, BodyView> = {
+  anterior: { id: 'anterior', label: 'Anterior', mirrored: false },
+  posterior: { id: 'posterior', label: 'Posterior', mirrored: true },
+  nervous: { id: 'nervous', label: 'Nervous', mirrored: false, system: 'nervous' },
+  cardiovascular: { id: 'cardiovascular', label: 'Cardiovascular', mirrored: false, system: 'cardiovascular' },
+  respiratory: { id: 'respiratory', label: 'Respiratory', mirrored: false, system: 'respiratory' },
+  digestive: { id: 'digestive', label: 'Digestive', mirrored: false, system: 'digestive' },
+  urinary: { id: 'urinary', label: 'Urinary', mirrored: false, system: 'urinary' },
+};
+
+export const DEFAULT_BODY_VIEW: BodyViewId = 'anterior';
+
+// Views in switcher order: the whole body first, then the system layers
+export const BODY_VIEW_IDS = Object.keys(BODY_VIEWS) as BodyViewId[];
+
+export const isBodyViewId = (value: string): value is BodyViewId =>
+  Object.prototype.hasOwnProperty.call(BODY_VIEWS, value);
+
+export const isOrganInView = (organ: OrganDefinition, viewId: BodyViewId) => {
+  const { system } = BODY_VIEWS[viewId];
+  return !system || organ.system === system;
+};
+
+const DEPTH_FROM_FRONT: Record<OrganDepth, number> = { anterior: 0, middle: 1, posterior: 2 };
+
+// Distance from the viewer: 0 for the nearest organs
+export const organDistance = (organ: OrganDefinition, viewId: BodyViewId) => {
+  const depth = DEPTH_FROM_FRONT[organ.depth];
+  return viewId === 'posterior' ? 2 - depth : depth;
+};
+
+// Body organs in paint order for the view, farthest from the viewer first,
+// so nearer organs are drawn on top where they overlap
+export const organPaintOrder = (viewId: BodyViewId): OrganKey[] =>
+  BODY_ORGANS.filter((organ) => isOrganInView(organ, viewId))
+    .sort((a, b) => organDistance(b, viewId) - organDistance(a, viewId))
+    .map((organ) => organ.key);
@@ -0,0 +1,108 @@
+import type { PhiCategory, PhiSpan } from './types';
+
+const MONTH =
+  '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+const STREET_SUFFIX =
+  '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Highway|Hwy)';
+
+// Patterns for identifiers with a recognisable shape. Earlier entries win when
+// two matches overlap by the same length, so the more specific come first.
+const PHI_PATTERNS: { category: PhiCategory; pattern: RegExp }[] = [
+  { category: 'email', pattern: /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g },
+  {
+    category: 'mrn',
+    pattern:
+      /\b(?:MRN|MR#|medical record(?: number| no\.?)?|patient (?:id|number)|chart (?:no\.?|number))\s*[:#]?\s*[A-Z]{0,3}-?\d[\d-]{3,}\d/gi,
+  },
+  {
+    category: 'phone',
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+  },
+  {
+    category: 'date',
+    pattern: new RegExp(
+      [
+        String.raw`\b\d{4}-\d{2}-\d{2}\b`,
+        String.raw`\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b`,
+        String.raw`\b${MONTH}\.? \d{1,2}(?:st|nd|rd|th)?(?:,? \d{4})?\b`,
+        String.raw`\b\d{1,2}(?:st|nd|rd|th)? ${MONTH}\.?,? \d{4}\b`,
+      ].join('|'),
+      'g'
+    ),
+  },
+  {
+    category: 'address',
+    pattern: new RegExp(
+      String.raw`\b\d{1,5} (?:[A-Z][a-z]+ ){1,3}${STREET_SUFFIX}\b\.?(?:,? (?:Apt|Suite|Unit)\.? ?\w+)?|\bP\.? ?O\.? Box \d+\b`,
+      'g'
+    ),
+  },
+  {
+    // Titled names: "Mr. Alvarez", "Dr Jane Okafor"
+    category: 'name',
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\.? [A-Z][a-z'-]+(?: [A-Z][a-z'-]+)?/g,
+  },
+];
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive matches of each term
+function findTerms(text: string, terms: string[], category: PhiCategory): PhiSpan[] {
+  return terms.flatMap((term) => {
+    const pattern = new RegExp(`(?<!\\w)${escapeRegExp(term).replace(/\s+/g, '\\s+')}(?!\\w)`, 'gi');
+    return [...text.matchAll(pattern)].map((match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      text: match[0],
+      category,
+    }));
+  });
+}
+
+// The full name and each part of it, so "Maria Alvarez" also catches a later "Alvarez"
+export function nameVariants(name: string): string[] {
+  const full = name.trim().replace(/\s+/g, ' ');
+  if (!full) return [];
+  const parts = full
+    .split(/[\s,]+/)
+    .map((part) => part.replace(/\.$/, ''))
+    .filter((part) => part.length > 1 && !TITLES.has(part.toLowerCase()));
+  return [...new Set([full, ...parts])];
+}
+
+export interface DetectPhiOptions {
+  names?: string[]; // Known names, e.g. the patient's and physician's
+  terms?: string[]; // Extra terms the clinician marked as identifying
+}
+
+// Identifying values in `text`, in order and without overlaps. Where matches
+// overlap the longest is kept, so "Dr. Jane Okafor" wins over "Okafor".
+export function detectPhi(text: string, { names = [], terms = [] }: DetectPhiOptions = {}): PhiSpan[] {
+  const candidates: PhiSpan[] = [
+    ...findTerms(text, terms.map((term) => term.trim()).filter(Boolean), 'other'),
+    ...findTerms(text, names.flatMap(nameVariants), 'name'),
+    ...PHI_PATTERNS.flatMap(({ category, pattern }) =>
+      [...text.matchAll(pattern)].map((match) => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        text: match[0],
+        category,
+      }))
+    ),
+  ];
+
+  // Stable sort: equal-length overlaps keep the order above
+  const byLength = candidates
+    .map((span, order) => ({ span, order }))
+    .sort((a, b) => b.span.end - b.span.start - (a.span.end - a.span.start) || a.order - b.order)
+    .map(({ span }) => span);
+
+  const kept: PhiSpan[] = [];
+  byLength.forEach((span) => {
+    if (kept.every((other) => span.end <= other.start || span.start >= other.end)) kept.push(span);
+  });
+  return kept.sort((a, b) => a.start - b.start);
+}
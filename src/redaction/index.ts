@@ -0,0 +1,11 @@
+export { detectPhi, nameVariants } from './detect';
+export type { DetectPhiOptions } from './detect';
+export {
+  EMPTY_REDACTION_SETTINGS,
+  redactRequest,
+  redactionKey,
+  rehydrateResult,
+  rehydrateText,
+} from './redact';
+export type { RedactedRequest } from './redact';
+export type { PhiCategory, PhiSpan, Redaction, RedactedSpan } from './types';
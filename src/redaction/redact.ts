@@ -0,0 +1,127 @@
+import type { AnalyzeRequest, PartialAnalysisResult, RedactionSettings } from '../api';
+import { detectPhi } from './detect';
+import type { PhiCategory, PhiSpan, Redaction, RedactedSpan } from './types';
+
+const PLACEHOLDER_LABELS: Record<PhiCategory, string> = {
+  name: 'NAME',
+  date: 'DATE',
+  phone: 'PHONE',
+  mrn: 'MRN',
+  address: 'ADDRESS',
+  email: 'EMAIL',
+  other: 'REDACTED',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:NAME|DATE|PHONE|MRN|ADDRESS|EMAIL|REDACTED)-\d+\]/g;
+
+export const EMPTY_REDACTION_SETTINGS: RedactionSettings = { allowed: [], added: [] };
+
+// Values compare case- and whitespace-insensitively, so "Alvarez" and "ALVAREZ"
+// share a placeholder and allowing one allows both
+export const redactionKey = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Hands out placeholders for one request: the same value always gets the same
+// placeholder, numbered per category in order of first appearance
+function createRedactor({ allowed }: RedactionSettings) {
+  const allowedKeys = new Set(allowed.map(redactionKey));
+  const byValue = new Map<string, Redaction>();
+  const counts: Partial<Record<PhiCategory, number>> = {};
+
+  const placeholderFor = (value: string, category: PhiCategory): string | undefined => {
+    const key = redactionKey(value);
+    if (!key || allowedKeys.has(key)) return undefined;
+    let redaction = byValue.get(key);
+    if (!redaction) {
+      counts[category] = (counts[category] ?? 0) + 1;
+      redaction = { placeholder: `[${PLACEHOLDER_LABELS[category]}-${counts[category]}]`, value, category };
+      byValue.set(key, redaction);
+    }
+    return redaction.placeholder;
+  };
+
+  const redactSpans = (text: string, spans: PhiSpan[]) => {
+    const redactedSpans: RedactedSpan[] = spans.map((span) => ({
+      ...span,
+      placeholder: placeholderFor(span.text, span.category),
+    }));
+    let redacted = '';
+    let cursor = 0;
+    redactedSpans.forEach(({ start, end, placeholder }) => {
+      if (!placeholder) return;
+      redacted += text.slice(cursor, start) + placeholder;
+      cursor = end;
+    });
+    return { text: redacted + text.slice(cursor), spans: redactedSpans };
+  };
+
+  return { placeholderFor, redactSpans, redactions: () => [...byValue.values()] };
+}
+
+export interface RedactedRequest {
+  request: AnalyzeRequest; // What is sent to the backend
+  redactions: Redaction[]; // Placeholders in `request`, for rehydrating the result
+  spans: RedactedSpan[]; // Everything detected in the description, for the preview
+}
+
+// Replace names, dates, phone numbers, record numbers, addresses and emails in
+// the request with placeholders such as "[NAME-1]". The patient and physician
+// names are always replaced, and also looked for in the free text. Settings on
+// the request let the clinician keep detected values or redact extra terms.
+export function redactRequest(request: AnalyzeRequest): RedactedRequest {
+  const settings = request.redaction ?? EMPTY_REDACTION_SETTINGS;
+  const redactor = createRedactor(settings);
+  const options = { names: [request.patientName, request.doctorName], terms: settings.added };
+  const redactText = (text: string) => redactor.redactSpans(text, detectPhi(text, options)).text;
+
+  // Names first, so the patient is always [NAME-1]
+  const patientName = redactor.placeholderFor(request.patientName, 'name') ?? request.patientName;
+  const doctorName = redactor.placeholderFor(request.doctorName, 'name') ?? request.doctorName;
+  const description = redactor.redactSpans(request.description, detectPhi(request.description, options));
+  const { clinical } = request;
+
+  return {
+    request: {
+      patientName,
+      doctorName,
+      description: description.text,
+      ...(clinical
+        ? {
+            clinical: {
+              ...clinical,
+              chiefComplaint: redactText(clinical.chiefComplaint),
+              history: clinical.history && redactText(clinical.history),
+              notes: clinical.notes && redactText(clinical.notes),
+            },
+          }
+        : {}),
+      ...(request.engines ? { engines: request.engines } : {}),
+    },
+    redactions: redactor.redactions(),
+    spans: description.spans,
+  };
+}
+
+// Put the original values back where the model repeated a placeholder
+export function rehydrateText(text: string, redactions: Redaction[]): string {
+  if (redactions.length === 0) return text;
+  const values = new Map(redactions.map(({ placeholder, value }) => [placeholder, value]));
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => values.get(placeholder) ?? placeholder);
+}
+
+// Rehydrate every free-text field of a (partial) result. Runs in the browser,
+// so the original values never reach the backend.
+export function rehydrateResult<T extends PartialAnalysisResult>(result: T, redactions: Redaction[]): T {
+  if (redactions.length === 0) return result;
+  const rehydrate = (text: string) => rehydrateText(text, redactions);
+  return {
+    ...result,
+    diagnosis: result.diagnosis && rehydrate(result.diagnosis),
+    explanation: result.explanation && rehydrate(result.explanation),
+    recommendations: result.recommendations.map(rehydrate),
+    organDetails:
+      result.organDetails &&
+      Object.fromEntries(
+        Object.entries(result.organDetails).map(([organ, detail]) => [organ, rehydrate(detail)])
+      ),
+  };
+}
@@ -0,0 +1,30 @@
+// Kinds of protected health information the redaction pipeline looks for
+export type PhiCategory =
+  | 'name'
+  | 'date'
+  | 'phone'
+  | 'mrn' // Medical record or patient ID number
+  | 'address'
+  | 'email'
+  | 'other'; // Term the clinician marked as identifying
+
+// Identifying value found in a piece of clinical text; `end` is exclusive
+export interface PhiSpan {
+  start: number;
+  end: number;
+  text: string;
+  category: PhiCategory;
+}
+
+// A detected value as the preview shows it: replaced by `placeholder`, or
+// sent as written when the clinician allowed it
+export interface RedactedSpan extends PhiSpan {
+  placeholder?: string;
+}
+
+// One placeholder and the value it stands for. Never sent to the backend.
+export interface Redaction {
+  placeholder: string;
+  value: string;
+  category: PhiCategory;
+}
@@ -0,0 +1,3 @@
+// Shown under the input form and printed on every exported report
+export const CLINICAL_DISCLAIMER =
+  'AI-generated analysis is for clinical decision support only. Always verify findings with professional medical judgment and additional diagnostic procedures.';
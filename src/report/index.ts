@@ -0,0 +1,3 @@
+export { CLINICAL_DISCLAIMER } from './disclaimer';
+export { createReportPdf, downloadReportPdf, reportFileName } from './pdf';
+export type { ClinicalReport } from './types';
@@ -0,0 +1,540 @@
+import { jsPDF } from 'jspdf';
+import 'svg2pdf.js';
+import type { OrganSource } from '../annotations';
+import { ENGINES, describeAnsweringEngine, type Severity } from '../api';
+import { consentText } from '../consent';
+import {
+  BODY_VIEWS,
+  DEFAULT_BODY_VIEW,
+  ORGAN_REGISTRY,
+  getOrganDetail,
+  isOrganInView,
+  normalizeOrgans,
+  type BodyView,
+  type OrganKey,
+} from '../organs';
+import { CLINICAL_DISCLAIMER } from './disclaimer';
+import type { ClinicalReport } from './types';
+
+type Rgb = [number, number, number];
+
+// A4 portrait, millimetres
+const PAGE = { margin: 18, footerHeight: 18 };
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.35;
+
+const COLORS: Record<'text' | 'muted' | 'accent' | 'rule', Rgb> = {
+  text: [15, 23, 42],
+  muted: [100, 116, 139],
+  accent: [8, 145, 178],
+  rule: [226, 232, 240],
+};
+
+const SEVERITY_RGB: Record<Severity, Rgb> = {
+  low: [16, 185, 129],
+  medium: [245, 158, 11],
+  high: [239, 68, 68],
+};
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING;
+
+interface TextOptions {
+  size?: number;
+  color?: Rgb;
+  bold?: boolean;
+  indent?: number;
+  width?: number;
+}
+
+// Writes top to bottom, starting a new page whenever content would run into the footer
+function createWriter(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE.margin * 2;
+  const bottom = pageHeight - PAGE.margin - PAGE.footerHeight;
+  let y = PAGE.margin;
+
+  const setFont = ({ size = 10, color = COLORS.text, bold = false }: TextOptions) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = PAGE.margin;
+    }
+  };
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const { size = 10, indent = 0, width = contentWidth - indent } = options;
+    setFont(options);
+    const lines: string[] = doc.splitTextToSize(value, width);
+    lines.forEach((line) => {
+      ensureSpace(lineHeight(size));
+      doc.text(line, PAGE.margin + indent, y + size * PT_TO_MM);
+      y += lineHeight(size);
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(14);
+    y += 4;
+    text(value.toUpperCase(), { size: 9, bold: true, color: COLORS.accent });
+    doc.setDrawColor(...COLORS.rule);
+    doc.line(PAGE.margin, y, pageWidth - PAGE.margin, y);
+    y += 2.5;
+  };
+
+  const gap = (height: number) => {
+    y += height;
+  };
+
+  return {
+    doc,
+    pageWidth,
+    pageHeight,
+    contentWidth,
+    bottom,
+    setFont,
+    ensureSpace,
+    text,
+    heading,
+    gap,
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+  };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' });
+
+function drawHeader(writer: Writer, report: ClinicalReport) {
+  const { doc } = writer;
+  doc.setFillColor(...COLORS.accent);
+  doc.rect(0, 0, writer.pageWidth, 4, 'F');
+
+  writer.gap(2);
+  writer.text('Clinical Analysis Report', { size: 18, bold: true });
+  writer.text(`Generated ${formatDateTime(Date.now())}`, { size: 8, color: COLORS.muted });
+  writer.gap(4);
+
+  const rows: [string, string][] = [
+    ['Patient', report.input.patientName || 'Not recorded'],
+    ['Attending physician', report.input.doctorName || 'Not recorded'],
+    ['Analysis time', formatDateTime(report.analyzedAt)],
+    ['Analysis engine', describeAnsweringEngine(report.result) ?? 'Not recorded'],
+  ];
+  rows.forEach(([label, value]) => {
+    const top = writer.y;
+    writer.text(label, { size: 9, color: COLORS.muted });
+    writer.y = top;
+    writer.text(value, { size: 10, bold: true, indent: 45 });
+  });
+}
+
+function drawSummary(writer: Writer, report: ClinicalReport) {
+  const { doc } = writer;
+  const { result } = report;
+
+  writer.heading('Diagnosis');
+  writer.text(result.diagnosis, { size: 13, bold: true });
+  if (report.diagnosisCode) {
+    const { code, display, status } = report.diagnosisCode;
+    writer.text(
+      `ICD-10-CM ${code} · ${display} (${status === 'overridden' ? 'set by physician' : 'confirmed by physician'})`,
+      { size: 9, color: COLORS.muted }
+    );
+  }
+  writer.gap(2);
+
+  writer.ensureSpace(10);
+  const top = writer.y;
+  doc.setFillColor(...SEVERITY_RGB[result.severity]);
+  doc.roundedRect(PAGE.margin, top, 32, 7, 1.5, 1.5, 'F');
+  writer.setFont({ size: 9, bold: true, color: [255, 255, 255] });
+  doc.text(`${result.severity.toUpperCase()} SEVERITY`, PAGE.margin + 16, top + 4.8, {
+    align: 'center',
+  });
+  if (result.confidence !== undefined) {
+    writer.setFont({ size: 10, color: COLORS.text });
+    doc.text(`AI confidence: ${result.confidence}%`, PAGE.margin + 38, top + 4.8);
+  }
+  writer.y = top + 10;
+}
+
+// Tag for organs the clinician changed; untouched model findings get none
+const CLINICIAN_TAGS: Partial<Record<OrganSource, string>> = {
+  edited: 'EDITED',
+  clinician: 'ADDED BY MD',
+};
+
+function drawOrgans(writer: Writer, report: ClinicalReport) {
+  const { doc } = writer;
+  const { result, severityLevels, confidenceLevels, organProvenance = {} } = report;
+  const { keys, unrecognized } = normalizeOrgans(result.organs);
+  const removed = (Object.keys(organProvenance) as OrganKey[]).filter(
+    (organKey) => organProvenance[organKey]?.source === 'removed'
+  );
+  if (keys.length === 0 && unrecognized.length === 0 && removed.length === 0) return;
+
+  writer.heading('Affected Organs');
+  const detailIndent = 80;
+
+  keys.forEach((organKey) => {
+    const organ = ORGAN_REGISTRY[organKey];
+    const severity = severityLevels[organKey];
+    const confidence = confidenceLevels[organKey];
+    const detail = getOrganDetail(result.organDetails, organ) ?? '—';
+    const provenance = organProvenance[organKey];
+    const tag = provenance && CLINICIAN_TAGS[provenance.source];
+
+    writer.setFont({ size: 9 });
+    const detailLines: string[] = doc.splitTextToSize(detail, writer.contentWidth - detailIndent);
+    // The model's own values under the clinician's, when they differ
+    const aiParts =
+      provenance?.source === 'edited'
+        ? [
+            provenance.aiSeverity && provenance.aiSeverity !== severity
+              ? provenance.aiSeverity.toUpperCase()
+              : null,
+            provenance.aiDetail && provenance.aiDetail !== detail ? provenance.aiDetail : null,
+          ].filter(Boolean)
+        : [];
+    writer.setFont({ size: 8 });
+    const aiLines: string[] = aiParts.length
+      ? doc.splitTextToSize(`AI: ${aiParts.join(' — ')}`, writer.contentWidth - detailIndent)
+      : [];
+    // Label and SNOMED code take two lines on the left
+    const rowHeight =
+      Math.max(2, detailLines.length) * lineHeight(9) + aiLines.length * lineHeight(8) + 2;
+    writer.ensureSpace(rowHeight);
+
+    const top = writer.y;
+    const baseline = top + 9 * PT_TO_MM;
+    doc.setFillColor(...hexToRgb(organ.color));
+    doc.circle(PAGE.margin + 1.5, baseline - 1.1, 1.5, 'F');
+
+    writer.setFont({ size: 9, bold: true });
+    doc.text(organ.label, PAGE.margin + 5, baseline);
+    writer.setFont({ size: 7, color: COLORS.muted });
+    doc.text(`SNOMED CT ${organ.snomed.code}`, PAGE.margin + 5, baseline + lineHeight(9));
+
+    if (severity) {
+      writer.setFont({ size: 8, bold: true, color: SEVERITY_RGB[severity] });
+      doc.text(severity.toUpperCase(), PAGE.margin + 42, baseline);
+    }
+    if (confidence !== undefined) {
+      writer.setFont({ size: 8, color: COLORS.muted });
+      doc.text(`${Math.round(confidence)}%`, PAGE.margin + 62, baseline);
+    }
+    if (tag) {
+      writer.setFont({ size: 7, bold: true, color: COLORS.accent });
+      doc.text(tag, PAGE.margin + 42, baseline + lineHeight(9));
+    }
+
+    writer.setFont({ size: 9 });
+    doc.text(detailLines, PAGE.margin + detailIndent, baseline, { lineHeightFactor: LINE_SPACING });
+    if (aiLines.length > 0) {
+      writer.setFont({ size: 8, color: COLORS.muted });
+      doc.text(aiLines, PAGE.margin + detailIndent, baseline + detailLines.length * lineHeight(9), {
+        lineHeightFactor: LINE_SPACING,
+      });
+    }
+    writer.y = top + rowHeight;
+  });
+
+  if (removed.length > 0) {
+    writer.gap(1);
+    const names = removed.map((organKey) => {
+      const aiSeverity = organProvenance[organKey]?.aiSeverity;
+      return `${ORGAN_REGISTRY[organKey].label}${aiSeverity ? ` (AI: ${aiSeverity})` : ''}`;
+    });
+    writer.text(`Flagged by AI, removed by the physician: ${names.join(', ')}`, {
+      size: 8,
+      color: COLORS.muted,
+    });
+  }
+
+  if (unrecognized.length > 0) {
+    writer.gap(1);
+    writer.text(`Not mapped to the body: ${unrecognized.join(', ')}`, {
+      size: 8,
+      color: COLORS.muted,
+    });
+  }
+}
+
+function drawExplanation(writer: Writer, report: ClinicalReport) {
+  writer.heading('Clinical Explanation');
+  writer.text(report.result.explanation);
+}
+
+function drawRecommendations(writer: Writer, report: ClinicalReport) {
+  const { doc } = writer;
+  const { recommendations } = report.result;
+  if (recommendations.length === 0) return;
+
+  writer.heading('Recommendations');
+  recommendations.forEach((recommendation, index) => {
+    writer.setFont({ size: 10 });
+    const lines: string[] = doc.splitTextToSize(recommendation, writer.contentWidth - 7);
+    // Keep each recommendation on one page next to its number
+    writer.ensureSpace(lines.length * lineHeight(10));
+    const baseline = writer.y + 10 * PT_TO_MM;
+
+    writer.setFont({ size: 10, bold: true, color: COLORS.accent });
+    doc.text(`${index + 1}.`, PAGE.margin, baseline);
+    writer.setFont({ size: 10 });
+    doc.text(lines, PAGE.margin + 7, baseline, { lineHeightFactor: LINE_SPACING });
+    writer.y += lines.length * lineHeight(10) + 1;
+  });
+}
+
+interface BodyMarker {
+  organKey: OrganKey;
+  x: number; // viewBox units
+  y: number;
+}
+
+// Copy of the live body artwork with only the highlighted organs left in, plus the
+// centre of each organ measured on the live (rendered) element. The live figure
+// is flipped with CSS in mirrored views, which svg2pdf does not see, so the copy
+// and its markers are flipped here instead.
+function cloneBodySvg(svg: SVGSVGElement, highlighted: ReadonlySet<OrganKey>, view: BodyView) {
+  const viewBox = svg.viewBox.baseVal;
+  const box = viewBox && viewBox.width ? viewBox : svg.getBBox();
+
+  const markers: BodyMarker[] = [];
+  highlighted.forEach((organKey) => {
+    const group = svg.querySelector<SVGGElement>(`g[data-organ="${organKey}"]`);
+    if (!group) return;
+    const bbox = group.getBBox();
+    const x = bbox.x + bbox.width / 2 - box.x;
+    markers.push({
+      organKey,
+      x: view.mirrored ? box.width - x : x,
+      y: bbox.y + bbox.height / 2 - box.y,
+    });
+  });
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll<SVGGElement>('g[data-organ]').forEach((group) => {
+    if (!highlighted.has(group.getAttribute('data-organ') as OrganKey)) {
+      group.remove();
+      return;
+    }
+    // Filters and transitions have no PDF equivalent
+    group.style.removeProperty('filter');
+    group.style.removeProperty('transition');
+    group.style.removeProperty('opacity');
+  });
+
+  if (view.mirrored) {
+    const flipped = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    flipped.setAttribute('transform', `translate(${2 * box.x + box.width} 0) scale(-1 1)`);
+    Array.from(clone.childNodes)
+      .filter((node) => node.nodeName !== 'defs')
+      .forEach((node) => flipped.appendChild(node));
+    clone.appendChild(flipped);
+  }
+
+  return { clone, markers, width: box.width, height: box.height };
+}
+
+async function drawBody(writer: Writer, report: ClinicalReport) {
+  const { doc } = writer;
+  const { bodySvg, result, severityLevels } = report;
+  if (!bodySvg) return;
+
+  const view = BODY_VIEWS[report.view ?? DEFAULT_BODY_VIEW];
+  const highlighted = new Set(
+    normalizeOrgans(result.organs).keys.filter((organKey) =>
+      isOrganInView(ORGAN_REGISTRY[organKey], view.id)
+    )
+  );
+  const { clone, markers, width, height } = cloneBodySvg(bodySvg, highlighted, view);
+
+  doc.addPage();
+  writer.y = PAGE.margin;
+  writer.heading(
+    view.system
+      ? `Body Visualization — ${view.label} System`
+      : `Body Visualization — ${view.label} View`
+  );
+
+  // Leave room either side of the figure for organ labels
+  const labelColumn = 42;
+  const areaTop = writer.y + 2;
+  const areaWidth = writer.contentWidth - labelColumn * 2;
+  const areaHeight = writer.bottom - areaTop;
+  const scale = Math.min(areaWidth / width, areaHeight / height);
+  const figureWidth = width * scale;
+  const figureHeight = height * scale;
+  const figureX = (writer.pageWidth - figureWidth) / 2;
+  const figureY = areaTop;
+
+  // svg2pdf resolves styles and geometry through the DOM, so render from an attached copy
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-10000px;top:0;width:0;height:0;overflow:hidden;';
+  host.appendChild(clone);
+  document.body.appendChild(host);
+  try {
+    await doc.svg(clone, { x: figureX, y: figureY, width: figureWidth, height: figureHeight });
+  } finally {
+    host.remove();
+  }
+
+  // Labels in a column on each side, connected to the organ centre
+  const labelGap = 7;
+  const placeSide = (side: BodyMarker[], isRight: boolean) => {
+    let previous = -Infinity;
+    side
+      .sort((a, b) => a.y - b.y)
+      .forEach((marker) => {
+        const organ = ORGAN_REGISTRY[marker.organKey];
+        const color = hexToRgb(organ.color);
+        const pointX = figureX + marker.x * scale;
+        const pointY = figureY + marker.y * scale;
+        const labelY = Math.max(pointY, previous + labelGap);
+        previous = labelY;
+        const labelX = isRight
+          ? writer.pageWidth - PAGE.margin - labelColumn + 2
+          : PAGE.margin + labelColumn - 2;
+
+        doc.setDrawColor(...color);
+        doc.setLineWidth(0.3);
+        doc.line(pointX, pointY, labelX, labelY);
+        doc.setFillColor(...color);
+        doc.circle(pointX, pointY, 1.6, 'F');
+
+        const severity = severityLevels[marker.organKey];
+        const source = report.organProvenance?.[marker.organKey]?.source;
+        const tag = source && CLINICIAN_TAGS[source];
+        writer.setFont({ size: 8, bold: true, color: COLORS.text });
+        doc.text(organ.label, labelX + (isRight ? 1.5 : -1.5), labelY, {
+          align: isRight ? 'left' : 'right',
+        });
+        if (severity || tag) {
+          writer.setFont({ size: 7, color: severity ? SEVERITY_RGB[severity] : COLORS.accent });
+          doc.text(
+            [severity?.toUpperCase(), tag].filter(Boolean).join(' · '),
+            labelX + (isRight ? 1.5 : -1.5),
+            labelY + 3.2,
+            { align: isRight ? 'left' : 'right' }
+          );
+        }
+      });
+  };
+
+  placeSide(markers.filter((marker) => marker.x <= width / 2), false);
+  placeSide(markers.filter((marker) => marker.x > width / 2), true);
+}
+
+function drawConsent(writer: Writer, report: ClinicalReport) {
+  const { consent } = report;
+  writer.heading('Patient Consent');
+  if (!consent) {
+    writer.text('No consent record is stored with this analysis.', { color: COLORS.muted });
+    return;
+  }
+
+  const rows: [string, string][] = [
+    [
+      'Given by',
+      consent.grantor === 'patient'
+        ? `${consent.grantorName} (patient)`
+        : `${consent.grantorName} (${consent.relationship || 'representative'})`,
+    ],
+    ['Recorded by', consent.recordedBy || 'Not recorded'],
+    ['Recorded at', formatDateTime(consent.grantedAt)],
+    [
+      'Engines',
+      consent.engines.map((engine) => `${ENGINES[engine].label} (${ENGINES[engine].location})`).join(', '),
+    ],
+    ['Statement', `Version ${consent.textVersion}`],
+  ];
+  rows.forEach(([label, value]) => {
+    const top = writer.y;
+    writer.text(label, { size: 9, color: COLORS.muted });
+    writer.y = top;
+    writer.text(value, { size: 10, indent: 45, width: writer.contentWidth - 45 });
+  });
+
+  const text = consentText(consent.textVersion);
+  if (text) {
+    writer.gap(1.5);
+    writer.text(`"${text}"`, { size: 8, color: COLORS.muted });
+  }
+}
+
+// Disclaimer and page numbers on every page, once the page count is known
+function drawFooters(writer: Writer) {
+  const { doc } = writer;
+  const pageCount = doc.getNumberOfPages();
+  const top = writer.pageHeight - PAGE.margin - PAGE.footerHeight + 6;
+
+  for (let page = 1; page <= pageCount; page += 1) {
+    doc.setPage(page);
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.2);
+    doc.line(PAGE.margin, top, writer.pageWidth - PAGE.margin, top);
+
+    writer.setFont({ size: 7, color: COLORS.muted });
+    const lines: string[] = doc.splitTextToSize(CLINICAL_DISCLAIMER, writer.contentWidth - 25);
+    doc.text(lines, PAGE.margin, top + 4);
+    doc.text(`Page ${page} of ${pageCount}`, writer.pageWidth - PAGE.margin, top + 4, {
+      align: 'right',
+    });
+  }
+}
+
+export async function createReportPdf(report: ClinicalReport): Promise<jsPDF> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({
+    title: `Clinical Analysis Report – ${report.input.patientName || 'Patient'}`,
+    subject: report.result.diagnosis,
+    creator: 'Medical AI Analyzer',
+  });
+
+  const writer = createWriter(doc);
+  drawHeader(writer, report);
+  drawSummary(writer, report);
+  drawOrgans(writer, report);
+  drawExplanation(writer, report);
+  drawRecommendations(writer, report);
+  drawConsent(writer, report);
+  await drawBody(writer, report);
+  drawFooters(writer);
+
+  return doc;
+}
+
+export const reportFileName = (
+  report: Pick<ClinicalReport, 'input' | 'analyzedAt'>,
+  extension = 'pdf'
+) => {
+  const patient = (report.input.patientName || 'patient')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const date = new Date(report.analyzedAt).toISOString().split('T')[0];
+  return `clinical-report-${patient || 'patient'}-${date}.${extension}`;
+};
+
+export async function downloadReportPdf(report: ClinicalReport): Promise<void> {
+  const doc = await createReportPdf(report);
+  doc.save(reportFileName(report));
+}
@@ -0,0 +1,19 @@
+import type { OrganProvenanceMap } from '../annotations';
+import type { AnalysisResult, AnalyzeRequest, Severity } from '../api';
+import type { ConsentRecord } from '../consent';
+import type { BodyViewId, OrganKey } from '../organs';
+import type { DiagnosisCode } from '../terminology';
+
+// Everything a clinical report is built from
+export interface ClinicalReport {
+  input: AnalyzeRequest; // Patient and physician names come from here
+  result: AnalysisResult; // With clinician annotations applied
+  organProvenance?: OrganProvenanceMap; // Marks clinician-edited organs against the model's values
+  diagnosisCode?: DiagnosisCode | null; // Physician-confirmed ICD-10 code
+  analyzedAt: number; // epoch ms when the analysis completed
+  consent?: ConsentRecord; // Unset for analyses saved before consent was recorded
+  severityLevels: Partial<Record<OrganKey, Severity>>;
+  confidenceLevels: Partial<Record<OrganKey, number>>;
+  bodySvg?: SVGSVGElement | null; // Live body artwork to embed as vector graphics
+  view?: BodyViewId; // View the artwork was shown in; anterior when unset
+}
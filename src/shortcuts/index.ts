@@ -0,0 +1,4 @@
+export { SHORTCUTS, formatShortcut, matchesShortcut, viewShortcut } from './shortcuts';
+export type { Shortcut, ShortcutId } from './shortcuts';
+export { useShortcuts } from './useShortcuts';
+export type { ShortcutBinding } from './useShortcuts';
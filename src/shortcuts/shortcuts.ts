@@ -0,0 +1,61 @@
+// A key combination. `code` is the physical key (KeyboardEvent.code), so
+// Alt combinations work on macOS, where Alt changes the typed character.
+export interface Shortcut {
+  code: string;
+  mod?: boolean; // Ctrl, or ⌘ on macOS
+  alt?: boolean;
+  shift?: boolean;
+}
+
+export type ShortcutId =
+  | 'commandPalette'
+  | 'newAnalysis'
+  | 'runAnalysis'
+  | 'clear'
+  | 'toggleInput'
+  | 'toggleTheme'
+  | 'toggleHistory'
+  | 'exportImage'
+  | 'exportPdf'
+  | 'exportFhir';
+
+export const SHORTCUTS: Record<ShortcutId, Shortcut> = {
+  commandPalette: { code: 'KeyK', mod: true },
+  newAnalysis: { code: 'KeyN', alt: true },
+  runAnalysis: { code: 'Enter', mod: true },
+  clear: { code: 'KeyC', alt: true, shift: true },
+  toggleInput: { code: 'KeyI', alt: true },
+  toggleTheme: { code: 'KeyT', alt: true },
+  toggleHistory: { code: 'KeyH', alt: true },
+  exportImage: { code: 'KeyS', alt: true },
+  exportPdf: { code: 'KeyP', alt: true },
+  exportFhir: { code: 'KeyF', alt: true },
+};
+
+// Alt+1 to Alt+7 switch body views, in switcher order
+export const viewShortcut = (index: number): Shortcut => ({ code: `Digit${index + 1}`, alt: true });
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const matchesShortcut = (event: KeyboardEvent, shortcut: Shortcut) =>
+  event.code === shortcut.code &&
+  (isMac() ? event.metaKey : event.ctrlKey) === !!shortcut.mod &&
+  event.altKey === !!shortcut.alt &&
+  event.shiftKey === !!shortcut.shift;
+
+const KEY_LABELS: Record<string, string> = { Enter: '↵', Escape: 'Esc' };
+
+const keyLabel = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '');
+
+// "Ctrl+Alt+K" style on Windows and Linux, "⌘⌥K" style on macOS
+export function formatShortcut(shortcut: Shortcut): string {
+  const mac = isMac();
+  const parts = [
+    shortcut.mod && (mac ? '⌘' : 'Ctrl'),
+    shortcut.alt && (mac ? '⌥' : 'Alt'),
+    shortcut.shift && (mac ? '⇧' : 'Shift'),
+    keyLabel(shortcut.code),
+  ].filter(Boolean);
+  return parts.join(mac ? '' : '+');
+}
@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { matchesShortcut, type Shortcut } from './shortcuts';
+
+export type ShortcutBinding = [Shortcut, () => void];
+
+// Run a handler when its key combination is pressed anywhere on the page.
+// Bindings are read when a key is pressed, so a new list each render is fine.
+export function useShortcuts(bindings: ShortcutBinding[], enabled = true) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      const binding = bindingsRef.current.find(([shortcut]) => matchesShortcut(event, shortcut));
+      if (!binding) return;
+      event.preventDefault();
+      binding[1]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
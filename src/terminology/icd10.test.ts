@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isIcd10Code, lookupIcd10, suggestIcd10 } from './icd10';
+
+const codes = (diagnosis: string, organs: Parameters<typeof suggestIcd10>[1] = []) =>
+  suggestIcd10(diagnosis, organs).map((suggestion) => suggestion.code);
+
+describe('suggestIcd10', () => {
+  it('ranks the type 1 code first for type 1 diabetes', () => {
+    expect(codes('Type 1 diabetes mellitus')[0]).toBe('E10.9');
+    expect(codes('Diabetes mellitus type 1', ['pancreas'])[0]).toBe('E10.9');
+    expect(codes('Poorly controlled type 1 diabetes')[0]).toBe('E10.9');
+  });
+
+  it('ranks the type 2 code first for type 2 diabetes', () => {
+    expect(codes('Type 2 diabetes mellitus')[0]).toBe('E11.9');
+    expect(codes('Type 2 diabetes mellitus').includes('E10.9')).toBe(false);
+    expect(codes('Diabetes mellitus', ['pancreas'])[0]).toBe('E11.9');
+  });
+
+  it('prefers the more specific phrase over a generic one', () => {
+    expect(codes('Chronic sinusitis')[0]).toBe('J32.9');
+    expect(codes('Acute sinusitis')[0]).toBe('J01.90');
+  });
+
+  it('matches whole words only', () => {
+    expect(codes('Fluid overload').includes('J11.1')).toBe(false);
+  });
+
+  it('returns nothing for a blank diagnosis', () => {
+    expect(suggestIcd10('   ')).toEqual([]);
+  });
+});
+
+describe('isIcd10Code', () => {
+  it('accepts well-formed codes and rejects others', () => {
+    expect(isIcd10Code(' e11.9 ')).toBe(true);
+    expect(isIcd10Code('T78.2XXA')).toBe(true);
+    expect(isIcd10Code('11.9')).toBe(false);
+  });
+});
+
+describe('lookupIcd10', () => {
+  it('finds bundled codes regardless of case', () => {
+    expect(lookupIcd10('e10.9')?.display).toBe('Type 1 diabetes mellitus without complications');
+    expect(lookupIcd10('Z99.9')).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import type { OrganKey } from '../organs';
+import { ICD10_CM, type Icd10Suggestion, type TerminologyCode } from './types';
+
+interface Icd10Entry {
+  code: string;
+  display: string;
+  keywords: readonly string[]; // matched as whole words/phrases in the diagnosis
+  organs?: readonly OrganKey[]; // organs that make the code more likely
+}
+
+// Offline ICD-10-CM subset covering the conditions the model commonly returns
+// for the organs on the body. Not a substitute for a full terminology service.
+const ICD10_SUBSET: readonly Icd10Entry[] = [
+  // Respiratory
+  { code: 'J18.9', display: 'Pneumonia, unspecified organism', keywords: ['pneumonia'], organs: ['lungs'] },
+  { code: 'J20.9', display: 'Acute bronchitis, unspecified', keywords: ['bronchitis', 'acute bronchitis'], organs: ['bronchi'] },
+  { code: 'J44.9', display: 'Chronic obstructive pulmonary disease, unspecified', keywords: ['copd', 'chronic obstructive pulmonary', 'emphysema'], organs: ['lungs'] },
+  { code: 'J45.909', display: 'Unspecified asthma, uncomplicated', keywords: ['asthma'], organs: ['lungs', 'bronchi'] },
+  { code: 'J06.9', display: 'Acute upper respiratory infection, unspecified', keywords: ['upper respiratory infection', 'uri', 'common cold'], organs: ['throat', 'sinuses'] },
+  { code: 'J02.9', display: 'Acute pharyngitis, unspecified', keywords: ['pharyngitis', 'sore throat'], organs: ['throat'] },
+  { code: 'J02.0', display: 'Streptococcal pharyngitis', keywords: ['strep throat', 'streptococcal pharyngitis'], organs: ['throat'] },
+  { code: 'J03.90', display: 'Acute tonsillitis, unspecified', keywords: ['tonsillitis'], organs: ['throat'] },
+  { code: 'J01.90', display: 'Acute sinusitis, unspecified', keywords: ['sinusitis', 'acute sinusitis', 'rhinosinusitis'], organs: ['sinuses'] },
+  { code: 'J32.9', display: 'Chronic sinusitis, unspecified', keywords: ['chronic sinusitis', 'chronic rhinosinusitis'], organs: ['sinuses'] },
+  { code: 'J11.1', display: 'Influenza due to unidentified influenza virus with other respiratory manifestations', keywords: ['influenza', 'flu'], organs: ['lungs', 'throat'] },
+  { code: 'U07.1', display: 'COVID-19', keywords: ['covid', 'covid 19', 'sars cov 2', 'coronavirus'], organs: ['lungs'] },
+  { code: 'I26.99', display: 'Other pulmonary embolism without acute cor pulmonale', keywords: ['pulmonary embolism'], organs: ['lungs', 'heart'] },
+  { code: 'J96.00', display: 'Acute respiratory failure, unspecified whether with hypoxia or hypercapnia', keywords: ['respiratory failure', 'respiratory distress'], organs: ['lungs'] },
+  { code: 'J93.9', display: 'Pneumothorax, unspecified', keywords: ['pneumothorax', 'collapsed lung'], organs: ['lungs'] },
+  { code: 'A15.0', display: 'Tuberculosis of lung', keywords: ['tuberculosis'], organs: ['lungs'] },
+  { code: 'C34.90', display: 'Malignant neoplasm of unspecified part of unspecified bronchus or lung', keywords: ['lung cancer', 'lung carcinoma'], organs: ['lungs', 'bronchi'] },
+
+  // Cardiovascular
+  { code: 'I21.9', display: 'Acute myocardial infarction, unspecified', keywords: ['myocardial infarction', 'heart attack', 'stemi', 'nstemi'], organs: ['heart'] },
+  { code: 'I20.9', display: 'Angina pectoris, unspecified', keywords: ['angina'], organs: ['heart'] },
+  { code: 'I50.9', display: 'Heart failure, unspecified', keywords: ['heart failure', 'congestive heart failure', 'chf'], organs: ['heart', 'lungs'] },
+  { code: 'I48.91', display: 'Unspecified atrial fibrillation', keywords: ['atrial fibrillation', 'afib', 'a fib'], organs: ['heart'] },
+  { code: 'I49.9', display: 'Cardiac arrhythmia, unspecified', keywords: ['arrhythmia', 'palpitations'], organs: ['heart'] },
+  { code: 'I10', display: 'Essential (primary) hypertension', keywords: ['hypertension', 'high blood pressure'], organs: ['heart', 'kidney'] },
+  { code: 'I30.9', display: 'Acute pericarditis, unspecified', keywords: ['pericarditis'], organs: ['heart'] },
+  { code: 'I40.9', display: 'Acute myocarditis, unspecified', keywords: ['myocarditis'], organs: ['heart'] },
+  { code: 'I25.10', display: 'Atherosclerotic heart disease of native coronary artery without angina pectoris', keywords: ['coronary artery disease', 'atherosclerotic heart disease'], organs: ['heart'] },
+  { code: 'R07.9', display: 'Chest pain, unspecified', keywords: ['chest pain'], organs: ['heart', 'lungs'] },
+
+  // Nervous
+  { code: 'G43.909', display: 'Migraine, unspecified, not intractable, without status migrainosus', keywords: ['migraine'], organs: ['brain'] },
+  { code: 'G44.209', display: 'Tension-type headache, unspecified, not intractable', keywords: ['tension headache', 'tension type headache'], organs: ['brain'] },
+  { code: 'R51.9', display: 'Headache, unspecified', keywords: ['headache'], organs: ['brain'] },
+  { code: 'I63.9', display: 'Cerebral infarction, unspecified', keywords: ['stroke', 'cerebral infarction', 'cerebrovascular accident'], organs: ['brain'] },
+  { code: 'G45.9', display: 'Transient cerebral ischemic attack, unspecified', keywords: ['transient ischemic attack', 'tia'], organs: ['brain'] },
+  { code: 'G40.909', display: 'Epilepsy, unspecified, not intractable, without status epilepticus', keywords: ['epilepsy', 'seizure disorder'], organs: ['brain'] },
+  { code: 'R56.9', display: 'Unspecified convulsions', keywords: ['seizure', 'seizures', 'convulsions'], organs: ['brain'] },
+  { code: 'G03.9', display: 'Meningitis, unspecified', keywords: ['meningitis'], organs: ['brain'] },
+  { code: 'S06.0X0A', display: 'Concussion without loss of consciousness, initial encounter', keywords: ['concussion'], organs: ['brain'] },
+
+  // Digestive
+  { code: 'K21.9', display: 'Gastro-esophageal reflux disease without esophagitis', keywords: ['gerd', 'reflux', 'acid reflux', 'gastroesophageal reflux', 'heartburn'], organs: ['stomach', 'throat'] },
+  { code: 'K29.70', display: 'Gastritis, unspecified, without bleeding', keywords: ['gastritis'], organs: ['stomach'] },
+  { code: 'K27.9', display: 'Peptic ulcer, site unspecified, unspecified as acute or chronic, without hemorrhage or perforation', keywords: ['peptic ulcer', 'gastric ulcer', 'stomach ulcer', 'ulcer'], organs: ['stomach'] },
+  { code: 'A09', display: 'Infectious gastroenteritis and colitis, unspecified', keywords: ['gastroenteritis', 'stomach flu', 'infectious diarrhea'], organs: ['stomach', 'intestine'] },
+  { code: 'K35.80', display: 'Unspecified acute appendicitis', keywords: ['appendicitis'], organs: ['intestine'] },
+  { code: 'K85.90', display: 'Acute pancreatitis without necrosis or infection, unspecified', keywords: ['pancreatitis', 'acute pancreatitis'], organs: ['pancreas'] },
+  { code: 'K86.1', display: 'Other chronic pancreatitis', keywords: ['chronic pancreatitis'], organs: ['pancreas'] },
+  { code: 'B19.9', display: 'Unspecified viral hepatitis without hepatic coma', keywords: ['hepatitis', 'viral hepatitis'], organs: ['liver'] },
+  { code: 'K76.0', display: 'Fatty (change of) liver, not elsewhere classified', keywords: ['fatty liver', 'hepatic steatosis', 'nafld'], organs: ['liver'] },
+  { code: 'K74.60', display: 'Unspecified cirrhosis of liver', keywords: ['cirrhosis'], organs: ['liver'] },
+  { code: 'K80.20', display: 'Calculus of gallbladder without cholecystitis without obstruction', keywords: ['gallstones', 'gallstone', 'cholelithiasis'], organs: ['liver'] },
+  { code: 'K81.9', display: 'Cholecystitis, unspecified', keywords: ['cholecystitis'], organs: ['liver'] },
+  { code: 'K58.9', display: 'Irritable bowel syndrome without diarrhea', keywords: ['irritable bowel', 'ibs'], organs: ['intestine'] },
+  { code: 'K50.90', display: "Crohn's disease, unspecified, without complications", keywords: ['crohn', 'crohns'], organs: ['intestine'] },
+  { code: 'K51.90', display: 'Ulcerative colitis, unspecified, without complications', keywords: ['ulcerative colitis'], organs: ['intestine'] },
+  { code: 'K56.609', display: 'Unspecified intestinal obstruction, unspecified as to partial versus complete obstruction', keywords: ['bowel obstruction', 'intestinal obstruction'], organs: ['intestine'] },
+  { code: 'E11.9', display: 'Type 2 diabetes mellitus without complications', keywords: ['diabetes', 'diabetes mellitus', 'type 2 diabetes', 'type 2 diabetes mellitus', 'diabetes mellitus type 2'], organs: ['pancreas'] },
+  { code: 'E10.9', display: 'Type 1 diabetes mellitus without complications', keywords: ['type 1 diabetes', 'type 1 diabetes mellitus', 'diabetes mellitus type 1'], organs: ['pancreas'] },
+  { code: 'R10.9', display: 'Unspecified abdominal pain', keywords: ['abdominal pain'], organs: ['stomach', 'intestine'] },
+
+  // Urinary
+  { code: 'N39.0', display: 'Urinary tract infection, site not specified', keywords: ['urinary tract infection', 'uti'], organs: ['bladder', 'kidney'] },
+  { code: 'N30.00', display: 'Acute cystitis without hematuria', keywords: ['cystitis', 'bladder infection'], organs: ['bladder'] },
+  { code: 'N10', display: 'Acute pyelonephritis', keywords: ['pyelonephritis', 'kidney infection'], organs: ['kidney'] },
+  { code: 'N20.0', display: 'Calculus of kidney', keywords: ['kidney stone', 'kidney stones', 'nephrolithiasis', 'renal calculus'], organs: ['kidney'] },
+  { code: 'N17.9', display: 'Acute kidney failure, unspecified', keywords: ['acute kidney injury', 'aki', 'acute renal failure', 'kidney failure'], organs: ['kidney'] },
+  { code: 'N18.9', display: 'Chronic kidney disease, unspecified', keywords: ['chronic kidney disease', 'ckd'], organs: ['kidney'] },
+
+  // Systemic
+  { code: 'A41.9', display: 'Sepsis, unspecified organism', keywords: ['sepsis', 'septic'] },
+  { code: 'R50.9', display: 'Fever, unspecified', keywords: ['fever'] },
+  { code: 'E86.0', display: 'Dehydration', keywords: ['dehydration'] },
+  { code: 'T78.2XXA', display: 'Anaphylactic shock, unspecified, initial encounter', keywords: ['anaphylaxis', 'anaphylactic'] },
+];
+
+// Lowercase, punctuation to spaces, padded so phrases match on word boundaries
+const normalizeText = (text: string) =>
+  ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const toCode = ({ code, display }: Icd10Entry): TerminologyCode => ({
+  system: ICD10_CM,
+  code,
+  display,
+});
+
+// ICD-10-CM codes whose keywords appear in the diagnosis, best first. Each code
+// scores by its longest (most specific) matching phrase, so a code with several
+// generic matches cannot outrank one with a specific match; organs shared with
+// the analysis break ties.
+export function suggestIcd10(
+  diagnosis: string,
+  organs: readonly OrganKey[] = [],
+  limit = 5
+): Icd10Suggestion[] {
+  const text = normalizeText(diagnosis);
+  if (!text.trim()) return [];
+
+  return ICD10_SUBSET.map((entry, index) => {
+    const keywordScore = entry.keywords
+      .filter((keyword) => text.includes(normalizeText(keyword)))
+      .reduce((score, keyword) => Math.max(score, keyword.length), 0);
+    const organScore = keywordScore
+      ? (entry.organs ?? []).filter((organ) => organs.includes(organ)).length * 2
+      : 0;
+    return { entry, index, score: keywordScore + organScore };
+  })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({ ...toCode(entry), score }));
+}
+
+// Loose structural check: letter, two characters, optional dot and up to four more
+const ICD10_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+export const isIcd10Code = (code: string) => ICD10_PATTERN.test(code.trim().toUpperCase());
+
+// Subset entry for a code, if the code is one of the bundled ones
+export function lookupIcd10(code: string): TerminologyCode | undefined {
+  const normalized = code.trim().toUpperCase();
+  const entry = ICD10_SUBSET.find((item) => item.code === normalized);
+  return entry ? toCode(entry) : undefined;
+}
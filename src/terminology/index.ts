@@ -0,0 +1,3 @@
+export { isIcd10Code, lookupIcd10, suggestIcd10 } from './icd10';
+export { ICD10_CM, SNOMED_CT } from './types';
+export type { DiagnosisCode, Icd10Suggestion, TerminologyCode } from './types';
@@ -0,0 +1,18 @@
+export const SNOMED_CT = 'http://snomed.info/sct';
+export const ICD10_CM = 'http://hl7.org/fhir/sid/icd-10-cm';
+
+export interface TerminologyCode {
+  system: string;
+  code: string;
+  display: string;
+}
+
+export interface Icd10Suggestion extends TerminologyCode {
+  score: number; // Higher is a closer match to the diagnosis text
+}
+
+// Diagnosis code the physician accepted: one of the suggestions, or their own
+export interface DiagnosisCode extends TerminologyCode {
+  status: 'confirmed' | 'overridden';
+  confirmedAt: number; // epoch ms
+}
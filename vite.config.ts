@@ -1,4 +1,5 @@
 
+  /// <reference types="vitest/config" />
   import { defineConfig } from 'vite';
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
@@ -57,4 +58,12 @@
       port: 3000,
       open: true,
     },
+    test: {
+      server: {
+        deps: {
+          // svg2pdf.js's CommonJS build cannot find jsPDF under Node; load its ES build as the app does
+          inline: ['svg2pdf.js'],
+        },
+      },
+    },
   });
\ No newline at end of file